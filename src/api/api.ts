@@ -0,0 +1,184 @@
+import { EventRef, TAbstractFile, TFile, TFolder } from 'obsidian';
+
+import LatexReferencer from 'main';
+import { Indexable, Linkable } from 'index/typings/indexable';
+import { EquationBlock, MathBlock, ProofBlock, TheoremCalloutBlock } from 'index/typings/markdown';
+import { resolveLinktext } from 'utils/obsidian';
+import { parseLabelLinktext } from 'utils/parse';
+import { EquationInfo, IndexedObject, LatexReferencerAPI, MathBlockInfo, ProofInfo, TheoremInfo } from 'api/typings';
+
+
+type EventCallback = (...data: never[]) => unknown;
+
+
+/** Bump the major version on a breaking change, and the minor version when adding something. */
+export const API_VERSION = "1.1.0";
+
+
+/**
+ * The implementation of the public API, exposed as `plugin.api`. See `api/typings.d.ts` for the documentation.
+ * The returned objects are plain copies, so that other plugins can't modify the index by accident.
+ */
+export class PluginAPI implements LatexReferencerAPI {
+    readonly version = API_VERSION;
+
+    constructor(private plugin: LatexReferencer) { }
+
+    private get index() {
+        return this.plugin.indexManager.index;
+    }
+
+    getTheorems(path?: string): TheoremInfo[] {
+        return this.getMathBlocks("block-theorem", path).filter(TheoremCalloutBlock.isTheoremCalloutBlock).map(toTheoremInfo);
+    }
+
+    getEquations(path?: string): EquationInfo[] {
+        return this.getMathBlocks("block-equation", path).filter(EquationBlock.isEquationBlock).map(toEquationInfo);
+    }
+
+    /** Get the blocks of the given type in the given note/folder (or in the entire vault), sorted in the document order. */
+    private getMathBlocks(type: string, path?: string): MathBlock[] {
+        const target = path === undefined ? null : this.plugin.app.vault.getAbstractFileByPath(path);
+        if (path !== undefined && !target) return [];
+
+        const blocks = this.index.load([...this.index.getByType(type)])
+            .filter((block): block is MathBlock => MathBlock.isMathBlock(block))
+            .filter((block) => {
+                if (!target) return true;
+                if (target instanceof TFolder) return target.isRoot() || block.$file.startsWith(target.path + '/');
+                return block.$file === target.path;
+            });
+
+        return blocks.sort((a, b) => a.$file.localeCompare(b.$file, undefined, { numeric: true }) || a.$position.start - b.$position.start);
+    }
+
+    getBlockByLink(linktext: string, sourcePath = ''): TheoremInfo | EquationInfo | null {
+        const label = parseLabelLinktext(linktext);
+        if (label !== null) {
+            return toBlockInfo(this.index.getBlockByLabel(label) ?? undefined);
+        }
+
+        const resolved = resolveLinktext(this.plugin.app, linktext, sourcePath);
+        if (!resolved) return null;
+
+        const { file, subpathResult } = resolved;
+        const page = this.index.getMarkdownPage(file.path);
+        if (!page) return null;
+
+        if (subpathResult?.type === 'block') {
+            return toBlockInfo(page.$blocks.get(subpathResult.block.id));
+        }
+        if (!subpathResult) {
+            // a link to a note refers to its main theorem
+            return this.getTheorems(file.path).find((theorem) => theorem.$main) ?? null;
+        }
+        return null;
+    }
+
+    getPrintName(block: MathBlockInfo | string): string | null {
+        return this.toMathBlock(block)?.$printName ?? null;
+    }
+
+    getRefName(block: MathBlockInfo | string): string | null {
+        return this.toMathBlock(block)?.$refName ?? null;
+    }
+
+    getBacklinks(block: MathBlockInfo | string): IndexedObject[] {
+        const mathBlock = this.toMathBlock(block);
+        if (!mathBlock?.$link) return [];
+        return this.index.load([...this.index.getBacklinks(mathBlock as Linkable)]).map(toIndexedObject);
+    }
+
+    getProofs(theorem: TheoremInfo | string): ProofInfo[] {
+        const block = this.toMathBlock(theorem) ?? undefined;
+        return TheoremCalloutBlock.isTheoremCalloutBlock(block) ? this.index.getProofs(block).map(toProofInfo) : [];
+    }
+
+    getProvedTheorem(proof: ProofInfo | string): TheoremInfo | null {
+        const object = this.index.load(typeof proof === 'string' ? proof : proof.$id);
+        const theorem = ProofBlock.isProofBlock(object) ? this.index.getProvedTheorem(object) : null;
+        return theorem ? toTheoremInfo(theorem) : null;
+    }
+
+    on(evt: "index-updated", callback: (file: TFile) => unknown): EventRef;
+    on(evt: "index-initialized", callback: () => unknown): EventRef;
+    on(evt: "local-settings-updated", callback: (file: TAbstractFile) => unknown): EventRef;
+    on(evt: "global-settings-updated", callback: () => unknown): EventRef;
+    on(evt: string, callback: EventCallback): EventRef {
+        return this.plugin.indexManager.events.on(evt, callback);
+    }
+
+    off(evt: "index-updated", callback: (file: TFile) => unknown): void;
+    off(evt: "index-initialized", callback: () => unknown): void;
+    off(evt: "local-settings-updated", callback: (file: TAbstractFile) => unknown): void;
+    off(evt: "global-settings-updated", callback: () => unknown): void;
+    off(evt: string, callback: EventCallback) {
+        this.plugin.indexManager.events.off(evt, callback);
+    }
+
+    offref(ref: EventRef) {
+        this.plugin.indexManager.offref(ref);
+    }
+
+    /** Get the up-to-date block from the index, since the given object might be outdated. */
+    private toMathBlock(block: MathBlockInfo | string): MathBlock | null {
+        const object = this.index.load(typeof block === 'string' ? block : block.$id);
+        return MathBlock.isMathBlock(object) ? object : null;
+    }
+}
+
+
+function toIndexedObject(object: Indexable): IndexedObject {
+    return { $id: object.$id, $types: [...object.$types], $file: object.$file };
+}
+
+function toMathBlockInfo(block: MathBlock): MathBlockInfo {
+    return {
+        $id: block.$id,
+        $types: [...block.$types],
+        $file: block.$file,
+        $type: block.$type,
+        $position: { ...block.$position },
+        $pos: structuredClone(block.$pos),
+        $blockId: block.$blockId,
+        $label: block.$label,
+        $display: block.$display,
+        $printName: block.$printName,
+        $refName: block.$refName,
+    };
+}
+
+function toTheoremInfo(block: TheoremCalloutBlock): TheoremInfo {
+    return {
+        ...toMathBlockInfo(block),
+        $settings: { type: block.$settings.type, number: block.$settings.number, title: block.$settings.title },
+        $main: block.$main,
+    };
+}
+
+function toEquationInfo(block: EquationBlock): EquationInfo {
+    return {
+        ...toMathBlockInfo(block),
+        $mathText: block.$mathText,
+        $manualTag: block.$manualTag,
+        $subEquations: block.$subEquations.map((sub) => ({ $index: sub.$index, $label: sub.$label, $printName: sub.$printName, $refName: sub.$refName })),
+    };
+}
+
+function toBlockInfo(block: Indexable | undefined): TheoremInfo | EquationInfo | null {
+    if (TheoremCalloutBlock.isTheoremCalloutBlock(block)) return toTheoremInfo(block);
+    if (EquationBlock.isEquationBlock(block)) return toEquationInfo(block);
+    return null;
+}
+
+function toProofInfo(proof: ProofBlock): ProofInfo {
+    return {
+        $id: proof.$id,
+        $types: [...proof.$types],
+        $file: proof.$file,
+        $position: { ...proof.$position },
+        $pos: structuredClone(proof.$pos),
+        $linktext: proof.$linktext,
+        $title: proof.$title,
+    };
+}
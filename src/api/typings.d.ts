@@ -0,0 +1,143 @@
+/**
+ * Public API of LaTeX-like Theorem & Equation Referencer.
+ *
+ * Other plugins can access it via `app.plugins.plugins["math-booster"].api`.
+ * This file depends only on the Obsidian API, so it can be copied into other projects as is.
+ *
+ * The returned objects are plain copies of the indexed data, so modifying them doesn't affect the plugin.
+ *
+ * The API follows semantic versioning (see `LatexReferencerAPI.version`):
+ * members are only added in minor versions, and breaking changes are made only in major versions.
+ */
+
+import { EventRef, Pos, TAbstractFile, TFile } from "obsidian";
+
+
+/** A span of contiguous lines (0-based, inclusive). */
+export interface LineSpan {
+    start: number;
+    end: number;
+}
+
+/** An object stored in the index (a note, a section or a block). */
+export interface IndexedObject {
+    /** A unique ID of this object in the index. */
+    $id: string;
+    /** e.g. ["markdown", "page"] for a note, ["markdown", "block", "block-math-booster", "block-theorem"] for a theorem callout */
+    $types: string[];
+    /** The path of the note containing this object. */
+    $file?: string;
+}
+
+/** A theorem callout or an equation. */
+export interface MathBlockInfo extends IndexedObject {
+    $file: string;
+    /** "theorem" or "equation" */
+    $type: string;
+    /** The lines where this block starts and ends (0-based). */
+    $position: LineSpan;
+    $pos: Pos;
+    /** The block ID, e.g. "abc123" for "^abc123". */
+    $blockId?: string;
+    /** The label specified by "%% label: ... %%" (theorems) or "% label: ..." (equations). */
+    $label?: string;
+    /** The display text specified by "%% display: ... %%" or "% display: ...". */
+    $display?: string;
+    /** The name displayed in the note, e.g. "Theorem 1.2 (Cauchy-Schwarz)" or "(3)". null if not numbered (equations). */
+    $printName: string | null;
+    /** The name displayed in links to this block, e.g. "Thm. 1.2" or "(3)". */
+    $refName: string | null;
+}
+
+export interface TheoremCalloutSettingsInfo {
+    /** The ID of the theorem-like environment, e.g. "theorem" */
+    type: string;
+    /** "auto" (automatically numbered), "" (unnumbered), or a fixed number */
+    number: string;
+    title?: string;
+}
+
+export interface TheoremInfo extends MathBlockInfo {
+    $settings: TheoremCalloutSettingsInfo;
+    /** Whether this is the main theorem of the note, to which links to the note refer. */
+    $main: boolean;
+}
+
+export interface EquationInfo extends MathBlockInfo {
+    /** The LaTeX source of this equation. */
+    $mathText: string;
+    /** The content of "\tag{...}" if manually tagged. */
+    $manualTag: string | null;
+    /** The lines of a multi-line equation (e.g. align) numbered one by one, like "(3-1)", "(3-2)". Empty for single-line equations. */
+    $subEquations: SubEquationInfo[];
+}
+
+export interface SubEquationInfo {
+    /** The position among the numbered lines, starting from 0. */
+    $index: number;
+    /** The label specified by "\label{...}" or "% label: ..." on the line. */
+    $label?: string;
+    $printName: string | null;
+    $refName: string | null;
+}
+
+/** A proof delimited by the begin/end markers, e.g. `\begin{proof}` ... `\end{proof}`. */
+export interface ProofInfo extends IndexedObject {
+    $file: string;
+    /** The lines of the beginning and ending markers (0-based). */
+    $position: LineSpan;
+    $pos: Pos;
+    /** The linktext of the theorem being proved, e.g. "note#^block" for `\begin{proof}`@[[note#^block]]. */
+    $linktext?: string;
+    /** The optional title, e.g. "Sketch" for `\begin{proof}[Sketch]`. */
+    $title?: string;
+}
+
+export interface LatexReferencerAPI {
+    /** The version of the API in the semver format, e.g. "1.0.0". */
+    readonly version: string;
+
+    /**
+     * Get the theorem callouts in the document order.
+     * @param path The path of a note or a folder. If a folder is given, the notes in it are searched recursively. If omitted, the entire vault is searched.
+     */
+    getTheorems(path?: string): TheoremInfo[];
+    /**
+     * Get the equations (display math) in the document order.
+     * @param path The path of a note or a folder. If omitted, the entire vault is searched.
+     */
+    getEquations(path?: string): EquationInfo[];
+    /**
+     * Get the theorem callout or the equation that the given linktext (e.g. "note#^block-id") points to.
+     * A link to a note is regarded as a link to its main theorem callout, if any.
+     * A label-based linktext (e.g. "@thm:cauchy-schwarz") is resolved by the label.
+     * @param sourcePath The path of the note containing the link. Used to resolve relative links.
+     */
+    getBlockByLink(linktext: string, sourcePath?: string): TheoremInfo | EquationInfo | null;
+    /** Get the name displayed in the note (e.g. "Theorem 1.2 (Cauchy-Schwarz)") of the given block or the block with the given ID. */
+    getPrintName(block: MathBlockInfo | string): string | null;
+    /** Get the name displayed in links (e.g. "Thm. 1.2") of the given block or the block with the given ID. */
+    getRefName(block: MathBlockInfo | string): string | null;
+    /** Get the notes, sections and blocks that link to the given block or the block with the given ID. */
+    getBacklinks(block: MathBlockInfo | string): IndexedObject[];
+    /** Get the proofs of the given theorem callout or the theorem callout with the given ID. */
+    getProofs(theorem: TheoremInfo | string): ProofInfo[];
+    /** Get the theorem callout proved by the given proof: the one linked by `\begin{proof}`@[[...]], or the preceding one in the same note. */
+    getProvedTheorem(proof: ProofInfo | string): TheoremInfo | null;
+
+    /** Triggered when the metadata of a note (including $printName and $refName) is updated. */
+    on(evt: "index-updated", callback: (file: TFile) => unknown): EventRef;
+    /** Triggered when all the notes in the vault have been indexed after the plugin is loaded. */
+    on(evt: "index-initialized", callback: () => unknown): EventRef;
+    /** Triggered when the local settings of a note or a folder are changed. */
+    on(evt: "local-settings-updated", callback: (file: TAbstractFile) => unknown): EventRef;
+    /** Triggered when the plugin settings are changed. */
+    on(evt: "global-settings-updated", callback: () => unknown): EventRef;
+    /** Unsubscribe from an event using the event name and the original callback. */
+    off(evt: "index-updated", callback: (file: TFile) => unknown): void;
+    off(evt: "index-initialized", callback: () => unknown): void;
+    off(evt: "local-settings-updated", callback: (file: TAbstractFile) => unknown): void;
+    off(evt: "global-settings-updated", callback: () => unknown): void;
+    /** Unsubscribe from an event using the event reference. */
+    offref(ref: EventRef): void;
+}
@@ -0,0 +1,234 @@
+import { Keymap } from 'obsidian';
+
+import LatexReferencer from 'main';
+import { EquationBlock, MathBlock, SubEquation, TheoremCalloutBlock } from 'index/typings/markdown';
+import { CleverefDisplay, Profile } from 'settings/profile';
+import { resolveLinktext } from 'utils/obsidian';
+import { LABEL_LINK_PREFIX, parseLabelLinktext } from 'utils/parse';
+import { capitalize } from 'utils/general';
+import { getLabelRefName } from 'utils/plugin';
+
+
+/** How the environment names are written in a reference. */
+export type ReferenceForm = "capitalized" | "lowercase" | "abbreviation";
+
+/**
+ * `\Cref`@[[link 1]], [[link 2]], ... is rendered as a single reference like "Theorems 1.1 and 1.3".
+ * Like cleveref's `\Cref` and `\cref`, the marker decides the form of the names: "Theorem 3", "theorem 3" or "Thm. 3".
+ */
+export const CLEVEREF_MARKERS: Record<string, ReferenceForm> = {
+    "\\Cref": "capitalized",
+    "\\cref": "lowercase",
+    "\\crefabbr": "abbreviation",
+};
+
+export function getReferenceForm(codeText: string): ReferenceForm | null {
+    return Object.prototype.hasOwnProperty.call(CLEVEREF_MARKERS, codeText) ? CLEVEREF_MARKERS[codeText] : null;
+}
+
+/** A piece of a rendered reference group: either a plain text or a link. */
+export type CleverefPart = string | { text: string, linktext: string, resolved: boolean };
+
+interface CleverefTarget {
+    linktext: string;
+    block: MathBlock | null;
+    /** Set if the link refers to a line of a multi-line equation by its label. */
+    subEquation?: SubEquation;
+}
+
+interface CleverefGroup {
+    /** The singular & plural names of the environment. Null for a target that cannot be numbered, which is displayed on its own. */
+    names: { singular: string, plural: string } | null;
+    targets: CleverefTarget[];
+}
+
+
+/**
+ * Parse the links following the marker, e.g. "@[[link 1]], [[link 2|alias]]".
+ * Returns the linktexts (aliases removed) and the length of the parsed text, or null if the text doesn't start with "@[[...]]".
+ */
+export function parseCleverefLinks(text: string): { linktexts: string[], length: number } | null {
+    const match = text.match(/^@\[\[[^[\]]+\]\](?:\s*,\s*\[\[[^[\]]+\]\])*/);
+    if (!match) return null;
+    const linktexts = [...match[0].matchAll(/\[\[([^[\]]+)\]\]/g)].map((linkMatch) => linkMatch[1].split('|')[0].trim());
+    return { linktexts, length: match[0].length };
+}
+
+/** A link to a note is regarded as a link to its main theorem, if any. A label-based link ([[@label]]) is resolved by the label. */
+export function resolveCleverefTarget(plugin: LatexReferencer, linktext: string, sourcePath: string): MathBlock | null {
+    const label = parseLabelLinktext(linktext);
+    if (label !== null) return plugin.indexManager.index.getBlockByLabel(label);
+
+    const resolved = resolveLinktext(plugin.app, linktext, sourcePath);
+    if (!resolved) return null;
+    const { file, subpathResult } = resolved;
+    const page = plugin.indexManager.index.getMarkdownPage(file.path);
+    if (!page) return null;
+
+    if (subpathResult?.type === 'block') {
+        const block = page.$blocks.get(subpathResult.block.id);
+        return MathBlock.isMathBlock(block) ? block : null;
+    }
+    if (!subpathResult) {
+        for (const block of page.$blocks.values()) {
+            if (TheoremCalloutBlock.isTheoremCalloutBlock(block) && block.$main) return block;
+        }
+    }
+    return null;
+}
+
+/** `\ref{label}` is displayed in the same way as the label-based link [[@label]]. */
+export function formatLabelReference(plugin: LatexReferencer, label: string): CleverefPart {
+    const block = plugin.indexManager.index.getBlockByLabel(label);
+    return { text: getLabelRefName(plugin, label) || `\\ref{${label}}`, linktext: LABEL_LINK_PREFIX + label, resolved: !!block };
+}
+
+/**
+ * Format the given links in the way cleveref's `\cref{a,b,c}` does:
+ * the targets are grouped by the environment and sorted, each group is prefixed by the (pluralized) environment name,
+ * and three or more consecutive numbers are compressed into a range, e.g. "Theorems 1.1–1.3 and Lemma 2.1".
+ */
+export function formatCleverefGroup(plugin: LatexReferencer, linktexts: string[], sourcePath: string, profile: Profile, form: ReferenceForm = "capitalized"): CleverefPart[] {
+    const display = profile.body.cleveref;
+    const groups: CleverefGroup[] = [];
+    const seen = new Set<string>();
+
+    for (const linktext of linktexts) {
+        const block = resolveCleverefTarget(plugin, linktext, sourcePath);
+        const label = parseLabelLinktext(linktext);
+        const subEquation = label !== null ? plugin.indexManager.index.getSubEquationByLabel(label)?.subEquation : undefined;
+        if (block) {
+            const key = subEquation ? `${block.$id}/${subEquation.$index}` : block.$id;
+            if (seen.has(key)) continue;
+            seen.add(key);
+        }
+        const target: CleverefTarget = subEquation ? { linktext, block, subEquation } : { linktext, block };
+        const names = block ? getEnvironmentNames(block, profile, form) : null;
+        const group = names && groups.find((group) => group.names?.singular === names.singular);
+        if (group) group.targets.push(target);
+        else groups.push({ names, targets: [target] });
+    }
+
+    return joinItems(groups.map((group) => formatGroup(group, display)), display);
+}
+
+function getEnvironmentNames(block: MathBlock, profile: Profile, form: ReferenceForm): { singular: string, plural: string } | null {
+    // a manually set display text or an unnumbered block cannot be combined with others
+    if (block.$display || !block.$number) return null;
+    if (TheoremCalloutBlock.isTheoremCalloutBlock(block)) return getTheoremNames(profile, block.$settings.type, form);
+    if (EquationBlock.isEquationBlock(block)) return getEquationNames(profile, form);
+    return null;
+}
+
+/** The singular & plural names of the given theorem-like environment in the given form, e.g. "theorem" & "theorems". */
+export function getTheoremNames(profile: Profile, type: string, form: ReferenceForm): { singular: string, plural: string } {
+    const { body } = profile;
+    const singular = body.theorem[type] || capitalize(type);
+    return applyReferenceForm({ singular, plural: body.theoremPlural[type] || singular, lowercase: body.theoremLowercase[type], abbreviation: body.theoremAbbreviation[type] }, form);
+}
+
+export function getEquationNames(profile: Profile, form: ReferenceForm): { singular: string, plural: string } {
+    const { equation, equationPlural, equationLowercase, equationAbbreviation } = profile.body.cleveref;
+    return applyReferenceForm({ singular: equation, plural: equationPlural || equation, lowercase: equationLowercase, abbreviation: equationAbbreviation }, form);
+}
+
+function applyReferenceForm(names: { singular: string, plural: string, lowercase?: string, abbreviation?: string }, form: ReferenceForm): { singular: string, plural: string } {
+    if (form === "lowercase") {
+        const lowercase = names.lowercase || names.singular;
+        // if the lowercase form is the same as the capitalized one (e.g. in German or Japanese), so is the plural form
+        const plural = lowercase === names.singular ? names.plural : names.plural.charAt(0).toLowerCase() + names.plural.slice(1);
+        return { singular: lowercase, plural };
+    }
+    if (form === "abbreviation") {
+        const abbreviation = names.abbreviation || names.singular;
+        return { singular: abbreviation, plural: abbreviation };
+    }
+    return { singular: names.singular, plural: names.plural };
+}
+
+function formatGroup(group: CleverefGroup, display: CleverefDisplay): CleverefPart[] {
+    if (!group.names) {
+        const { linktext, block, subEquation } = group.targets[0];
+        const text = subEquation ? subEquation.$refName : block?.$display || block?.$refName;
+        return [{ text: text || linktext, linktext, resolved: !!block }];
+    }
+
+    const targets = group.targets.sort((a, b) => compareBlocks(a.block!, b.block!) || (a.subEquation?.$index ?? -1) - (b.subEquation?.$index ?? -1));
+    const items: CleverefPart[][] = [];
+    for (let i = 0; i < targets.length;) {
+        let j = i + 1;
+        while (j < targets.length && isConsecutiveTarget(targets[j - 1], targets[j])) j++;
+        if (j - i >= 3) {
+            items.push([toLinkPart(targets[i]), display.rangeConjunction, toLinkPart(targets[j - 1])]);
+        } else {
+            for (let k = i; k < j; k++) items.push([toLinkPart(targets[k])]);
+        }
+        i = j;
+    }
+
+    const name = targets.length > 1 ? group.names.plural : group.names.singular;
+    return [name ? name + ' ' : '', ...joinItems(items, display)];
+}
+
+function toLinkPart(target: CleverefTarget): CleverefPart {
+    return { text: target.subEquation?.$printName ?? target.block!.$number, linktext: target.linktext, resolved: true };
+}
+
+/** "A", "A and B", "A, B, and C" */
+function joinItems(items: CleverefPart[][], display: CleverefDisplay): CleverefPart[] {
+    if (items.length == 2) return [...items[0], display.pairConjunction, ...items[1]];
+    return items.flatMap((item, index) => {
+        if (index == 0) return item;
+        return [index == items.length - 1 ? display.lastConjunction : display.middleConjunction, ...item];
+    });
+}
+
+function compareBlocks(a: MathBlock, b: MathBlock): number {
+    return a.$file.localeCompare(b.$file, undefined, { numeric: true }) || a.$position.start - b.$position.start;
+}
+
+/** Whether the number of `b` comes right after that of `a`, e.g. (3-1) and (3-2) for lines of a multi-line equation. */
+function isConsecutiveTarget(a: CleverefTarget, b: CleverefTarget): boolean {
+    if (!a.subEquation && !b.subEquation) return isConsecutive(a.block!, b.block!);
+    return a.block === b.block && !!a.subEquation && !!b.subEquation
+        && b.subEquation.$index === a.subEquation.$index + 1 && a.subEquation.$printName !== b.subEquation.$printName;
+}
+
+/** Whether the number of `b` comes right after that of `a`. */
+function isConsecutive(a: MathBlock, b: MathBlock): boolean {
+    if (a.$file !== b.$file || a.$section !== b.$section || a.$index === undefined || b.$index !== a.$index + 1) return false;
+    if (TheoremCalloutBlock.isTheoremCalloutBlock(a) && TheoremCalloutBlock.isTheoremCalloutBlock(b)) {
+        return a.$settings.type === b.$settings.type && a.$settings.number == 'auto' && b.$settings.number == 'auto';
+    }
+    if (EquationBlock.isEquationBlock(a) && EquationBlock.isEquationBlock(b)) {
+        return !a.$manualTag && !b.$manualTag;
+    }
+    return false;
+}
+
+export function renderCleverefGroup(plugin: LatexReferencer, parts: CleverefPart[], sourcePath: string): HTMLElement {
+    const el = createSpan({ cls: "math-booster-cleveref" });
+    for (const part of parts) {
+        if (typeof part === "string") {
+            el.appendText(part);
+            continue;
+        }
+        const linkEl = el.createEl("a", { text: part.text, cls: "math-booster-cleveref-link" });
+        if (!part.resolved) linkEl.addClass("is-unresolved");
+        linkEl.addEventListener("click", (event) => {
+            event.preventDefault();
+            plugin.app.workspace.openLinkText(part.linktext, sourcePath, Keymap.isModEvent(event));
+        });
+        linkEl.addEventListener("mouseover", (event) => {
+            plugin.app.workspace.trigger("hover-link", {
+                event,
+                source: "preview",
+                hoverParent: el,
+                targetEl: linkEl,
+                linktext: part.linktext,
+                sourcePath,
+            });
+        });
+    }
+    return el;
+}
@@ -0,0 +1,136 @@
+import { Component, debounce, editorInfoField } from 'obsidian';
+import { Range, StateEffect } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, PluginValue, ViewPlugin, ViewUpdate, WidgetType } from '@codemirror/view';
+import { syntaxTree } from '@codemirror/language';
+
+import LatexReferencer from 'main';
+import { nodeText, rangesHaveOverlap } from 'utils/editor';
+import { resolveSettings } from 'utils/plugin';
+import { INLINE_CODE } from 'proof/live-preview';
+import { LABEL_REFERENCE_PATTERN } from 'utils/parse';
+import { CleverefPart, formatCleverefGroup, formatLabelReference, getReferenceForm, parseCleverefLinks, renderCleverefGroup } from './common';
+
+
+class CleverefWidget extends WidgetType {
+    constructor(public plugin: LatexReferencer, public parts: CleverefPart[], public sourcePath: string) {
+        super();
+    }
+
+    eq(other: CleverefWidget): boolean {
+        return this.sourcePath == other.sourcePath && JSON.stringify(this.parts) === JSON.stringify(other.parts);
+    }
+
+    toDOM(): HTMLElement {
+        return renderCleverefGroup(this.plugin, this.parts, this.sourcePath);
+    }
+
+    ignoreEvent(event: Event): boolean {
+        // the DOM element won't respond to clicks without this
+        return false;
+    }
+}
+
+
+/** Rebuild the widgets since the referenced blocks might have been renumbered or renamed. */
+const forceUpdateEffect = StateEffect.define<null>();
+
+export const createCleverefDecoration = (plugin: LatexReferencer) => ViewPlugin.fromClass(
+    class implements PluginValue {
+        decorations: DecorationSet;
+        /** Holds the index event listener while this editor is open. */
+        component: Component;
+
+        constructor(view: EditorView) {
+            this.decorations = this.makeDeco(view);
+            this.component = new Component();
+            this.component.load();
+
+            // the index is updated once per note (e.g. for every note on startup), so the updates are handled together
+            const requestUpdate = debounce(() => view.dispatch({ effects: forceUpdateEffect.of(null) }), 500, true);
+            this.component.register(() => requestUpdate.cancel());
+            this.component.registerEvent(plugin.indexManager.on("index-updated", () => requestUpdate()));
+        }
+
+        destroy() {
+            this.component.unload();
+        }
+
+        update(update: ViewUpdate) {
+            const forced = update.transactions.some(tr => tr.effects.some(effect => effect.is(forceUpdateEffect)));
+            if (forced || update.docChanged || update.viewportChanged || update.selectionSet) {
+                if (update.view.composing) {
+                    this.decorations = this.decorations.map(update.changes); // User is using IME
+                } else {
+                    this.decorations = this.makeDeco(update.view);
+                }
+            }
+        }
+
+        makeDeco(view: EditorView): DecorationSet {
+            const { state } = view;
+            const tree = syntaxTree(state);
+            const ranges = state.selection.ranges;
+
+            const file = state.field(editorInfoField).file;
+            const sourcePath = file?.path ?? "";
+            const settings = resolveSettings(undefined, plugin, file ?? plugin.app.vault.getRoot());
+            const profile = plugin.extraSettings.profiles[settings.profile];
+
+            const decorations: Range<Decoration>[] = [];
+
+            for (const { from, to } of view.visibleRanges) {
+                tree.iterate({
+                    from, to,
+                    enter(node) {
+                        if (node.name !== INLINE_CODE) return;
+                        const form = getReferenceForm(nodeText(node, state));
+                        if (!form) return;
+
+                        // "`\Cref`@[[link 1]], [[link 2]], ..."
+                        const afterCode = node.to + 1; // 1 = "`".length
+                        const parsed = parseCleverefLinks(state.sliceDoc(afterCode, state.doc.lineAt(afterCode).to));
+                        if (!parsed) return;
+
+                        const start = node.from - 1;
+                        const end = afterCode + parsed.length;
+                        if (rangesHaveOverlap(ranges, start, end)) return;
+
+                        const parts = formatCleverefGroup(plugin, parsed.linktexts, sourcePath, profile, form);
+                        decorations.push(Decoration.replace({ widget: new CleverefWidget(plugin, parts, sourcePath) }).range(start, end));
+                    }
+                });
+            }
+
+            // a marker as the alias of a link, e.g. [[link|\cref]]
+            const groups = decorations.slice();
+            for (const { from, to } of view.visibleRanges) {
+                for (const match of state.sliceDoc(from, to).matchAll(/(?<!!)\[\[([^[\]|]+)\|(\\[A-Za-z]+)\]\]/g)) {
+                    const form = getReferenceForm(match[2]);
+                    if (!form) continue;
+                    const start = from + match.index!;
+                    const end = start + match[0].length;
+                    if (rangesHaveOverlap(ranges, start, end) || groups.some((group) => group.from <= start && end <= group.to)) continue;
+
+                    const parts = formatCleverefGroup(plugin, [match[1].trim()], sourcePath, profile, form);
+                    decorations.push(Decoration.replace({ widget: new CleverefWidget(plugin, parts, sourcePath) }).range(start, end));
+                }
+            }
+
+            // \ref{label} outside code & math
+            for (const { from, to } of view.visibleRanges) {
+                for (const match of state.sliceDoc(from, to).matchAll(LABEL_REFERENCE_PATTERN)) {
+                    const start = from + match.index!;
+                    const end = start + match[0].length;
+                    if (tree.resolveInner(start, 1).name.match(/code|math/)) continue;
+                    if (rangesHaveOverlap(ranges, start, end) || groups.some((group) => group.from <= start && end <= group.to)) continue;
+
+                    const parts = [formatLabelReference(plugin, match[1].trim())];
+                    decorations.push(Decoration.replace({ widget: new CleverefWidget(plugin, parts, sourcePath) }).range(start, end));
+                }
+            }
+
+            return Decoration.set(decorations, true);
+        }
+    }, {
+    decorations: instance => instance.decorations
+});
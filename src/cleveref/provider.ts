@@ -5,6 +5,8 @@ import * as MathLinks from 'obsidian-mathlinks';
 import LatexReferencer from 'main';
 import { MathIndex } from 'index/math-index';
 import { MarkdownPage, MathBlock, TheoremCalloutBlock } from 'index/typings/markdown';
+import { parseLabelLinktext } from 'utils/parse';
+import { getLabelRefName } from 'utils/plugin';
 
 
 export class CleverefProvider extends MathLinks.Provider {
@@ -23,6 +25,13 @@ export class CleverefProvider extends MathLinks.Provider {
         targetSubpathResult: HeadingSubpathResult | BlockSubpathResult | null,
     ): string | null {
         const { path, subpath } = parsedLinktext;
+
+        // label-based links, e.g. [[@thm:cauchy-schwarz]]: the target is found by the label, not by the path
+        const label = subpath ? null : parseLabelLinktext(path);
+        if (label !== null) {
+            return getLabelRefName(this.plugin, label);
+        }
+
         if (targetFile === null) return null;
         const page = this.index.load(targetFile.path);
         if (!MarkdownPage.isMarkdownPage(page)) return null
@@ -0,0 +1,189 @@
+import { MarkdownPostProcessorContext, MarkdownRenderChild, TFile, debounce } from 'obsidian';
+
+import LatexReferencer from 'main';
+import { resolveSettings } from 'utils/plugin';
+import { LABEL_LINK_PREFIX, LABEL_REFERENCE_PATTERN } from 'utils/parse';
+import { ReferenceForm, formatCleverefGroup, formatLabelReference, getReferenceForm, renderCleverefGroup, resolveCleverefTarget } from './common';
+
+
+export const createCleverefProcessor = (plugin: LatexReferencer) => (element: HTMLElement, context: MarkdownPostProcessorContext) => {
+    const file = plugin.app.vault.getAbstractFileByPath(context.sourcePath);
+    if (!(file instanceof TFile)) return;
+
+    for (const code of element.querySelectorAll<HTMLElement>("code")) {
+        const form = getReferenceForm(code.textContent ?? "");
+        if (!form) continue;
+        const parsed = parseLinkNodes(code);
+        if (parsed) context.addChild(new CleverefRenderer(plugin, code, file, form, parsed.linktexts, parsed.nodes));
+    }
+
+    // a marker as the alias of a link, e.g. [[link|\cref]]
+    for (const link of element.querySelectorAll<HTMLElement>("a.internal-link")) {
+        const form = getReferenceForm(link.textContent ?? "");
+        const linktext = link.getAttribute("data-href");
+        if (form && linktext) context.addChild(new CleverefAliasRenderer(plugin, link, file, form, linktext));
+    }
+
+    // \ref{label} in a text
+    for (const textNode of findLabelReferenceNodes(element)) {
+        const fragment = new DocumentFragment();
+        let last = 0;
+        for (const match of textNode.data.matchAll(LABEL_REFERENCE_PATTERN)) {
+            fragment.append(textNode.data.slice(last, match.index));
+            const placeholder = fragment.createSpan();
+            context.addChild(new LabelReferenceRenderer(plugin, placeholder, file, match[1].trim()));
+            last = match.index! + match[0].length;
+        }
+        fragment.append(textNode.data.slice(last));
+        textNode.replaceWith(fragment);
+    }
+};
+
+
+/** Text nodes containing `\ref{...}`, excluding those in code, math and links. */
+function findLabelReferenceNodes(element: HTMLElement): Text[] {
+    const nodes: Text[] = [];
+    const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        if (!(node instanceof Text) || !node.data.includes("\\ref{")) continue;
+        if (node.parentElement?.closest("code, pre, .math, a")) continue;
+        if (node.data.match(LABEL_REFERENCE_PATTERN)) nodes.push(node);
+    }
+    return nodes;
+}
+
+
+/**
+ * Find the links following a marker and "@", i.e. "@", <a>, ", ", <a>, ...
+ * Each link might be accompanied by the one inserted by MathLinks (a.mathLink-internal-link).
+ */
+function parseLinkNodes(codeEl: HTMLElement): { linktexts: string[], nodes: ChildNode[] } | null {
+    const atSign = codeEl.nextSibling;
+    if (atSign?.nodeType !== Node.TEXT_NODE || atSign.textContent !== "@") return null;
+
+    const linktexts: string[] = [];
+    const nodes: ChildNode[] = [atSign];
+    let node: ChildNode | null = atSign.nextSibling;
+
+    while (node instanceof HTMLElement && node.matches("a.internal-link") && !node.matches("a.mathLink-internal-link")) {
+        linktexts.push(node.getAttribute("data-href") ?? node.textContent ?? "");
+        nodes.push(node);
+        node = node.nextSibling;
+        if (node instanceof HTMLElement && node.matches("a.mathLink-internal-link")) {
+            nodes.push(node);
+            node = node.nextSibling;
+        }
+        // continue only if the separator is followed by another link
+        const next = node?.nextSibling;
+        if (node?.nodeType === Node.TEXT_NODE && node.textContent?.match(/^\s*,\s*$/) && next instanceof HTMLElement && next.matches("a.internal-link")) {
+            nodes.push(node);
+            node = next;
+        } else {
+            break;
+        }
+    }
+
+    return linktexts.length ? { linktexts, nodes } : null;
+}
+
+
+/** 
+ * Base class of the renderers of references. A reference is re-rendered only when the notes containing its targets
+ * (before or after the update) are re-indexed, or when the settings are changed.
+ */
+abstract class ReferenceRenderer extends MarkdownRenderChild {
+    /** The paths of the notes containing the referenced blocks, as of the last rendering. */
+    targetPaths: Set<string> = new Set();
+    requestRender = debounce(() => this.render(), 500, true);
+
+    constructor(public plugin: LatexReferencer, containerEl: HTMLElement, public file: TFile) {
+        super(containerEl);
+    }
+
+    /** The linktexts of the referenced blocks, including label-based ones like "@label". */
+    abstract getLinktexts(): string[];
+
+    abstract update(): void;
+
+    onload(): void {
+        this.render();
+        this.registerEvent(this.plugin.indexManager.on("index-updated", (file) => {
+            // a target might have been moved to or from the updated note
+            if (this.targetPaths.has(file.path) || this.getTargetPaths().has(file.path)) this.requestRender();
+        }));
+        this.registerEvent(this.plugin.indexManager.on("local-settings-updated", () => this.requestRender()));
+        this.registerEvent(this.plugin.indexManager.on("global-settings-updated", () => this.requestRender()));
+    }
+
+    render() {
+        this.update();
+        this.targetPaths = this.getTargetPaths();
+    }
+
+    getTargetPaths(): Set<string> {
+        const paths = new Set<string>();
+        for (const linktext of this.getLinktexts()) {
+            const block = resolveCleverefTarget(this.plugin, linktext, this.file.path);
+            if (block) paths.add(block.$file);
+        }
+        return paths;
+    }
+}
+
+
+export class CleverefRenderer extends ReferenceRenderer {
+    constructor(plugin: LatexReferencer, containerEl: HTMLElement, file: TFile, public form: ReferenceForm, public linktexts: string[], nodes: ChildNode[]) {
+        super(plugin, containerEl, file);
+        nodes.forEach((node) => node.remove());
+    }
+
+    getLinktexts(): string[] {
+        return this.linktexts;
+    }
+
+    update(): void {
+        const settings = resolveSettings(undefined, this.plugin, this.file);
+        const profile = this.plugin.extraSettings.profiles[settings.profile];
+        const parts = formatCleverefGroup(this.plugin, this.linktexts, this.file.path, profile, this.form);
+        const newEl = renderCleverefGroup(this.plugin, parts, this.file.path);
+        this.containerEl.replaceWith(newEl);
+        this.containerEl = newEl;
+    }
+}
+
+
+/** Replaces the alias of a link like [[link|\cref]] with the reference text, keeping the link itself. */
+export class CleverefAliasRenderer extends ReferenceRenderer {
+    constructor(plugin: LatexReferencer, containerEl: HTMLElement, file: TFile, public form: ReferenceForm, public linktext: string) {
+        super(plugin, containerEl, file);
+    }
+
+    getLinktexts(): string[] {
+        return [this.linktext];
+    }
+
+    update(): void {
+        const settings = resolveSettings(undefined, this.plugin, this.file);
+        const profile = this.plugin.extraSettings.profiles[settings.profile];
+        const parts = formatCleverefGroup(this.plugin, [this.linktext], this.file.path, profile, this.form);
+        this.containerEl.setText(parts.map((part) => typeof part === "string" ? part : part.text).join(""));
+    }
+}
+
+
+/** Renders `\ref{label}` as a link to the labeled theorem or equation. */
+export class LabelReferenceRenderer extends ReferenceRenderer {
+    constructor(plugin: LatexReferencer, containerEl: HTMLElement, file: TFile, public label: string) {
+        super(plugin, containerEl, file);
+    }
+
+    getLinktexts(): string[] {
+        return [LABEL_LINK_PREFIX + this.label];
+    }
+
+    update(): void {
+        const newEl = renderCleverefGroup(this.plugin, [formatLabelReference(this.plugin, this.label)], this.file.path);
+        this.containerEl.replaceWith(newEl);
+        this.containerEl = newEl;
+    }
+}
@@ -0,0 +1,198 @@
+import { Component, Pos, TFile, debounce, parseLinktext, resolveSubpath } from 'obsidian';
+
+import LatexReferencer from 'main';
+import { MathIndex, getLabels } from 'index/math-index';
+import { EquationBlock, MarkdownPage, MathBlock } from 'index/typings/markdown';
+import { parseLabelLinktext } from 'utils/parse';
+
+
+export type MathDiagnosticType = "broken-link" | "unnumbered-equation" | "duplicate-label" | "tag-conflict";
+
+/** A problem found in a note, e.g. a link to a block that no longer exists. */
+export interface MathDiagnostic {
+    type: MathDiagnosticType;
+    severity: "error" | "warning";
+    /** The path of the note where the problem is found. */
+    file: string;
+    position: Pos;
+    message: string;
+}
+
+
+/** The theorems & equations having each label, built from the whole index at once and cached until the index changes. */
+interface LabelMap {
+    /** The index revision this map was built at. */
+    revision: number;
+    /** Maps each label to the blocks having it, in the order of the paths & the positions. */
+    blocks: Map<string, MathBlock[]>;
+    /** Maps each note to the labels defined in it. */
+    labelsByFile: Map<string, Set<string>>;
+}
+
+const labelMaps = new WeakMap<MathIndex, LabelMap>();
+
+function getLabelMap(plugin: LatexReferencer): LabelMap {
+    const { index } = plugin.indexManager;
+    const cached = labelMaps.get(index);
+    if (cached?.revision === index.revision) return cached;
+
+    const map: LabelMap = { revision: index.revision, blocks: new Map(), labelsByFile: new Map() };
+    for (const block of index.load([...index.getByType('block-math-booster')])) {
+        if (!MathBlock.isMathBlock(block)) continue;
+        for (const label of new Set(getLabels(block))) {
+            if (!map.blocks.has(label)) map.blocks.set(label, []);
+            map.blocks.get(label)!.push(block);
+            if (!map.labelsByFile.has(block.$file)) map.labelsByFile.set(block.$file, new Set());
+            map.labelsByFile.get(block.$file)!.add(label);
+        }
+    }
+    for (const blocks of map.blocks.values()) {
+        blocks.sort((a, b) => a.$file.localeCompare(b.$file, undefined, { numeric: true }) || a.$position.start - b.$position.start);
+    }
+    labelMaps.set(index, map);
+    return map;
+}
+
+/**
+ * Call the callback with the paths of the notes whose diagnostics might have been changed by the recent index updates:
+ * the updated notes, the notes linking to them, and the notes using or sharing the labels defined (or removed) in them.
+ * The index is updated once per note (e.g. for every note on startup), so the updates are collected and handled together.
+ */
+export function onDiagnosticsAffected(plugin: LatexReferencer, component: Component, callback: (paths: Set<string>) => void) {
+    const changed = new Set<string>();
+    const labels = new Set<string>();
+
+    const flush = debounce(() => {
+        const paths = new Set(changed);
+        const { app, indexManager: { index } } = plugin;
+
+        // e.g. [[note#^block-id]], which becomes broken if the block ID is removed
+        for (const [source, targets] of Object.entries(app.metadataCache.resolvedLinks)) {
+            if (Object.keys(targets).some((target) => changed.has(target))) paths.add(source);
+        }
+
+        const labelMap = getLabelMap(plugin);
+        for (const path of changed) labelMap.labelsByFile.get(path)?.forEach((label) => labels.add(label));
+        for (const label of labels) {
+            for (const object of index.load([...index.getLabelBacklinks(label)])) paths.add(object.$file ?? object.$id);
+            // a duplicate label is reported for every block having it
+            for (const block of labelMap.blocks.get(label) ?? []) paths.add(block.$file);
+        }
+
+        changed.clear();
+        labels.clear();
+        callback(paths);
+    }, 1000, true);
+    component.register(() => flush.cancel());
+
+    component.registerEvent(plugin.indexManager.on('index-updated', (file) => {
+        changed.add(file.path);
+        // the labels the note had before this update, since the references to a removed label get broken
+        labelMaps.get(plugin.indexManager.index)?.labelsByFile.get(file.path)?.forEach((label) => labels.add(label));
+        flush();
+    }));
+}
+
+
+/** Check all the markdown notes in the vault, sorted by the path. */
+export function lintVault(plugin: LatexReferencer): MathDiagnostic[] {
+    return plugin.app.vault.getMarkdownFiles()
+        .sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }))
+        .flatMap((file) => lintFile(plugin, file));
+}
+
+/** Check the given note. */
+export function lintFile(plugin: LatexReferencer, file: TFile): MathDiagnostic[] {
+    const page = plugin.indexManager.index.getMarkdownPage(file.path);
+    return [
+        ...lintLinks(plugin, file),
+        ...(page ? lintLabels(plugin, page) : []),
+        ...(page ? lintTags(page) : []),
+    ].sort((a, b) => a.position.start.offset - b.position.start.offset);
+}
+
+/** Links to blocks (`[[note#^id]]`) that don't exist, and links to equations that are not numbered. */
+function lintLinks(plugin: LatexReferencer, file: TFile): MathDiagnostic[] {
+    const { app, indexManager: { index } } = plugin;
+    const cache = app.metadataCache.getFileCache(file);
+    const labelMap = getLabelMap(plugin);
+    const diagnostics: MathDiagnostic[] = [];
+
+    const check = (link: string, position: Pos, embed: boolean) => {
+        const { path, subpath } = parseLinktext(link);
+
+        // label-based links, e.g. [[@thm:cauchy-schwarz]]
+        const label = subpath ? null : parseLabelLinktext(path);
+        if (label !== null) {
+            const block = labelMap.blocks.get(label)?.[0];
+            if (!block) diagnostics.push({ type: "broken-link", severity: "error", file: file.path, position, message: `Label "${label}" not found` });
+            else if (!embed && EquationBlock.isEquationBlock(block) && block.$printName === null) {
+                diagnostics.push({ type: "unnumbered-equation", severity: "warning", file: file.path, position, message: `Refers to an unnumbered equation in "${getBasename(block.$file)}"` });
+            }
+            return;
+        }
+
+        if (!subpath.startsWith("#^")) return;
+
+        const targetFile = path ? app.metadataCache.getFirstLinkpathDest(path, file.path) : file;
+        if (!targetFile) {
+            diagnostics.push({ type: "broken-link", severity: "error", file: file.path, position, message: `Note "${path}" not found` });
+            return;
+        }
+        const targetCache = app.metadataCache.getFileCache(targetFile);
+        const result = targetCache && resolveSubpath(targetCache, subpath);
+        if (result?.type !== "block") {
+            diagnostics.push({ type: "broken-link", severity: "error", file: file.path, position, message: `Block "${subpath.slice(1)}" not found in "${targetFile.basename}"` });
+            return;
+        }
+        // embedding an unnumbered equation is fine, but referring to it is not
+        const block = index.getMarkdownPage(targetFile.path)?.$blocks.get(result.block.id);
+        if (!embed && EquationBlock.isEquationBlock(block) && block.$printName === null) {
+            diagnostics.push({ type: "unnumbered-equation", severity: "warning", file: file.path, position, message: `Refers to an unnumbered equation in "${targetFile.basename}"` });
+        }
+    };
+
+    for (const link of cache?.links ?? []) check(link.link, link.position, false);
+    for (const embed of cache?.embeds ?? []) check(embed.link, embed.position, true);
+    return diagnostics;
+}
+
+/** Theorems & equations in the given note whose labels are shared with other blocks. */
+function lintLabels(plugin: LatexReferencer, page: MarkdownPage): MathDiagnostic[] {
+    const labelMap = getLabelMap(plugin);
+    const diagnostics: MathDiagnostic[] = [];
+    for (const block of getMathBlocks(page)) {
+        const labels = getLabels(block);
+        for (const label of new Set(labels)) {
+            const others = (labelMap.blocks.get(label) ?? []).filter((other) => other.$id !== block.$id);
+            const where = others.map((other) => `line ${other.$pos.start.line + 1} of "${getBasename(other.$file)}"`);
+            // e.g. two lines of the same align sharing a label
+            if (labels.filter((other) => other === label).length > 1) where.unshift("another line of this equation");
+            if (!where.length) continue;
+            diagnostics.push({ type: "duplicate-label", severity: "error", file: page.$path, position: block.$pos, message: `Label "${label}" is also used at ${where.join(", ")}` });
+        }
+    }
+    return diagnostics;
+}
+
+/** Manual tags (`\tag{...}`) that clash with the number of another equation in the same note. */
+function lintTags(page: MarkdownPage): MathDiagnostic[] {
+    const equations = getMathBlocks(page).filter((block): block is EquationBlock => EquationBlock.isEquationBlock(block) && block.$printName !== null);
+    const diagnostics: MathDiagnostic[] = [];
+    for (const equation of equations) {
+        if (!equation.$manualTag) continue;
+        const others = equations.filter((other) => other !== equation && other.$printName === equation.$printName);
+        if (!others.length) continue;
+        const where = others.map((other) => `line ${other.$pos.start.line + 1}`).join(", ");
+        diagnostics.push({ type: "tag-conflict", severity: "warning", file: page.$path, position: equation.$pos, message: `\\tag{${equation.$manualTag}} clashes with the number of the equation at ${where}` });
+    }
+    return diagnostics;
+}
+
+function getMathBlocks(page: MarkdownPage): MathBlock[] {
+    return page.$sections.flatMap((section) => section.$blocks).filter((block): block is MathBlock => MathBlock.isMathBlock(block));
+}
+
+function getBasename(path: string): string {
+    return path.split("/").pop()!.replace(/\.md$/, "");
+}
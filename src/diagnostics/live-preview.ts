@@ -0,0 +1,97 @@
+/**
+ * Underline the problems found by the diagnostics in the editor, and show the messages on hover.
+ */
+
+import { StateEffect } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, PluginValue, ViewPlugin, ViewUpdate, hoverTooltip } from '@codemirror/view';
+import { Component, editorInfoField } from 'obsidian';
+
+import LatexReferencer from 'main';
+import { MathDiagnostic, lintFile, onDiagnosticsAffected } from 'diagnostics/common';
+
+
+export function createDiagnosticsPlugin(plugin: LatexReferencer) {
+
+    const forceUpdateEffect = StateEffect.define<null>();
+
+    const viewPlugin = ViewPlugin.fromClass(class implements PluginValue {
+        decorations: DecorationSet;
+        /** Holds the index event listener while this editor is open. */
+        component: Component;
+
+        constructor(view: EditorView) {
+            this.decorations = this.makeDeco(view);
+            this.component = new Component();
+            this.component.load();
+
+            // a change in one note (e.g. removing a block ID) can affect the diagnostics of other notes
+            onDiagnosticsAffected(plugin, this.component, (paths) => {
+                const file = view.state.field(editorInfoField).file;
+                if (file && paths.has(file.path)) view.dispatch({ effects: forceUpdateEffect.of(null) });
+            });
+        }
+
+        destroy() {
+            this.component.unload();
+        }
+
+        update(update: ViewUpdate) {
+            if (update.transactions.some(tr => tr.effects.some(effect => effect.is(forceUpdateEffect)))) {
+                this.decorations = this.makeDeco(update.view);
+            } else if (update.docChanged) {
+                // the positions in the index are updated only after the note is saved
+                this.decorations = this.decorations.map(update.changes);
+            }
+        }
+
+        makeDeco(view: EditorView): DecorationSet {
+            const file = view.state.field(editorInfoField).file;
+            if (!file) return Decoration.none;
+
+            const { doc } = view.state;
+            const decorations = [];
+            for (const diagnostic of lintFile(plugin, file)) {
+                const from = Math.min(diagnostic.position.start.offset, doc.length);
+                // underline only the first line of a block, not the entire theorem callout
+                const to = Math.min(diagnostic.position.end.offset, doc.lineAt(from).to);
+                if (from >= to) continue;
+                decorations.push(Decoration.mark({
+                    class: `math-booster-diagnostic math-booster-diagnostic-${diagnostic.severity}`,
+                    diagnostic,
+                }).range(from, to));
+            }
+            return Decoration.set(decorations, true);
+        }
+    }, {
+        decorations: instance => instance.decorations
+    });
+
+    const tooltip = hoverTooltip((view, pos) => {
+        const decorations = view.plugin(viewPlugin)?.decorations;
+        if (!decorations) return null;
+
+        const diagnostics: MathDiagnostic[] = [];
+        let start = pos, end = pos;
+        decorations.between(pos, pos, (from, to, value) => {
+            diagnostics.push(value.spec.diagnostic);
+            start = Math.min(start, from);
+            end = Math.max(end, to);
+        });
+        if (!diagnostics.length) return null;
+
+        return {
+            pos: start,
+            end,
+            above: true,
+            create() {
+                const dom = createDiv({ cls: "math-booster-diagnostic-tooltip" });
+                for (const diagnostic of diagnostics) {
+                    dom.createDiv({ text: diagnostic.message, cls: `math-booster-diagnostic-tooltip-${diagnostic.severity}` });
+                }
+                return { dom };
+            }
+        };
+    });
+
+    return [viewPlugin, tooltip];
+}
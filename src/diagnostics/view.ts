@@ -0,0 +1,133 @@
+import { ExtraButtonComponent, ItemView, TFile, WorkspaceLeaf, debounce, setIcon } from 'obsidian';
+
+import LatexReferencer from 'main';
+import { MathDiagnostic, lintFile, lintVault, onDiagnosticsAffected } from 'diagnostics/common';
+import { openFileAndSelectPosition } from 'utils/obsidian';
+
+
+export const MATH_DIAGNOSTICS_VIEW_TYPE = "math-booster-diagnostics";
+
+
+/**
+ * Lists the problems with theorem & equation references in the vault, grouped by notes:
+ * broken block links, links to unnumbered equations, duplicate labels, and manual tags clashing with automatic numbers.
+ */
+export class MathDiagnosticsView extends ItemView {
+    headerEl: HTMLElement;
+    listEl: HTMLElement;
+    /** The diagnostics of each note, so that only the notes affected by a change need to be checked again. */
+    diagnostics: Map<string, MathDiagnostic[]> = new Map();
+    requestUpdate = debounce(() => this.update(), 1000, true);
+
+    constructor(leaf: WorkspaceLeaf, public plugin: LatexReferencer) {
+        super(leaf);
+    }
+
+    getViewType(): string {
+        return MATH_DIAGNOSTICS_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return "Reference diagnostics";
+    }
+
+    getIcon(): string {
+        return "alert-triangle";
+    }
+
+    async onOpen() {
+        this.contentEl.empty();
+        this.contentEl.addClass("math-booster-diagnostics");
+        this.headerEl = this.contentEl.createDiv({ cls: "math-booster-diagnostics-header" });
+        this.listEl = this.contentEl.createDiv({ cls: "math-booster-diagnostics-list" });
+
+        // a link in one note can be broken by a change in another note
+        onDiagnosticsAffected(this.plugin, this, (paths) => this.updateFiles(paths));
+        this.registerEvent(this.plugin.indexManager.on("index-initialized", () => this.update()));
+        this.registerEvent(this.plugin.indexManager.on("global-settings-updated", () => this.requestUpdate()));
+        this.registerEvent(this.plugin.indexManager.on("local-settings-updated", () => this.requestUpdate()));
+
+        this.update();
+    }
+
+    async onClose() {
+        this.contentEl.empty();
+    }
+
+    /** Check the entire vault. */
+    update() {
+        this.diagnostics.clear();
+        for (const diagnostic of lintVault(this.plugin)) {
+            if (!this.diagnostics.has(diagnostic.file)) this.diagnostics.set(diagnostic.file, []);
+            this.diagnostics.get(diagnostic.file)!.push(diagnostic);
+        }
+        this.render();
+    }
+
+    /** Check only the given notes. */
+    updateFiles(paths: Set<string>) {
+        for (const path of paths) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            const diagnostics = file instanceof TFile && file.extension === "md" ? lintFile(this.plugin, file) : [];
+            if (diagnostics.length) this.diagnostics.set(path, diagnostics);
+            else this.diagnostics.delete(path);
+        }
+        this.render();
+    }
+
+    render() {
+        const byFile = [...this.diagnostics].sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }));
+        const diagnostics = byFile.flatMap(([, diagnosticsInFile]) => diagnosticsInFile);
+        this.renderHeader(diagnostics);
+        this.listEl.empty();
+
+        if (!diagnostics.length) {
+            this.listEl.createDiv({ text: "No problems found.", cls: "pane-empty" });
+            return;
+        }
+
+        for (const [path, diagnosticsInFile] of byFile) {
+            const groupEl = this.listEl.createDiv({ cls: "math-booster-diagnostics-group" });
+            groupEl.createDiv({ text: path.replace(/\.md$/, ""), cls: "math-booster-diagnostics-group-header" });
+            for (const diagnostic of diagnosticsInFile) this.renderDiagnostic(groupEl, diagnostic);
+        }
+    }
+
+    renderHeader(diagnostics: MathDiagnostic[]) {
+        this.headerEl.empty();
+        const errors = diagnostics.filter((diagnostic) => diagnostic.severity === "error").length;
+        const warnings = diagnostics.length - errors;
+        this.headerEl.createDiv({
+            text: `${errors} error${errors === 1 ? "" : "s"}, ${warnings} warning${warnings === 1 ? "" : "s"}`,
+            cls: "math-booster-diagnostics-summary"
+        });
+        new ExtraButtonComponent(this.headerEl)
+            .setIcon("refresh-cw")
+            .setTooltip("Check again")
+            .onClick(() => this.update());
+    }
+
+    renderDiagnostic(containerEl: HTMLElement, diagnostic: MathDiagnostic) {
+        const itemEl = containerEl.createDiv({ cls: ["math-booster-diagnostics-item", `math-booster-diagnostics-${diagnostic.severity}`, "tree-item-self", "is-clickable"] });
+        setIcon(itemEl.createDiv({ cls: "math-booster-diagnostics-icon" }), diagnostic.severity === "error" ? "x-circle" : "alert-triangle");
+        itemEl.createDiv({ text: diagnostic.message, cls: "math-booster-diagnostics-message" });
+        itemEl.createDiv({ text: `Line ${diagnostic.position.start.line + 1}`, cls: "math-booster-diagnostics-line" });
+
+        itemEl.addEventListener("click", () => {
+            const file = this.app.vault.getAbstractFileByPath(diagnostic.file);
+            if (file instanceof TFile) openFileAndSelectPosition(this.app, file, diagnostic.position, false);
+        });
+    }
+}
+
+
+/** Reveal the diagnostics view in the right sidebar, creating one if necessary. */
+export async function activateMathDiagnosticsView(plugin: LatexReferencer) {
+    const { workspace } = plugin.app;
+    let leaf = workspace.getLeavesOfType(MATH_DIAGNOSTICS_VIEW_TYPE)[0];
+    if (!leaf) {
+        leaf = workspace.getRightLeaf(false)!;
+        await leaf.setViewState({ type: MATH_DIAGNOSTICS_VIEW_TYPE, active: true });
+    }
+    workspace.revealLeaf(leaf);
+}
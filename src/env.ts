@@ -1,4 +1,4 @@
-// length must be >= 5
+// built-in theorem-like environments; users can add their own from the plugin settings
 export const THEOREM_LIKE_ENV_IDs = [
     "axiom",
     "definition",
@@ -20,9 +20,17 @@ export const PROOF_LIKE_ENV_IDs = [
     "solution",
 ] as const;
 
+/** The built-in theorem-like environments whose statements are supposed to be proved. Used to list unproved theorems. */
+export const PROVABLE_ENV_IDs: readonly string[] = [
+    "lemma",
+    "proposition",
+    "theorem",
+    "corollary",
+    "claim",
+];
+
 export const ENV_IDs = [...THEOREM_LIKE_ENV_IDs, ...PROOF_LIKE_ENV_IDs,] as const;
 
-// length must be <= 4
 export const THEOREM_LIKE_ENV_PREFIXES = [
     "axm",
     "def",
@@ -41,23 +49,54 @@ export const THEOREM_LIKE_ENV_PREFIXES = [
 
 export type TheoremLikeEnvID = typeof THEOREM_LIKE_ENV_IDs[number];
 export type TheoremLikeEnvPrefix = typeof THEOREM_LIKE_ENV_PREFIXES[number];
+export type ProofLikeEnvID = typeof PROOF_LIKE_ENV_IDs[number];
+
+/** Whether the given callout type is a proof-like environment, i.e. > [!proof] or > [!solution] */
+export function isProofLikeEnvID(type: string): type is ProofLikeEnvID {
+    return (PROOF_LIKE_ENV_IDs as readonly string[]).includes(type.toLowerCase());
+}
 
 export interface TheoremLikeEnv {
-    id: TheoremLikeEnvID,
-    prefix: TheoremLikeEnvPrefix,
+    /** e.g. "theorem". Used as the callout type: > [!theorem] */
+    id: string,
+    /** e.g. "thm". Can be used as the callout type as well: > [!thm] */
+    prefix: string,
+    /** Additional CSS class(es) added to theorem callouts of this type, separated by spaces. */
+    cssClass?: string,
 }
 
-export const THEOREM_LIKE_ENVs = {} as Record<TheoremLikeEnvID, TheoremLikeEnv>;
-THEOREM_LIKE_ENV_IDs.forEach((id, index) => {
-    THEOREM_LIKE_ENVs[id] = {id, prefix: THEOREM_LIKE_ENV_PREFIXES[index]};
+export const DEFAULT_THEOREM_LIKE_ENVs: TheoremLikeEnv[] = THEOREM_LIKE_ENV_IDs.map((id, index) => {
+    return { id, prefix: THEOREM_LIKE_ENV_PREFIXES[index] };
 });
 
-export const THEOREM_LIKE_ENV_PREFIX_ID_MAP = {} as Record<TheoremLikeEnvPrefix, TheoremLikeEnvID>;
-THEOREM_LIKE_ENV_PREFIXES.forEach((prefix, index) => {
-    THEOREM_LIKE_ENV_PREFIX_ID_MAP[prefix] = THEOREM_LIKE_ENV_IDs[index];
-});
+/** IDs and prefixes must not contain characters that have a special meaning inside "> [!...]". */
+export const THEOREM_LIKE_ENV_ID_PATTERN = /^[a-z][a-z0-9\-_]*$/;
 
-export const THEOREM_LIKE_ENV_ID_PREFIX_MAP = {} as Record<TheoremLikeEnvID, TheoremLikeEnvPrefix>;
-THEOREM_LIKE_ENV_IDs.forEach((id, index) => {
-    THEOREM_LIKE_ENV_ID_PREFIX_MAP[id] = THEOREM_LIKE_ENV_PREFIXES[index];
-});
+/** Find the environment whose ID or prefix is the given callout type (e.g. "theorem" or "thm"). */
+export function findTheoremLikeEnv(envs: TheoremLikeEnv[], type: string): TheoremLikeEnv | undefined {
+    type = type.toLowerCase();
+    return envs.find((env) => env.id === type) ?? envs.find((env) => env.prefix === type);
+}
+
+/** Convert a callout type (an ID or a prefix) to the corresponding environment ID, e.g. "thm" -> "theorem". */
+export function toTheoremLikeEnvID(envs: TheoremLikeEnv[], type: string): string | undefined {
+    return findTheoremLikeEnv(envs, type)?.id;
+}
+
+/** Return an error message if the given environment cannot be added to `envs`, or null if it is valid. */
+export function validateTheoremLikeEnv(envs: TheoremLikeEnv[], env: TheoremLikeEnv): string | null {
+    for (const [key, value] of [["ID", env.id], ["Prefix", env.prefix]]) {
+        if (!value.match(THEOREM_LIKE_ENV_ID_PATTERN)) {
+            return `${key} "${value}" is invalid. Only lower-case alphabets, digits, hyphens or underscores are allowed, and it must start with an alphabet.`;
+        }
+        if (value === 'math') return `"math" is reserved for the legacy theorem callout format.`;
+        if (isProofLikeEnvID(value)) return `"${value}" is reserved for proof callouts.`;
+    }
+    for (const other of envs) {
+        if (other === env) continue;
+        if ([other.id, other.prefix].includes(env.id) || [other.id, other.prefix].includes(env.prefix)) {
+            return `Environment "${env.id}" conflicts with the existing environment "${other.id}".`;
+        }
+    }
+    return null;
+}
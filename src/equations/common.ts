@@ -1,7 +1,8 @@
 import { EquationBlock } from "index/typings/markdown";
 import { finishRenderMath, renderMath } from "obsidian";
 import { MathContextSettings } from "settings/settings";
-import { parseLatexComment } from "utils/parse";
+import { CONVERTER } from "utils/format";
+import { NUMBERED_ENVS, isLineByLineEnvironment, parseMathEnvironment, splitIntoMathRows } from "utils/parse";
 
 
 
@@ -27,42 +28,38 @@ export function getMathTextWithTag(equation: EquationBlock, lineByLine?: boolean
         const tagResult = equation.$printName.match(/^\((.*)\)$/);
         if (tagResult) {
             const tagContent = tagResult[1];
-            return insertTagInMathText(equation.$mathText, tagContent, lineByLine);
+            // `% subequations` on a multi-line equation: its lines are numbered as (3a), (3b), ...
+            const subequations = equation.$subequationGroup === equation.$ordinal && equation.$subEquations.length > 0;
+            return insertTagInMathText(equation.$mathText, tagContent, lineByLine, subequations);
         }
     }
     return equation.$mathText;
 }
 
-export function insertTagInMathText(text: string, tagContent: string, lineByLine?: boolean): string {
-    if (!lineByLine) return text + `\\tag{${tagContent}}`;
+/** 
+ * Add `\tag{tagContent}` to the math text. If the text is a multi-line environment like align or gather 
+ * and `lineByLine` is on, each line gets its own tag: `tagContent-1`, `tagContent-2`, ...
+ * If `subequations` is on, the lines are tagged as `tagContenta`, `tagContentb`, ... regardless of `lineByLine`.
+ */
+export function insertTagInMathText(text: string, tagContent: string, lineByLine?: boolean, subequations?: boolean): string {
+    const env = parseMathEnvironment(text);
+    // e.g. \begin{split} ... \end{split} is not numbered by itself, so the tag goes outside
+    if (!env || !NUMBERED_ENVS.includes(env.name)) return text + `\\tag{${tagContent}}`;
 
-    const alignResult = text.match(/^\s*\\begin\{align\}([\s\S]*)\\end\{align\}\s*$/);
-    if (!alignResult) return text + `\\tag{${tagContent}}`;
+    const rows = splitIntoMathRows(env.body);
+    const numberedRows = rows.filter((row) => row.numbered);
 
-    const envStack: string[] = [];
-
-    // remove comments
-    let alignContent = alignResult[1]
-        .split('\n')
-        .map(line => parseLatexComment(line).nonComment)
-        .join('\n');
-    // add tags
-    let index = 1;
-    alignContent = alignContent
-        .split("\\\\")
-        .map((alignLine) => {
-            const pattern = /\\(?<which>begin|end)\{(?<env>.*?)\}/g;
-            let result;
-            while (result = pattern.exec(alignLine)) {
-                const { which, env } = result.groups!;
-                if (which === 'begin') envStack.push(env);
-                else if (envStack.last() === env) envStack.pop();
-            }
-            if (envStack.length || !alignLine.trim() || alignLine.contains("\\nonumber")) return alignLine;
-            return alignLine + `\\tag{${tagContent}-${index++}}`;
-        }).join("\\\\");
-
-    if (index <= 2) return text + `\\tag{${tagContent}}`;
+    if (subequations && isLineByLineEnvironment(env) && numberedRows.length > 1) {
+        numberedRows.forEach((row, index) => row.text += `\\tag{${tagContent}${CONVERTER.alph(index + 1)}}`);
+    } else if (lineByLine && isLineByLineEnvironment(env) && numberedRows.length > 1) {
+        numberedRows.forEach((row, index) => row.text += `\\tag{${tagContent}-${index + 1}}`);
+    } else {
+        // a single number, put on the last line like LaTeX does
+        const row = numberedRows.last() ?? rows.filter((row) => row.text.trim()).last();
+        if (!row) return text + `\\tag{${tagContent}}`;
+        row.text += `\\tag{${tagContent}}`;
+    }
 
-    return "\\begin{align}" + alignContent + "\\end{align}";
+    // labels are managed by this plugin, and MathJax complains when it sees the same \label twice
+    return env.begin + rows.map((row) => row.text.replace(/\\label\{[^{}]*\}/g, "")).join("\\\\") + env.end;
 }
@@ -10,8 +10,11 @@ export abstract class FileIO {
     abstract setLine(lineNumber: number, text: string): Promise<void>;
     abstract setRange(position: Pos, text: string): Promise<void>;
     abstract insertLine(lineNumber: number, text: string): Promise<void>;
+    /** Delete the lines from `start` to `end` (inclusive). */
+    abstract deleteLines(start: number, end: number): Promise<void>;
     abstract getLine(lineNumber: number): Promise<string>;
     abstract getRange(position: Pos): Promise<string>;
+    abstract getText(): Promise<string>;
 }
 
 
@@ -40,6 +43,17 @@ export class ActiveNoteIO extends FileIO {
         this.editor.replaceRange(text + "\n", { line: lineNumber, ch: 0 });
     }
 
+    async deleteLines(start: number, end: number): Promise<void> {
+        if (end + 1 < this.editor.lineCount()) {
+            this.editor.replaceRange("", { line: start, ch: 0 }, { line: end + 1, ch: 0 });
+        } else if (start > 0) {
+            // the last line: remove the preceding line break instead
+            this.editor.replaceRange("", { line: start - 1, ch: this.editor.getLine(start - 1).length }, { line: end, ch: this.editor.getLine(end).length });
+        } else {
+            this.editor.setValue("");
+        }
+    }
+
     async getLine(lineNumber: number): Promise<string> {
         return this.editor.getLine(lineNumber);
     }
@@ -50,6 +64,10 @@ export class ActiveNoteIO extends FileIO {
         const text = this.editor.getRange(from, to);
         return text;
     }
+
+    async getText(): Promise<string> {
+        return this.editor.getValue();
+    }
 }
 
 
@@ -65,7 +83,8 @@ export class NonActiveNoteIO extends FileIO {
     }
 
     async setLine(lineNumber: number, text: string): Promise<void> {
-        this.plugin.app.vault.process(this.file, (data: string): string => {
+        // await so that successive edits don't overwrite each other
+        await this.plugin.app.vault.process(this.file, (data: string): string => {
             const lines = splitIntoLines(data);
             lines[lineNumber] = text;
             return lines.join('\n');
@@ -73,19 +92,27 @@ export class NonActiveNoteIO extends FileIO {
     }
 
     async setRange(position: Pos, text: string): Promise<void> {
-        this.plugin.app.vault.process(this.file, (data: string): string => {
+        await this.plugin.app.vault.process(this.file, (data: string): string => {
             return data.slice(0, position.start.offset) + text + data.slice(position.end.offset + 1, data.length);
         })
     }
 
     async insertLine(lineNumber: number, text: string): Promise<void> {
-        this.plugin.app.vault.process(this.file, (data: string): string => {
+        await this.plugin.app.vault.process(this.file, (data: string): string => {
             const lines = splitIntoLines(data);
             insertAt(lines, text, lineNumber);
             return lines.join('\n');
         })
     }
 
+    async deleteLines(start: number, end: number): Promise<void> {
+        await this.plugin.app.vault.process(this.file, (data: string): string => {
+            const lines = splitIntoLines(data);
+            lines.splice(start, end - start + 1);
+            return lines.join('\n');
+        })
+    }
+
     async getLine(lineNumber: number): Promise<string> {
         const data = await this.plugin.app.vault.cachedRead(this.file);
         const lines = splitIntoLines(data);
@@ -96,6 +123,10 @@ export class NonActiveNoteIO extends FileIO {
         const content = await this.plugin.app.vault.cachedRead(this.file);
         return content.slice(position.start.offset, position.end.offset);
     }
+
+    async getText(): Promise<string> {
+        return await this.plugin.app.vault.cachedRead(this.file);
+    }
 }
 
 
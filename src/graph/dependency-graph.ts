@@ -0,0 +1,237 @@
+import { TFile } from 'obsidian';
+
+import LatexReferencer from 'main';
+import { Link } from 'index/expression/link';
+import { MarkdownPage, TheoremCalloutBlock } from 'index/typings/markdown';
+import { formatTheoremCalloutType } from 'utils/format';
+import { parseLabelLinktext } from 'utils/parse';
+import { resolveSettings } from 'utils/plugin';
+
+
+export interface DependencyNode {
+    /** The $id of the theorem callout. */
+    id: string;
+    block: TheoremCalloutBlock;
+    /** The displayed name, e.g. "Theorem 1.2 (Main theorem)" */
+    name: string;
+}
+
+
+/**
+ * A directed graph whose nodes are theorem callouts. An edge A -> B means "A uses B",
+ * i.e. B is linked from the inside of A or from the inside of a proof of A.
+ */
+export class TheoremDependencyGraph {
+    nodes: Map<string, DependencyNode> = new Map();
+    /** Maps a node ID to the IDs of the nodes it uses. */
+    edges: Map<string, Set<string>> = new Map();
+
+    constructor(public plugin: LatexReferencer) { }
+
+    /** Build a graph from the theorem callouts in the given notes. Links to theorems in other notes are followed as well. */
+    static async build(plugin: LatexReferencer, files: TFile[]): Promise<TheoremDependencyGraph> {
+        const graph = new TheoremDependencyGraph(plugin);
+        for (const file of files) await graph.addFile(file);
+        return graph;
+    }
+
+    async addFile(file: TFile) {
+        const { indexManager } = this.plugin;
+        const page = indexManager.index.getMarkdownPage(file.path);
+        if (!page) return;
+
+        const theorems = getTheoremCallouts(page);
+        for (const theorem of theorems) {
+            this.addNode(theorem);
+            for (const link of theorem.$links) {
+                const target = this.resolveLink(link);
+                if (target) this.addEdge(theorem, target);
+            }
+        }
+
+        // proofs: `\begin{proof}`@[[...]] belongs to the linked theorem, and `\begin{proof}` to the preceding theorem in the same note
+        for (const proof of page.$proofs) {
+            const owner = indexManager.index.getProvedTheorem(proof);
+            if (!owner) continue;
+            this.addNode(owner);
+
+            for (const link of proof.$links) {
+                const target = this.resolveLink(link);
+                if (target && target !== owner) this.addEdge(owner, target);
+            }
+        }
+    }
+
+    addNode(block: TheoremCalloutBlock) {
+        if (this.nodes.has(block.$id)) return;
+        this.nodes.set(block.$id, { id: block.$id, block, name: this.getName(block) });
+        this.edges.set(block.$id, new Set());
+    }
+
+    addEdge(from: TheoremCalloutBlock, to: TheoremCalloutBlock) {
+        this.addNode(from);
+        this.addNode(to);
+        this.edges.get(from.$id)!.add(to.$id);
+    }
+
+    getName(block: TheoremCalloutBlock): string {
+        if (block.$printName) return block.$printName;
+        const file = this.plugin.app.vault.getAbstractFileByPath(block.$file);
+        if (!(file instanceof TFile)) return block.$settings.type;
+        return formatTheoremCalloutType(this.plugin, resolveSettings(block.$settings, this.plugin, file));
+    }
+
+    /** A link to a note is regarded as a link to its main theorem, if any. A label-based link ([[@label]]) is resolved by the label. */
+    resolveLink(link: Link): TheoremCalloutBlock | null {
+        const label = link.type === 'file' ? parseLabelLinktext(link.path) : null;
+        if (label !== null) {
+            const block = this.plugin.indexManager.index.getBlockByLabel(label) ?? undefined;
+            return TheoremCalloutBlock.isTheoremCalloutBlock(block) ? block : null;
+        }
+
+        const page = this.plugin.indexManager.index.getMarkdownPage(link.path);
+        if (!page) return null;
+        if (link.type === 'block' && link.subpath) {
+            const block = page.$blocks.get(link.subpath);
+            return TheoremCalloutBlock.isTheoremCalloutBlock(block) ? block : null;
+        }
+        if (link.type === 'file') return getTheoremCallouts(page).find((theorem) => theorem.$main) ?? null;
+        return null;
+    }
+
+    /** The IDs of all the nodes that the given node uses directly or indirectly. */
+    getDependencies(id: string): Set<string> {
+        const visited = new Set<string>();
+        const stack = [id];
+        while (stack.length) {
+            for (const next of this.edges.get(stack.pop()!) ?? []) {
+                if (!visited.has(next)) {
+                    visited.add(next);
+                    stack.push(next);
+                }
+            }
+        }
+        visited.delete(id);
+        return visited;
+    }
+
+    /** The strongly connected components in the reverse topological order (i.e. dependencies first), computed by Tarjan's algorithm. */
+    getStronglyConnectedComponents(): string[][] {
+        const indices = new Map<string, number>();
+        const lowlinks = new Map<string, number>();
+        const onStack = new Set<string>();
+        const stack: string[] = [];
+        const components: string[][] = [];
+        let index = 0;
+
+        const visit = (id: string) => {
+            indices.set(id, index);
+            lowlinks.set(id, index);
+            index++;
+            stack.push(id);
+            onStack.add(id);
+
+            for (const next of this.edges.get(id) ?? []) {
+                if (!indices.has(next)) {
+                    visit(next);
+                    lowlinks.set(id, Math.min(lowlinks.get(id)!, lowlinks.get(next)!));
+                } else if (onStack.has(next)) {
+                    lowlinks.set(id, Math.min(lowlinks.get(id)!, indices.get(next)!));
+                }
+            }
+
+            if (lowlinks.get(id) === indices.get(id)) {
+                const component: string[] = [];
+                let member: string;
+                do {
+                    member = stack.pop()!;
+                    onStack.delete(member);
+                    component.push(member);
+                } while (member !== id);
+                components.push(component);
+            }
+        };
+
+        for (const id of this.nodes.keys()) {
+            if (!indices.has(id)) visit(id);
+        }
+        return components;
+    }
+
+    /** Circular dependencies, each of which is given as a set of node IDs. */
+    getCycles(): string[][] {
+        return this.getStronglyConnectedComponents()
+            .filter((component) => component.length > 1 || this.edges.get(component[0])?.has(component[0]));
+    }
+
+    toJSON(): string {
+        return JSON.stringify({
+            nodes: [...this.nodes.values()].map((node) => ({
+                id: node.id,
+                name: node.name,
+                type: node.block.$settings.type,
+                file: node.block.$file,
+                line: node.block.$position.start,
+                blockId: node.block.$blockId ?? null,
+                label: node.block.$label ?? null,
+            })),
+            edges: this.getEdgeList().map(([source, target]) => ({ source, target })),
+            cycles: this.getCycles(),
+        }, null, 4);
+    }
+
+    toDOT(): string {
+        const lines = ['digraph dependencies {', '    rankdir=BT;', '    node [shape=box];'];
+        const cyclic = new Set(this.getCycles().flat());
+        for (const node of this.nodes.values()) {
+            lines.push(`    ${quoteDOT(node.id)} [label=${quoteDOT(node.name)}` + (cyclic.has(node.id) ? ', color=red' : '') + '];');
+        }
+        for (const [source, target] of this.getEdgeList()) {
+            lines.push(`    ${quoteDOT(source)} -> ${quoteDOT(target)};`);
+        }
+        lines.push('}', '');
+        return lines.join('\n');
+    }
+
+    toGraphML(): string {
+        const lines = [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+            '    <key id="name" for="node" attr.name="name" attr.type="string"/>',
+            '    <key id="type" for="node" attr.name="type" attr.type="string"/>',
+            '    <key id="file" for="node" attr.name="file" attr.type="string"/>',
+            '    <graph id="dependencies" edgedefault="directed">',
+        ];
+        for (const node of this.nodes.values()) {
+            lines.push(
+                `        <node id="${escapeXML(node.id)}">`,
+                `            <data key="name">${escapeXML(node.name)}</data>`,
+                `            <data key="type">${escapeXML(node.block.$settings.type)}</data>`,
+                `            <data key="file">${escapeXML(node.block.$file)}</data>`,
+                '        </node>',
+            );
+        }
+        for (const [source, target] of this.getEdgeList()) {
+            lines.push(`        <edge source="${escapeXML(source)}" target="${escapeXML(target)}"/>`);
+        }
+        lines.push('    </graph>', '</graphml>', '');
+        return lines.join('\n');
+    }
+
+    getEdgeList(): [string, string][] {
+        return [...this.edges].flatMap(([source, targets]) => [...targets].map((target): [string, string] => [source, target]));
+    }
+}
+
+
+export function getTheoremCallouts(page: MarkdownPage): TheoremCalloutBlock[] {
+    return page.$sections.flatMap((section) => section.$blocks.filter(TheoremCalloutBlock.isTheoremCalloutBlock));
+}
+
+function quoteDOT(text: string): string {
+    return '"' + text.replace(/\\/g, '\\\\').replace(/"/g, '\\"') + '"';
+}
+
+function escapeXML(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
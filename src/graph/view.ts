@@ -0,0 +1,297 @@
+import { DropdownComponent, ExtraButtonComponent, ItemView, Menu, Notice, TFile, TFolder, ViewStateResult, WorkspaceLeaf, debounce, finishRenderMath, normalizePath } from 'obsidian';
+
+import LatexReferencer from 'main';
+import { TheoremDependencyGraph } from 'graph/dependency-graph';
+import { openFileAndSelectPosition } from 'utils/obsidian';
+import { renderTextWithMath } from 'utils/render';
+
+
+export const DEPENDENCY_GRAPH_VIEW_TYPE = "math-booster-dependency-graph";
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 40;
+const H_GAP = 40;
+const V_GAP = 60;
+
+type GraphScope = "folder" | "vault";
+
+interface GraphState {
+    scope: GraphScope;
+    /** Whether to show theorems that neither use nor are used by any other theorems. */
+    showIsolated: boolean;
+}
+
+
+/**
+ * Shows the "uses" relations between theorem callouts as a layered graph: each theorem is placed below the ones it uses.
+ * Circular dependencies are highlighted, and clicking a theorem highlights its transitive dependencies.
+ */
+export class DependencyGraphView extends ItemView {
+    state: GraphState = { scope: "vault", showIsolated: false };
+    /** The folder shown in the folder scope. Kept when a non-markdown view gets focused. */
+    folder: TFolder | null = null;
+    graph: TheoremDependencyGraph | null = null;
+    selected: string | null = null;
+    headerEl: HTMLElement;
+    graphEl: HTMLElement;
+    /** Whether the index has been updated while the view was hidden, so that the graph needs rebuilding once it's shown. */
+    stale = false;
+    requestUpdate = debounce(() => this.updateIfShown(), 1000, true);
+
+    constructor(leaf: WorkspaceLeaf, public plugin: LatexReferencer) {
+        super(leaf);
+    }
+
+    getViewType(): string {
+        return DEPENDENCY_GRAPH_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return "Theorem dependencies";
+    }
+
+    getIcon(): string {
+        return "git-fork";
+    }
+
+    async onOpen() {
+        this.contentEl.empty();
+        this.contentEl.addClass("math-booster-dependency-graph");
+        this.headerEl = this.contentEl.createDiv({ cls: "math-booster-dependency-graph-header" });
+        this.graphEl = this.contentEl.createDiv({ cls: "math-booster-dependency-graph-container" });
+
+        this.registerEvent(this.app.workspace.on("active-leaf-change", () => {
+            const folder = this.app.workspace.getActiveFile()?.parent ?? null;
+            if (folder && folder !== this.folder) {
+                this.folder = folder;
+                if (this.state.scope === "folder") this.stale = true;
+            }
+            if (this.stale) this.updateIfShown();
+        }));
+        this.registerEvent(this.app.workspace.on("layout-change", () => {
+            if (this.stale) this.updateIfShown();
+        }));
+        this.registerEvent(this.plugin.indexManager.on("index-updated", () => this.requestUpdate()));
+        this.registerEvent(this.plugin.indexManager.on("index-initialized", () => this.updateIfShown()));
+
+        this.folder = this.app.workspace.getActiveFile()?.parent ?? null;
+        this.renderHeader();
+        await this.update();
+    }
+
+    async onClose() {
+        this.contentEl.empty();
+    }
+
+    getState(): Record<string, unknown> {
+        return { ...this.state };
+    }
+
+    async setState(state: Partial<GraphState>, result: ViewStateResult) {
+        if (state.scope === "folder" || state.scope === "vault") this.state.scope = state.scope;
+        if (typeof state.showIsolated === "boolean") this.state.showIsolated = state.showIsolated;
+        if (this.headerEl) {
+            this.renderHeader();
+            await this.update();
+        }
+        await super.setState(state, result);
+    }
+
+    renderHeader() {
+        this.headerEl.empty();
+
+        new DropdownComponent(this.headerEl)
+            .addOption("folder", "Active folder")
+            .addOption("vault", "Entire vault")
+            .setValue(this.state.scope)
+            .onChange((value: GraphScope) => {
+                this.state.scope = value;
+                this.update();
+            });
+
+        new ExtraButtonComponent(this.headerEl)
+            .setIcon(this.state.showIsolated ? "eye" : "eye-off")
+            .setTooltip(this.state.showIsolated ? "Hide theorems without dependencies" : "Show theorems without dependencies")
+            .onClick(() => {
+                this.state.showIsolated = !this.state.showIsolated;
+                this.renderHeader();
+                this.render();
+            });
+
+        const exportButton = new ExtraButtonComponent(this.headerEl)
+            .setIcon("download")
+            .setTooltip("Export");
+        exportButton.extraSettingsEl.addEventListener("click", (evt) => {
+            const menu = new Menu();
+            for (const format of ["dot", "graphml", "json"] as const) {
+                menu.addItem((item) => {
+                    item.setTitle(`Export as ${format === "dot" ? "DOT" : format === "graphml" ? "GraphML" : "JSON"}`)
+                        .onClick(() => {
+                            this.export(format).catch((err) => {
+                                console.error(err);
+                                new Notice(`${this.plugin.manifest.name}: Failed to export the dependency graph. ${err instanceof Error ? err.message : err}`, 5000);
+                            });
+                        });
+                });
+            }
+            menu.showAtMouseEvent(evt);
+        });
+    }
+
+    getFiles(): TFile[] {
+        if (this.state.scope === "folder") {
+            return this.folder?.children.filter((child): child is TFile => child instanceof TFile && child.extension === "md") ?? [];
+        }
+        return this.app.vault.getMarkdownFiles();
+    }
+
+    /** Rebuild the graph if the view is visible; otherwise, postpone it until the view gets shown. */
+    updateIfShown() {
+        if (!this.containerEl.isShown()) {
+            this.stale = true;
+            return;
+        }
+        this.stale = false;
+        this.update();
+    }
+
+    async update() {
+        this.graph = await TheoremDependencyGraph.build(this.plugin, this.getFiles());
+        if (this.selected && !this.graph.nodes.has(this.selected)) this.selected = null;
+        this.render();
+    }
+
+    render() {
+        this.graphEl.empty();
+        const graph = this.graph;
+        if (!graph) return;
+
+        // nodes in a cycle are placed in the same layer
+        const components = graph.getStronglyConnectedComponents();
+        const cyclic = new Set(graph.getCycles().flat());
+        const componentOf = new Map<string, number>();
+        components.forEach((component, index) => component.forEach((id) => componentOf.set(id, index)));
+
+        const used = new Set(graph.getEdgeList().flat());
+        const visible = [...graph.nodes.keys()].filter((id) => this.state.showIsolated || used.has(id) || id === this.selected);
+        if (!visible.length) {
+            this.graphEl.createDiv({ text: "No dependencies between theorems found.", cls: "pane-empty" });
+            return;
+        }
+
+        // longest-path layering: components are in the reverse topological order, so dependencies come first
+        const componentLayers: number[] = [];
+        components.forEach((component, index) => {
+            let layer = 0;
+            for (const id of component) {
+                for (const next of graph.edges.get(id) ?? []) {
+                    const other = componentOf.get(next)!;
+                    if (other !== index) layer = Math.max(layer, componentLayers[other] + 1);
+                }
+            }
+            componentLayers[index] = layer;
+        });
+
+        const layers: string[][] = [];
+        for (const id of visible) {
+            const layer = componentLayers[componentOf.get(id)!];
+            (layers[layer] ??= []).push(id);
+        }
+        const positions = new Map<string, { x: number, y: number }>();
+        let maxWidth = 0;
+        layers.filter((layer) => layer).forEach((layer, layerIndex) => {
+            layer.sort((a, b) => {
+                const blockA = graph.nodes.get(a)!.block;
+                const blockB = graph.nodes.get(b)!.block;
+                return blockA.$file.localeCompare(blockB.$file, undefined, { numeric: true }) || blockA.$position.start - blockB.$position.start;
+            });
+            layer.forEach((id, index) => positions.set(id, { x: index * (NODE_WIDTH + H_GAP) + H_GAP / 2, y: layerIndex * (NODE_HEIGHT + V_GAP) + V_GAP / 2 }));
+            maxWidth = Math.max(maxWidth, layer.length);
+        });
+
+        const dependencies = this.selected ? graph.getDependencies(this.selected) : null;
+
+        const svg = document.createElementNS(SVG_NS, "svg");
+        const width = maxWidth * (NODE_WIDTH + H_GAP);
+        const height = layers.filter((layer) => layer).length * (NODE_HEIGHT + V_GAP);
+        svg.setAttribute("width", String(width));
+        svg.setAttribute("height", String(height));
+        svg.setAttribute("viewBox", `0 0 ${width} ${height}`);
+        svg.classList.add("math-booster-dependency-graph-svg");
+        if (this.selected) svg.classList.add("has-selection");
+        const marker = svg.createSvg("defs").createSvg("marker", {
+            attr: { id: "math-booster-arrow", viewBox: "0 0 10 10", refX: 10, refY: 5, markerWidth: 8, markerHeight: 8, orient: "auto-start-reverse" }
+        });
+        marker.createSvg("path", { attr: { d: "M 0 0 L 10 5 L 0 10 z" } });
+
+        // edges: from the user (below) to the used (above)
+        for (const [source, target] of graph.getEdgeList()) {
+            const from = positions.get(source);
+            const to = positions.get(target);
+            if (!from || !to) continue;
+            const line = svg.createSvg("line", { cls: "math-booster-dependency-edge" });
+            line.setAttribute("x1", String(from.x + NODE_WIDTH / 2));
+            line.setAttribute("y1", String(from.y));
+            line.setAttribute("x2", String(to.x + NODE_WIDTH / 2));
+            line.setAttribute("y2", String(source === target ? to.y : to.y + NODE_HEIGHT));
+            line.setAttribute("marker-end", "url(#math-booster-arrow)");
+            if (componentOf.get(source) === componentOf.get(target) && cyclic.has(source)) line.classList.add("is-cycle");
+            if (dependencies && (source === this.selected || dependencies.has(source)) && dependencies.has(target)) line.classList.add("is-dependency");
+        }
+
+        for (const id of visible) {
+            const node = graph.nodes.get(id)!;
+            const { x, y } = positions.get(id)!;
+            const nodeEl = svg.createSvg("foreignObject", { cls: "math-booster-dependency-node-container" });
+            nodeEl.setAttribute("x", String(x));
+            nodeEl.setAttribute("y", String(y));
+            nodeEl.setAttribute("width", String(NODE_WIDTH));
+            nodeEl.setAttribute("height", String(NODE_HEIGHT));
+
+            const boxEl = nodeEl.createDiv({ cls: ["math-booster-dependency-node", `math-booster-dependency-node-${node.block.$settings.type}`] });
+            boxEl.replaceChildren(...renderTextWithMath(node.name));
+            boxEl.setAttribute("aria-label", `${node.block.$file}, line ${node.block.$position.start + 1}\nClick to show dependencies, double-click to open`);
+            if (cyclic.has(id)) boxEl.addClass("is-cycle");
+            if (id === this.selected) boxEl.addClass("is-selected");
+            if (dependencies?.has(id)) boxEl.addClass("is-dependency");
+
+            boxEl.addEventListener("click", () => {
+                this.selected = this.selected === id ? null : id;
+                this.render();
+            });
+            boxEl.addEventListener("dblclick", () => {
+                const file = this.app.vault.getAbstractFileByPath(node.block.$file);
+                if (file instanceof TFile) openFileAndSelectPosition(this.app, file, node.block.$pos, false);
+            });
+        }
+
+        this.graphEl.appendChild(svg);
+        finishRenderMath();
+    }
+
+    async export(format: "dot" | "graphml" | "json") {
+        if (!this.graph) return;
+        const content = format === "dot" ? this.graph.toDOT() : format === "graphml" ? this.graph.toGraphML() : this.graph.toJSON();
+        const folder = this.state.scope === "folder" ? this.folder?.path ?? "" : "";
+        const path = normalizePath(`${folder}/theorem-dependencies.${format}`);
+
+        const { vault } = this.app;
+        const existing = vault.getAbstractFileByPath(path);
+        if (existing instanceof TFile) await vault.modify(existing, content);
+        else await vault.create(path, content);
+        new Notice(`${this.plugin.manifest.name}: Exported the dependency graph to ${path}`);
+    }
+}
+
+
+/** Open the dependency graph in a new tab, or reveal the existing one. */
+export async function activateDependencyGraphView(plugin: LatexReferencer) {
+    const { workspace } = plugin.app;
+    let leaf = workspace.getLeavesOfType(DEPENDENCY_GRAPH_VIEW_TYPE)[0];
+    if (!leaf) {
+        leaf = workspace.getLeaf("tab");
+        await leaf.setViewState({ type: DEPENDENCY_GRAPH_VIEW_TYPE, active: true });
+    }
+    workspace.revealLeaf(leaf);
+}
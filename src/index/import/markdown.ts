@@ -1,6 +1,6 @@
 import { Link } from "index/expression/link";
 import { getFileTitle } from "index/utils/normalizers";
-import { CachedMetadata, SectionCache } from "obsidian";
+import { CachedMetadata, Loc, SectionCache } from "obsidian";
 import BTree from "sorted-btree";
 import {
     JsonMarkdownBlock,
@@ -8,10 +8,12 @@ import {
     JsonMarkdownSection,
     JsonTheoremCalloutBlock,
     JsonEquationBlock,
+    JsonProofBlock,
 } from "index/typings/json";
 import { MinimalTheoremCalloutSettings } from "settings/settings";
-import { parseMarkdownComment, parseYamlLike, readTheoremCalloutSettings, trimMathText } from "utils/parse";
-import { parseLatexComment } from "utils/parse";
+import { LABEL_LINK_PREFIX, ProofCalloutHeader, findProofRanges, getCalloutBodyText, parseLabelReferences, parseProofCalloutHeader, parseMarkdownComment, parseYamlLike, readTheoremCalloutSettings, trimMathText } from "utils/parse";
+import { getLineByLineRows, parseLatexComment } from "utils/parse";
+import { TheoremLikeEnv } from "env";
 
 
 /**
@@ -22,7 +24,10 @@ export function markdownImport(
     path: string,
     markdown: string,
     metadata: CachedMetadata,
-    excludeExample: boolean
+    theoremLikeEnvs: TheoremLikeEnv[],
+    excludeExample: boolean,
+    proofMarkers: { beginProof: string, endProof: string },
+    theoremBodyIndexLength: number
 ): JsonMarkdownPage {
     // Total length of the file.
     const lines = markdown.split("\n");
@@ -75,6 +80,10 @@ export function markdownImport(
     // have actual metadata will be stored to save on memory pressure.
     const blocks = new BTree<number, JsonMarkdownBlock>(undefined, (a, b) => a - b);
     let blockOrdinal = 1;
+    // `% subequations` groups an equation with the equations right after it (only separated by blank lines)
+    let subequationGroup: { first: number, end: number } | null = null;
+    // > [!proof] and > [!solution] callouts, which are indexed as proofs later
+    const proofCallouts: { block: SectionCache, header: ProofCalloutHeader }[] = [];
     for (const block of metadata.sections || []) {
         // Skip headings blocks, we handle them specially as sections.
         if (block.type === "heading") continue;
@@ -85,9 +94,11 @@ export function markdownImport(
         let theoremCalloutSettings: MinimalTheoremCalloutSettings | null = null;
         let v1 = false;
         if (block.type === "callout") {
-            const settings = readTheoremCalloutSettings(lines[start], excludeExample);
+            const settings = readTheoremCalloutSettings(lines[start], theoremLikeEnvs, excludeExample);
             theoremCalloutSettings = settings ?? null;
             v1 = !!(settings?.legacy);
+            const header = settings ? null : parseProofCalloutHeader(lines[start]);
+            if (header) proofCallouts.push({ block, header });
         }
 
         if (block.type === "math") {
@@ -97,12 +108,31 @@ export function markdownImport(
             // If manually tagged (`\tag{...}`), extract the tag
             const tagMatch = mathText.match(/\\tag\{(.*)\}/);
 
+            // The lines of a multi-line equation (e.g. align), which can have their own labels
+            const rows = getLineByLineRows(mathText);
+
             // Parse additional metadata from LaTeX comments
             const metadata: Record<string, string | undefined> = {};
             for (const line of mathText.split('\n')) {
-                const { comment } = parseLatexComment(line);
+                const { nonComment, comment } = parseLatexComment(line);
                 if (!comment) continue;
-                Object.assign(metadata, parseYamlLike(comment));
+                // a comment following a line of a multi-line equation is about that line, not the entire equation
+                if (rows && nonComment.replace(/\\(begin|end)\{[^{}]*\}(\{[^{}]*\})?/g, '').trim()) continue;
+                if (comment.trim() === 'subequations') metadata.subequations = 'true';
+                else Object.assign(metadata, parseYamlLike(comment));
+            }
+
+            // The lines of a multi-line equation with `% subequations` are numbered as (3a), (3b), ... by themselves,
+            // and other equations with it are grouped with the following ones.
+            let subequationGroupStart: number | undefined = undefined;
+            if (metadata.subequations) {
+                subequationGroup = rows ? null : { first: blockOrdinal, end };
+                subequationGroupStart = blockOrdinal;
+            } else if (subequationGroup && !rows && lines.slice(subequationGroup.end + 1, start).every((line) => !line.trim() || /^\^[a-zA-Z0-9-]+$/.test(line.trim()))) {
+                subequationGroup.end = end;
+                subequationGroupStart = subequationGroup.first;
+            } else {
+                subequationGroup = null;
             }
 
             blocks.set(start, {
@@ -113,6 +143,8 @@ export function markdownImport(
                 $blockId: block.id,
                 $manualTag: tagMatch?.[1] ?? null,
                 $mathText: mathText,
+                $subEquations: rows?.map((row, index) => row.label ? { $index: index, $label: row.label } : { $index: index }),
+                $subequationGroup: subequationGroupStart,
                 $type: "equation",
                 $label: metadata.label,
                 $display: metadata.display,
@@ -142,6 +174,7 @@ export function markdownImport(
                 $display: metadata.display,
                 $main: metadata.main === 'true',
                 $v1: v1,
+                $body: getCalloutBodyText(lines.slice(start + 1, end + 1), theoremBodyIndexLength) || undefined,
             } as JsonTheoremCalloutBlock);
         } else {
             blocks.set(start, {
@@ -164,14 +197,72 @@ export function markdownImport(
         }
     }
 
+    ////////////
+    // Proofs //
+    ////////////
+
+    // A proof is associated with the theorem linked by `\begin{proof}`@[[...]] (or "> [!proof] of [[...]]"), or with the preceding theorem callout.
+    const lineStarts = [0];
+    for (const line of lines) lineStarts.push(lineStarts[lineStarts.length - 1] + line.length + 1);
+    const toLoc = (offset: number): Loc => {
+        // binary search for the last line starting at or before the offset
+        let line = 0, high = lines.length - 1;
+        while (line < high) {
+            const mid = (line + high + 1) >> 1;
+            if (lineStarts[mid] <= offset) line = mid;
+            else high = mid - 1;
+        }
+        return { line, col: offset - lineStarts[line], offset };
+    };
+    // proof markers in code blocks are not rendered, so they are not indexed either
+    const codeLines = new Set<number>();
+    for (const section of metadata.sections ?? []) {
+        if (section.type !== "code") continue;
+        for (let line = section.position.start.line; line <= section.position.end.line; line++) codeLines.add(line);
+    }
+    const theorems = blocks.valuesArray().filter((block): block is JsonTheoremCalloutBlock => block.$type === "theorem");
+
+    const ranges = [
+        ...findProofRanges(markdown, proofMarkers.beginProof, proofMarkers.endProof, (offset) => codeLines.has(toLoc(offset).line)).map((range) => ({
+            ...range,
+            body: getCalloutBodyText(markdown.slice(range.contentStart, range.contentEnd).split("\n"), theoremBodyIndexLength),
+        })),
+        ...proofCallouts.map(({ block, header }) => ({
+            start: block.position.start.offset,
+            end: block.position.end.offset,
+            linktext: header.linktext,
+            title: header.title,
+            body: getCalloutBodyText(lines.slice(block.position.start.line + 1, block.position.end.line + 1), theoremBodyIndexLength),
+        })),
+    ].sort((a, b) => a.start - b.start);
+
+    const proofs: JsonProofBlock[] = [];
+    for (const range of ranges) {
+        const start = toLoc(range.start);
+        // `end` is the offset right after the ending marker (or the end of the callout)
+        const end = toLoc(range.end);
+        let theorem: JsonTheoremCalloutBlock | undefined;
+        for (const block of theorems) {
+            if (block.$pos.end.offset <= range.start) theorem = block;
+        }
+        proofs.push({
+            $ordinal: proofs.length + 1,
+            $position: { start: start.line, end: end.line },
+            $pos: { start, end },
+            $links: [],
+            $linktext: range.linktext,
+            $theorem: theorem?.$ordinal,
+            $title: range.title,
+            $body: range.body || undefined,
+        });
+    }
+
     ///////////
     // Links //
     ///////////
 
     const links: Link[] = [];
-    for (let linkdef of metadata.links ?? []) {
-        const link = Link.infer(linkdef.link);
-        const line = linkdef.position.start.line;
+    const addLinkAt = (link: Link, line: number) => {
         addLink(links, link);
 
         const section = sections.getPairOrNextLower(line);
@@ -182,6 +273,24 @@ export function markdownImport(
 
         const listItem = blocks.getPairOrNextHigher(line);
         if (listItem && listItem[1].$position.end >= line) addLink(listItem[1].$links, link);
+
+        for (const proof of proofs) {
+            if (proof.$position.start <= line && line <= proof.$position.end) addLink(proof.$links, link);
+        }
+    };
+
+    for (let linkdef of metadata.links ?? []) {
+        addLinkAt(Link.infer(linkdef.link), linkdef.position.start.line);
+    }
+
+    // `\ref{label}` is not a link for Obsidian, but it is equivalent to [[@label]]
+    for (const section of metadata.sections ?? []) {
+        if (section.type === "math" || section.type === "code") continue;
+        for (let line = section.position.start.line; line <= section.position.end.line; line++) {
+            for (const label of parseLabelReferences(lines[line])) {
+                addLinkAt(Link.file(LABEL_LINK_PREFIX + label), line);
+            }
+        }
     }
 
     ///////////////////////
@@ -198,6 +307,7 @@ export function markdownImport(
         $path: path,
         $links: links,
         $sections: sections.valuesArray(),
+        $proofs: proofs,
         $extension: "md",
         $position: { start: 0, end: lines.length },
     };
@@ -1,12 +1,17 @@
-import { App, Component, EventRef, Events, MetadataCache, TAbstractFile, TFile, Vault } from "obsidian";
+import { App, Component, EventRef, Events, MetadataCache, TAbstractFile, TFile, TFolder, Vault } from "obsidian";
 import { Deferred, deferred } from "./utils/deferred";
 import { ImporterSettings } from "../settings/settings";
 import { MathImporter } from "./web-worker/importer";
 import { MathIndex } from "./math-index";
 import { ImportResult } from "./web-worker/message";
+import { JsonMarkdownPage } from "./typings/json";
+import { LocalStorageCache } from "./persister";
 import { MarkdownPage } from "./typings/markdown";
-import LatexReferencer from "../main";
+import { Link } from "./expression/link";
+import LatexReferencer, { VAULT_ROOT } from "../main";
 import { iterDescendantFiles } from "utils/obsidian";
+import { resolveSettings } from "utils/plugin";
+import { parseLabelLinktext } from "utils/parse";
 import * as MathLinks from "obsidian-mathlinks";
 
 
@@ -23,12 +28,14 @@ export class MathIndexManager extends Component {
     index: MathIndex;
     /** Asynchronous multi-threaded file importer with throttling. */
     importer: MathImporter;
-    // /** Local-storage backed cache of metadata objects. */
-    // persister: LocalStorageCache;
+    /** IndexedDB-backed cache of imported pages, used to skip re-importing unchanged files on startup. */
+    persister: LocalStorageCache;
     /** Only set when the index is in the midst of initialization; tracks current progress. */
     initializer?: MathIndexInitializer;
     /** If true, the index is fully hydrated and all files have been indexed. */
     initialized: boolean;
+    /** The proof markers (the "beginProof" & "endProof" settings) that each indexed note was imported with, keyed by the paths. */
+    private proofMarkers: Map<string, string> = new Map();
 
     constructor(
         public plugin: LatexReferencer,
@@ -41,7 +48,8 @@ export class MathIndexManager extends Component {
         this.app = app;
         this.vault = app.vault;
         this.metadataCache = app.metadataCache;
-        // this.persister = new LocalStorageCache("primary", version);
+        this.persister = new LocalStorageCache(`${plugin.manifest.id}/cache/${app.appId}`, this.cacheVersion);
+        this.register(() => this.persister.close().catch(this.onCacheError));
         this.events = new Events();
 
         this.index = new MathIndex(plugin, app.vault, app.metadataCache);
@@ -57,6 +65,16 @@ export class MathIndexManager extends Component {
         );
     }
 
+    /** 
+     * The version of the cached pages. The cache gets invalidated when either the plugin version or 
+     * the global settings that affect how notes are imported are changed.
+     */
+    get cacheVersion(): string {
+        const { excludeExampleCallout, theoremLikeEnvs, theoremBodyIndexLength } = this.plugin.extraSettings;
+        const { beginProof, endProof } = this.plugin.settings[VAULT_ROOT] ?? {};
+        return this.plugin.manifest.version + ":" + JSON.stringify({ excludeExampleCallout, theoremLikeEnvs, beginProof, endProof, theoremBodyIndexLength });
+    }
+
     /** Obtain the current index revision, for determining if anything has changed. */
     get revision() {
         return this.index.revision;
@@ -74,6 +92,8 @@ export class MathIndexManager extends Component {
             this.vault.on("delete", async (file) => {
                 if (file instanceof TFile) {
                     await this.updateLinkedOnDeltion(file);
+                    this.persister.deleteFile(file.path).catch(this.onCacheError);
+                    this.proofMarkers.delete(file.path);
                 }
                 if (file.path in this.plugin.settings) {
                     delete this.plugin.settings[file.path];
@@ -84,17 +104,27 @@ export class MathIndexManager extends Component {
 
         this.registerEvent(
             this.on("local-settings-updated", async (file) => {
+                const files: TFile[] = [];
                 iterDescendantFiles(file, (descendantFile) => {
-                    if (descendantFile.extension === "md") {
-                        this.index.updateNames(descendantFile);
-                        MathLinks.update(this.app, descendantFile);
-                    };
+                    if (descendantFile.extension === "md") files.push(descendantFile);
                 });
+                // re-import the notes whose proof markers have been changed, one by one not to flood the importer
+                for (const file of files) {
+                    if (this.proofMarkers.get(file.path) !== this.getProofMarkers(file)) await this.reload(file);
+                }
+                // the notes might have been added to or removed from the sequences numbered continuously
+                this.index.clearNoteSequences();
+                const folders = new Set(files.map((file) => file.parent).filter((folder): folder is TFolder => !!folder));
+                this.updateNamesOfFiles(files, folders);
+                files.forEach((file) => MathLinks.update(this.app, file));
             })
         );
 
         this.registerEvent(
             this.on("global-settings-updated", () => {
+                // invalidate the cache if needed
+                this.persister.version = this.cacheVersion;
+                this.index.clearNoteSequences();
                 // re-index the whole vault
                 const init = new MathIndexInitializer(this);
                 init.finished().then(() => {
@@ -116,9 +146,12 @@ export class MathIndexManager extends Component {
             const durationSecs = (stats.durationMs / 1000.0).toFixed(3);
             console.log(
                 `${this.plugin.manifest.name}: Imported all theorems and equations in the vault in ${durationSecs}s ` +
-                `(${stats.imported} notes imported, ${stats.skipped} notes skipped).`
+                `(${stats.imported} notes imported, ${stats.cached} notes loaded from cache, ${stats.skipped} notes skipped).`
             );
 
+            // drop the cache for the files that have been deleted while the plugin was disabled
+            this.persister.synchronize(this.vault.getMarkdownFiles().map((file) => file.path)).catch(this.onCacheError);
+
             this.index.touch();
             this.trigger("update", this.revision);
             this.trigger("index-initialized");
@@ -140,38 +173,103 @@ export class MathIndexManager extends Component {
         // This is less optimal than what can probably be done, but paths are used in a bunch of places
         // (for sections, tasks, etc to refer to their parent file) and it requires some finesse to fix.
         this.index.delete(oldPath);
+        this.proofMarkers.delete(oldPath);
+        this.persister.deleteFile(oldPath).catch(this.onCacheError);
         await this.reload(file);
-        this.index.updateNames(file);
+        this.updateNames(file);
+        // continuous numbering across notes: the notes following this one in the old folder might be affected
+        const oldParentPath = oldPath.split('/').slice(0, -1).join('/');
+        const oldParent = oldParentPath ? this.vault.getAbstractFileByPath(oldParentPath) : this.vault.getRoot();
+        if (oldParent instanceof TFolder && oldParent !== file.parent) this.updateNoteSequence(oldParent);
         MathLinks.update(this.app);
     }
 
+    /**
+     * Re-compute the theorem/equation numbers of the given file. If the file is in a sequence of notes numbered continuously
+     * (the "continuousNumbering" local setting), the whole sequence is updated because a change in one note 
+     * (or in the order of the notes) can affect the numbers in the following ones.
+     * 
+     * Like MathIndex.updateNames(), this doesn't trigger MathLinks.update() for the given file, 
+     * but it does for the other notes in the sequence.
+     */
+    public updateNames(file: TFile) {
+        if (!file.parent || !resolveSettings(undefined, this.plugin, file).continuousNumbering) {
+            this.index.updateNames(file);
+            return;
+        }
+        this.updateNoteSequence(file.parent, file);
+    }
+
+    /** 
+     * Re-compute the theorem/equation numbers of the given files, taking care of the order of notes numbered continuously.
+     * The whole sequences in `folders` are updated as well.
+     */
+    public updateNamesOfFiles(files: TFile[], folders = new Set<TFolder>()) {
+        for (const file of files) {
+            if (file.parent && resolveSettings(undefined, this.plugin, file).continuousNumbering) folders.add(file.parent);
+            else this.index.updateNames(file);
+        }
+        // update each sequence in order; otherwise the numbers carried over from the previous notes might be out-dated
+        folders.forEach((folder) => this.index.getNoteSequence(folder).forEach((note) => this.index.updateNames(note)));
+    }
+
+    /** Re-compute the theorem/equation numbers of the notes numbered continuously in the given folder, from the first to the last. */
+    public updateNoteSequence(folder: TFolder, skipMathLinksUpdateFor?: TFile) {
+        for (const note of this.index.getNoteSequence(folder)) {
+            this.index.updateNames(note);
+            if (note !== skipMathLinksUpdateFor) MathLinks.update(this.app, note);
+        }
+    }
+
+    private getProofMarkers(file: TFile): string {
+        const { beginProof, endProof } = resolveSettings(undefined, this.plugin, file);
+        return JSON.stringify([beginProof, endProof]);
+    }
+
+    /** Failing to update the cache is not fatal; the file will be imported again next time. */
+    private onCacheError = (ex: unknown) => {
+        console.log(`${this.plugin.manifest.name}: Failed to update the cache: `, ex);
+    };
+
     /** Queue a file for reloading; this is done asynchronously in the background and may take a few seconds. */
     public async reload(file: TFile): Promise<MarkdownPage> {
+        // the file may be modified while it is being imported
+        const mtime = file.stat.mtime;
         const result = await this.importer.import<ImportResult>(file);
 
         if (result.type === "error") {
             throw new Error(`Failed to import file '${file.name}: ${result.$error}`);
         } else if (result.type === "markdown") {
-            const parsed = MarkdownPage.from(result.result, (link) => {
-                const rpath = this.metadataCache.getFirstLinkpathDest(link.path, result.result.$path!);
-                if (rpath) return link.withPath(rpath.path);
-                else return link;
-            });
-
-            this.index.store(parsed, (object, store) => {
-                store(object.$sections, (section, store) => {
-                    store(section.$blocks);
-                });
-            });
-
-            this.trigger("update", this.revision);
-            this.trigger('index-updated', file);
+            const parsed = this.store(file, result.result);
+            this.persister.storeFile(file.path, mtime, parsed.partial()).catch(this.onCacheError);
             return parsed;
         }
 
         throw new Error("Encountered unrecognized import result type: " + (result as any).type);
     }
 
+    /** Store an imported (or cached) page in the index. */
+    public store(file: TFile, page: JsonMarkdownPage): MarkdownPage {
+        const parsed = MarkdownPage.from(page, (link) => {
+            const rpath = this.metadataCache.getFirstLinkpathDest(link.path, page.$path!);
+            if (rpath) return link.withPath(rpath.path);
+            else return link;
+        });
+
+        this.index.store(parsed, (object, store) => {
+            store(object.$sections, (section, store) => {
+                store(section.$blocks);
+            });
+            store(object.$proofs);
+        });
+
+        this.proofMarkers.set(file.path, this.getProofMarkers(file));
+
+        this.trigger("update", this.revision);
+        this.trigger('index-updated', file);
+        return parsed;
+    }
+
     /** Given an array of TFiles, this function does two things:
      * 1. It reloads (re-imports) each file in the array.
      * 2. It re-computes the theorem/equation numbers for all the files containing blocks 
@@ -192,12 +290,8 @@ export class MathIndexManager extends Component {
         const oldPage = this.index.load(file.path);
         if (MarkdownPage.isMarkdownPage(oldPage)) {
             for (const link of oldPage.$links) {
-                if (link.type === "block") {
-                    const linkedFile = this.vault.getAbstractFileByPath(link.path);
-                    if (linkedFile instanceof TFile) {
-                        toBeUpdated.add(linkedFile);
-                    }
-                }
+                const linkedFile = this.getLinkedBlockFile(link);
+                if (linkedFile) toBeUpdated.add(linkedFile);
             }
         }
 
@@ -206,22 +300,30 @@ export class MathIndexManager extends Component {
 
         // get the new outgoing block links (each of which can be potentially a link to some equation) 
         for (const link of newPage.$links) {
-            if (link.type === "block") {
-                const linkedFile = this.vault.getAbstractFileByPath(link.path);
-                if (linkedFile instanceof TFile) {
-                    toBeUpdated.add(linkedFile);
-                }
-            }
+            const linkedFile = this.getLinkedBlockFile(link);
+            if (linkedFile) toBeUpdated.add(linkedFile);
         }
 
         // recompute theorem/equation numbers for the previously or currently linked files
         toBeUpdated.forEach((fileToBeUpdated) => {
-            this.index.updateNames(fileToBeUpdated);
+            this.updateNames(fileToBeUpdated);
             MathLinks.update(this.app, fileToBeUpdated);
         });
         this.trigger("update", this.revision);
     }
 
+    /** The file containing the block that the given link points to, either by a block ID ([[note#^id]]) or by a label ([[@label]]). */
+    private getLinkedBlockFile(link: Link): TFile | null {
+        let path: string | undefined;
+        if (link.type === "block") path = link.path;
+        else if (link.type === "file") {
+            const label = parseLabelLinktext(link.path);
+            if (label !== null) path = this.index.getBlockByLabel(label)?.$file;
+        }
+        const linkedFile = path ? this.vault.getAbstractFileByPath(path) : null;
+        return linkedFile instanceof TFile ? linkedFile : null;
+    }
+
     public async updateLinkedOnDeltion(file: TFile) {
         // Since only linked/referenced equations are numbered, we need to recompute 
         // the equation numbers for all the files that contained blocks that this file previously linked to
@@ -232,12 +334,8 @@ export class MathIndexManager extends Component {
         const oldPage = this.index.load(file.path);
         if (MarkdownPage.isMarkdownPage(oldPage)) {
             for (const link of oldPage.$links) {
-                if (link.type === "block") {
-                    const linkedFile = this.vault.getAbstractFileByPath(link.path);
-                    if (linkedFile instanceof TFile) {
-                        toBeUpdated.add(linkedFile);
-                    }
-                }
+                const linkedFile = this.getLinkedBlockFile(link);
+                if (linkedFile) toBeUpdated.add(linkedFile);
             }
         }
 
@@ -246,8 +344,10 @@ export class MathIndexManager extends Component {
 
         // recompute theorem/equation numbers for the previously linked files
         toBeUpdated.forEach((fileToBeUpdated) => {
-            this.index.updateNames(fileToBeUpdated);
+            this.updateNames(fileToBeUpdated);
         });
+        // continuous numbering across notes: the notes following the deleted one are affected
+        if (file.parent) this.updateNoteSequence(file.parent);
         this.trigger("update", this.revision);
         MathLinks.update(this.app);
     }
@@ -318,6 +418,8 @@ export class MathIndexInitializer extends Component {
     imported: number;
     /** Total number of skipped files. */
     skipped: number;
+    /** Total number of files loaded from the cache. */
+    cached: number;
 
     constructor(public manager: MathIndexManager) {
         super();
@@ -329,7 +431,7 @@ export class MathIndexInitializer extends Component {
         this.current = [];
         this.done = deferred();
 
-        this.initialized = this.imported = this.skipped = 0;
+        this.initialized = this.imported = this.skipped = this.cached = 0;
     }
 
     async onload() {
@@ -371,7 +473,7 @@ export class MathIndexInitializer extends Component {
         } else if (!next && this.current.length == 0) {
             this.active = false;
 
-            this.manager.vault.getMarkdownFiles().forEach((file) => this.manager.index.updateNames(file));
+            this.manager.updateNamesOfFiles(this.manager.vault.getMarkdownFiles());
             MathLinks.update(this.manager.app);
 
             // All work is done, resolve.
@@ -380,6 +482,7 @@ export class MathIndexInitializer extends Component {
                 files: this.files,
                 imported: this.imported,
                 skipped: this.skipped,
+                cached: this.cached,
             });
         }
     }
@@ -391,6 +494,7 @@ export class MathIndexInitializer extends Component {
 
         if (result.status === "skipped") this.skipped++;
         else if (result.status === "imported") this.imported++;
+        else if (result.status === "cached") this.cached++;
 
         // Queue more jobs for processing.
         this.runNext();
@@ -402,6 +506,13 @@ export class MathIndexInitializer extends Component {
             const metadata = this.manager.metadataCache.getFileCache(file);
             if (!metadata) return { status: "skipped" };
 
+            // use the cached page if it was imported from the current version of the file
+            const cached = await this.manager.persister.loadFile(file.path).catch(() => null);
+            if (cached && cached.time === file.stat.mtime) {
+                this.manager.store(file, cached.data);
+                return { status: "cached" };
+            }
+
             await this.manager.reload(file);
             return { status: "imported" };
         } catch (ex) {
@@ -421,9 +532,11 @@ export interface InitializationStats {
     imported: number;
     /** The number of files that were skipped due to no longer existing or not being ready. */
     skipped: number;
+    /** The number of files that were loaded from the cache. */
+    cached: number;
 }
 
 /** The result of initializing a file. */
 interface InitializationResult {
-    status: "skipped" | "imported";
+    status: "skipped" | "imported" | "cached";
 }
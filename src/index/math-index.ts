@@ -1,14 +1,17 @@
-import { MetadataCache, TFile, Vault } from 'obsidian';
+import { MetadataCache, TFile, TFolder, Vault } from 'obsidian';
 
 import { InvertedIndex } from './storage/inverted';
 import { Indexable, LINKBEARING_TYPE, Linkable } from './typings/indexable';
 import { Link } from 'index/expression/literal';
-import { EquationBlock, MarkdownPage, TheoremCalloutBlock } from './typings/markdown';
+import { EquationBlock, MarkdownBlock, MarkdownPage, MathBlock, ProofBlock, SubEquation, TheoremCalloutBlock } from './typings/markdown';
 
 import LatexReferencer from 'main';
-import { CONVERTER, formatTitle, formatTitleWithoutSubtitle, getEqNumberPrefix } from 'utils/format';
-import { resolveSettings } from 'utils/plugin';
-import { ResolvedMathSettings, TheoremRefFormat } from 'settings/settings';
+import { PROVABLE_ENV_IDs } from 'env';
+import { CONVERTER, formatTemplate, formatTheoremCalloutType, formatTheoremNumber, formatTitleWithoutSubtitle, getEqNumberPrefix } from 'utils/format';
+import { getNoteSequence, resolveSettings } from 'utils/plugin';
+import { ResolvedMathSettings } from 'settings/settings';
+import { LABEL_LINK_PREFIX, parseLabelLinktext, parseTheoremCounters } from 'utils/parse';
+import { resolveLinktext } from 'utils/obsidian';
 
 
 export class MathIndex {
@@ -33,6 +36,18 @@ export class MathIndex {
     // private tags: InvertedIndex<string>;
     /** Maps link strings to the object IDs that link to those links. */
     private links: InvertedIndex<string>;
+    /** Maps labels (`%% label: ... %%` or `% label: ...`) to the IDs of the theorems & equations having them. */
+    private labels: InvertedIndex<string>;
+    /**
+     * Caches the sequence of notes numbered continuously in each folder (see getNoteSequence() in utils/plugin.ts),
+     * together with the position of each note in it. Invalidated when the revision changes or the local settings are updated.
+     */
+    private noteSequences: Map<TFolder, { revision: number, sequence: TFile[], positions: Map<TFile, number> }>;
+    /**
+     * Maps the ID of each theorem callout to its proofs (see getProofs()).
+     * Rebuilt lazily when the revision changes or the names (which decide the main theorems) are updated.
+     */
+    private proofMap: { revision: number, proofs: Map<string, ProofBlock[]> } | null;
     /** Tracks the existence of fields (indexed by normalized key name). */
     // private fields: Map<string, FieldIndex>; // irrelevant because we are not going to search/query
     /**
@@ -53,6 +68,9 @@ export class MathIndex {
         // this.etags = new InvertedIndex();
         // this.tags = new InvertedIndex();
         this.links = new InvertedIndex();
+        this.labels = new InvertedIndex();
+        this.noteSequences = new Map();
+        this.proofMap = null;
         // this.fields = new Map();
         // this.folder = new FolderIndex(vault);
     }
@@ -179,6 +197,9 @@ export class MathIndex {
             );
         }
 
+        // Labels, used for label-based links (`[[@label]]` and `\ref{label}`).
+        if (MathBlock.isMathBlock(object)) this.labels.set(object.$id, getLabels(object));
+
         // // All fields on an object.
         // if (object.$types.contains(FIELDBEARING_TYPE) && "fields" in object) {
         //     for (const field of object.fields as Iterable<Field>) {
@@ -213,6 +234,8 @@ export class MathIndex {
             );
         }
 
+        if (MathBlock.isMathBlock(object)) this.labels.delete(object.$id, getLabels(object));
+
         // if (object.$types.contains(FIELDBEARING_TYPE) && "fields" in object) {
         //     for (const field of object.fields as Iterable<Field>) {
         //         // Skip any index fields.
@@ -236,6 +259,9 @@ export class MathIndex {
         // this.tags.clear();
         // this.etags.clear();
         this.links.clear();
+        this.labels.clear();
+        this.noteSequences.clear();
+        this.proofMap = null;
         // this.fields.clear();
 
         this.revision++;
@@ -244,7 +270,20 @@ export class MathIndex {
     /** Get all the backlinks to the given linkable. */
     public getBacklinks(object: Linkable) {
         const normalizedLink = object.$link.obsidianLink();
-        return this.links.get(normalizedLink);
+        const backlinks = this.links.get(normalizedLink);
+
+        // label-based links ([[@label]] and \ref{label}) only count for the block the label is resolved to
+        const block = object as Linkable & Indexable;
+        if (!MathBlock.isMathBlock(block)) return backlinks;
+        const labelBacklinks = getLabels(block)
+            .filter((label) => this.getBlockByLabel(label)?.$id === block.$id)
+            .flatMap((label) => [...this.links.get(LABEL_LINK_PREFIX + label)]);
+        return labelBacklinks.length ? new Set([...backlinks, ...labelBacklinks]) : backlinks;
+    }
+
+    /** Get the IDs of the objects referring to the given label, i.e. by [[@label]] or \ref{label}. */
+    public getLabelBacklinks(label: string): Set<string> {
+        return this.links.get(LABEL_LINK_PREFIX + label);
     }
 
     /** Check if the given linkable object has any backlinks. */
@@ -252,6 +291,16 @@ export class MathIndex {
         return this.getBacklinks(object).size > 0;
     }
 
+    /** Whether any equation of the `% subequations` group starting with the block of the given ordinal is linked. */
+    private isSubequationGroupLinked(file: TFile, first: number): boolean {
+        let block: Indexable | undefined;
+        for (let ordinal = first; (block = this.load(`${file.path}/block${ordinal}`)); ordinal++) {
+            if (!EquationBlock.isEquationBlock(block) || block.$subequationGroup !== first) break;
+            if (block.$link && this.isLinked(block as Linkable)) return true;
+        }
+        return false;
+    }
+
     /**
      * Update $printName and $refName of theorems and equations.
      * Additionally, set $main of a theorem callout to true if it is the only one in the file, if configured as such.
@@ -260,35 +309,63 @@ export class MathIndex {
      * Warning: This function doesn't trigger MathLinks.update(), so you have to call it by yourself!
      */
     public updateNames(file: TFile) {
+        this.proofMap = null;
         const settings = resolveSettings(undefined, this.plugin, file);
+        const page = this.load(file.path);
 
         let blockOrdinal = 1;
         let block: Indexable | undefined;
 
         let theorems: TheoremCalloutBlock[] = []
-        let autoNumberedTheoremCount = 0;
+        // maps each counter name to the number of auto-numbered theorems counted so far ("" is the default counter)
+        const counters = parseTheoremCounters(settings.theoremCounters, this.plugin.extraSettings.theoremLikeEnvs);
+        const carriedOver = this.getCarriedOverCounts(file);
+        let autoNumberedTheoremCounts: Record<string, number> = carriedOver.theorems;
         let mainTheorem: TheoremCalloutBlock | null = null;
 
         const equationNumberInit = +(settings.eqNumberInit);
-        let equationCount = 0;
+        let equationCount = carriedOver.equations;
+
+        // numbering within headings (null if disabled)
+        const theoremSections = MarkdownPage.isMarkdownPage(page) && settings.numberWithin > 0 ? this.getSectionNumbers(page, settings.numberWithin) : null;
+        const equationSections = MarkdownPage.isMarkdownPage(page) && settings.eqNumberWithin > 0 ? this.getSectionNumbers(page, settings.eqNumberWithin) : null;
+        let currentTheoremSection = 0;
+        let currentEquationSection = 0;
+        // the headings containing the blocks, used by the "{section}" placeholder in the reference formats
+        const sectionTitles = MarkdownPage.isMarkdownPage(page) ? this.getSectionTitles(page) : new Map<number, string>();
         const eqPrefix = getEqNumberPrefix(this.plugin.app, file, settings);
         const eqSuffix = settings.eqNumberSuffix;
+        // the `% subequations` group being numbered (tag is null if the group is not numbered)
+        let subequationGroup: { tag: string | null, letterCount: number } | null = null;
 
         while (block = this.load(`${file.path}/block${blockOrdinal++}`)) {
             if (TheoremCalloutBlock.isTheoremCalloutBlock(block)) {
                 theorems.push(block);
                 if (block.$main) mainTheorem = block;
                 // Theorem numbers start at 1, and are incremented by 1 
-                // for each theorem callout.
+                // for each theorem callout sharing the same counter.
                 // They may be additionally formatted according to the settings.
                 const resolvedSettings = Object.assign({}, settings, block.$settings);
+                block.$section = undefined;
+                if (theoremSections) {
+                    const section = theoremSections.get(block.$ordinal) ?? 0;
+                    // reset the counters at each heading
+                    if (section !== currentTheoremSection) autoNumberedTheoremCounts = {};
+                    currentTheoremSection = section;
+                    block.$section = section;
+                    (resolvedSettings as ResolvedMathSettings)._section = section;
+                }
                 if (block.$settings.number == 'auto') {
-                    block.$index = autoNumberedTheoremCount;
-                    (resolvedSettings as ResolvedMathSettings)._index = autoNumberedTheoremCount++;
+                    const counter = counters[block.$settings.type] ?? '';
+                    const count = autoNumberedTheoremCounts[counter] ?? 0;
+                    block.$index = count;
+                    (resolvedSettings as ResolvedMathSettings)._index = count;
+                    autoNumberedTheoremCounts[counter] = count + 1;
                 }
                 // const printName = formatTitle(this.plugin, file, resolvedSettings);
                 const mainTitle = formatTitleWithoutSubtitle(this.plugin, file, resolvedSettings);
-                const refName = this.formatMathLink(file, resolvedSettings, "refFormat");
+                const refName = this.formatMathLink(file, resolvedSettings, "refFormat", sectionTitles.get(block.$ordinal));
+                block.$number = formatTheoremNumber(this.plugin, file, resolvedSettings);
                 block.$theoremMainTitle = mainTitle;
                 block.$refName = refName;
                 block.$titleSuffix = settings.titleSuffix;
@@ -299,16 +376,59 @@ export class MathIndex {
                 // If an equation block has a manual tag, it is used as printNames & refNames.
                 let printName: string | null = null;
                 let refName: string | null = null;
+                let sectionPrefix = "";
+                // an equation that is no longer numbered must not be treated as consecutive to its neighbors in grouped references
+                block.$index = undefined;
+                block.$section = undefined;
+                if (equationSections) {
+                    const section = equationSections.get(block.$ordinal) ?? 0;
+                    // reset the counter at each heading
+                    if (section !== currentEquationSection) equationCount = 0;
+                    currentEquationSection = section;
+                    block.$section = section;
+                    sectionPrefix = section + ".";
+                }
+                // the equations grouped by `% subequations` share one number with letter suffixes, e.g. "(3a)", "(3b)"
+                const inGroup = block.$subequationGroup !== undefined && !(block.$subequationGroup === block.$ordinal && block.$subEquations.length);
+                if (inGroup && block.$subequationGroup === block.$ordinal) {
+                    subequationGroup = { tag: null, letterCount: 0 };
+                    if (!settings.numberOnlyReferencedEquations || this.isSubequationGroupLinked(file, block.$ordinal)) {
+                        subequationGroup.tag = eqPrefix + sectionPrefix + CONVERTER[settings.eqNumberStyle](equationNumberInit + equationCount) + eqSuffix;
+                        equationCount++;
+                    }
+                }
                 if (block.$manualTag) {
                     printName = `(${block.$manualTag})`;
+                } else if (inGroup) {
+                    if (subequationGroup?.tag) printName = `(${subequationGroup.tag}${CONVERTER.alph(++subequationGroup.letterCount)})`;
                 } else if (!settings.numberOnlyReferencedEquations || block.$link && this.isLinked(block as Linkable)) {
                     block.$index = equationCount;
-                    printName = "(" + eqPrefix + CONVERTER[settings.eqNumberStyle](equationNumberInit + equationCount) + eqSuffix + ")";
+                    printName = "(" + eqPrefix + sectionPrefix + CONVERTER[settings.eqNumberStyle](equationNumberInit + equationCount) + eqSuffix + ")";
                     equationCount++;
                 }
-                if (printName !== null) refName = settings.eqRefPrefix + printName + settings.eqRefSuffix;
+                const section = sectionTitles.get(block.$ordinal);
+                const formatRefName = (number: string) => formatTemplate(settings.eqRefFormat, {
+                    type: this.plugin.extraSettings.profiles[settings.profile]?.body.cleveref.equation,
+                    number,
+                    note: file.basename,
+                    section,
+                });
+                if (printName !== null) refName = formatRefName(printName);
                 block.$printName = printName;
                 block.$refName = refName;
+                block.$number = printName ?? "";
+
+                // the lines of a multi-line equation are numbered as "(3-1)", "(3-2)", ... (or "(3a)", "(3b)", ... with `% subequations`)
+                // in the same way as insertTagInMathText
+                const tagContent = printName?.match(/^\((.*)\)$/)?.[1];
+                const lettered = block.$subequationGroup === block.$ordinal;
+                for (const subEquation of block.$subEquations) {
+                    subEquation.$printName = tagContent === undefined || block.$manualTag ? printName
+                        : lettered ? `(${tagContent}${CONVERTER.alph(subEquation.$index + 1)})`
+                            : settings.lineByLine ? `(${tagContent}-${subEquation.$index + 1})`
+                                : printName;
+                    subEquation.$refName = subEquation.$printName !== null ? formatRefName(subEquation.$printName) : null;
+                }
             }
         }
 
@@ -317,40 +437,183 @@ export class MathIndex {
             mainTheorem = theorems[0];
         }
 
-        const page = this.load(file.path);
         if (MarkdownPage.isMarkdownPage(page)) {
+            page.$theoremCounts = autoNumberedTheoremCounts;
+            page.$equationCount = equationCount;
+
             if (mainTheorem) {
                 const resolvedSettings = Object.assign({}, settings, mainTheorem.$settings);
                 (resolvedSettings as ResolvedMathSettings)._index = mainTheorem.$index;
+                (resolvedSettings as ResolvedMathSettings)._section = mainTheorem.$section;
 
                 if (!resolvedSettings.ignoreMainTheoremCalloutWithoutTitle || mainTheorem.$theoremSubtitle)
-                    page.$refName = this.formatMathLink(file, resolvedSettings, "noteMathLinkFormat");
+                    page.$refName = this.formatMathLink(file, resolvedSettings, "noteMathLinkFormat", sectionTitles.get(mainTheorem.$ordinal));
             }
         }
 
         this.plugin.indexManager.trigger("index-updated", file);
     }
 
-    formatMathLink(file: TFile, resolvedSettings: ResolvedMathSettings, key: "refFormat" | "noteMathLinkFormat"): string {
-        const refFormat: TheoremRefFormat = resolvedSettings[key];
-        if (refFormat == "[type] [number] ([title])") {
-            return formatTitle(this.plugin, file, resolvedSettings, true);
+    /**
+     * Get the numbers of auto-numbered theorems (for each counter) and equations that this file's numbering should start from.
+     * They are zero unless the file continues numbering from the previous note (the "continuousNumbering" local setting).
+     */
+    public getCarriedOverCounts(file: TFile): { theorems: Record<string, number>, equations: number } {
+        const counts = { theorems: {} as Record<string, number>, equations: 0 };
+        if (!file.parent || !resolveSettings(undefined, this.plugin, file).continuousNumbering) return counts;
+
+        const { sequence, positions } = this.getCachedNoteSequence(file.parent);
+        const position = positions.get(file);
+        const previous = position !== undefined ? sequence[position - 1] : undefined;
+        const previousPage = previous && this.load(previous.path);
+        if (MarkdownPage.isMarkdownPage(previousPage)) {
+            Object.assign(counts.theorems, previousPage.$theoremCounts);
+            counts.equations = previousPage.$equationCount ?? 0;
         }
-        if (refFormat == "[type] [number]") {
-            return formatTitleWithoutSubtitle(this.plugin, file, resolvedSettings);
+        return counts;
+    }
+
+    /** Get the notes numbered continuously in the given folder, in order. */
+    public getNoteSequence(folder: TFolder): TFile[] {
+        return this.getCachedNoteSequence(folder).sequence;
+    }
+
+    private getCachedNoteSequence(folder: TFolder) {
+        let cached = this.noteSequences.get(folder);
+        if (!cached || cached.revision !== this.revision) {
+            const sequence = getNoteSequence(this.plugin, folder);
+            cached = { revision: this.revision, sequence, positions: new Map(sequence.map((note, i) => [note, i])) };
+            this.noteSequences.set(folder, cached);
+        }
+        return cached;
+    }
+
+    /** Drop the cached note sequences, e.g. when the "continuousNumbering" or "noteOrderProperty" local setting might have changed. */
+    public clearNoteSequences() {
+        this.noteSequences.clear();
+    }
+
+    /** 
+     * Map the ordinal of each block in the page to the number of the level-`level` heading it belongs to, 
+     * i.e. the number of such headings preceding the block (0 if it precedes all of them).
+     */
+    private getSectionNumbers(page: MarkdownPage, level: number): Map<number, number> {
+        const sectionNumbers = new Map<number, number>();
+        let sectionNumber = 0;
+        for (const section of page.$sections) {
+            // $ordinal is 0 for the implicit section preceding all the headings
+            if (section.$ordinal > 0 && section.$level === level) sectionNumber++;
+            for (const block of section.$blocks) sectionNumbers.set(block.$ordinal, sectionNumber);
         }
-        if (refFormat == "[title] if title exists, [type] [number] otherwise") {
-            return resolvedSettings.title ? resolvedSettings.title : formatTitleWithoutSubtitle(this.plugin, file, resolvedSettings);
+        return sectionNumbers;
+    }
+
+    /** Map the ordinal of each block in the page to the title of the heading it belongs to (absent if it precedes all the headings). */
+    private getSectionTitles(page: MarkdownPage): Map<number, string> {
+        const sectionTitles = new Map<number, string>();
+        for (const section of page.$sections) {
+            if (section.$ordinal === 0) continue;
+            for (const block of section.$blocks) sectionTitles.set(block.$ordinal, section.$title);
         }
-        // if (refFormat == "[title] ([type] [number]) if title exists, [type] [number] otherwise") 
-        const typePlusNumber = formatTitleWithoutSubtitle(this.plugin, file, resolvedSettings);
-        return resolvedSettings.title ? `${resolvedSettings.title} (${typePlusNumber})` : typePlusNumber;
+        return sectionTitles;
+    }
+
+    /** Format the name of a theorem callout in links according to the template given by the `key` setting. */
+    formatMathLink(file: TFile, resolvedSettings: ResolvedMathSettings, key: "refFormat" | "noteMathLinkFormat", section = ""): string {
+        return formatTemplate(resolvedSettings[key], {
+            type: formatTheoremCalloutType(this.plugin, resolvedSettings),
+            number: formatTheoremNumber(this.plugin, file, resolvedSettings),
+            title: resolvedSettings.title,
+            note: file.basename,
+            section,
+        });
     }
 
     getByType(type: string) {
         return this.types.get(type);
     }
 
+    /** Get the theorems & equations having the given label, in the order of the paths & the positions. */
+    getBlocksByLabel(label: string): MathBlock[] {
+        return this.load([...this.labels.get(label)])
+            .filter((block): block is MathBlock => MathBlock.isMathBlock(block))
+            .sort((a, b) => a.$file.localeCompare(b.$file, undefined, { numeric: true }) || a.$position.start - b.$position.start);
+    }
+
+    /** Get the theorem or equation having the given label. If the label is used more than once, the first one is returned. */
+    getBlockByLabel(label: string): MathBlock | null {
+        return this.getBlocksByLabel(label)[0] ?? null;
+    }
+
+    /** Get the line of a multi-line equation having the given label, together with the equation. */
+    getSubEquationByLabel(label: string): { equation: EquationBlock, subEquation: SubEquation } | null {
+        const block = this.getBlockByLabel(label) ?? undefined;
+        if (!EquationBlock.isEquationBlock(block) || block.$label === label) return null;
+        const subEquation = block.$subEquations.find((subEquation) => subEquation.$label === label);
+        return subEquation ? { equation: block, subEquation } : null;
+    }
+
+    /** The theorem proved by the given proof: the one linked by `\begin{proof}`@[[...]], or the preceding theorem callout in the same note. */
+    getProvedTheorem(proof: ProofBlock): TheoremCalloutBlock | null {
+        if (!proof.$linktext) {
+            return proof.$theorem === undefined ? null : this.getTheoremCalloutBlock(MarkdownBlock.readableId(proof.$file, proof.$theorem));
+        }
+
+        const label = parseLabelLinktext(proof.$linktext);
+        if (label !== null) {
+            const block = this.getBlockByLabel(label) ?? undefined;
+            return TheoremCalloutBlock.isTheoremCalloutBlock(block) ? block : null;
+        }
+
+        const resolved = resolveLinktext(this.plugin.app, proof.$linktext, proof.$file);
+        const page = resolved && this.getMarkdownPage(resolved.file.path);
+        if (!page) return null;
+        if (resolved.subpathResult?.type === 'block') {
+            const block = page.$blocks.get(resolved.subpathResult.block.id);
+            return TheoremCalloutBlock.isTheoremCalloutBlock(block) ? block : null;
+        }
+        // a link to a note refers to its main theorem
+        if (!resolved.subpathResult) {
+            for (const section of page.$sections) {
+                const main = section.$blocks.find((block): block is TheoremCalloutBlock => TheoremCalloutBlock.isTheoremCalloutBlock(block) && block.$main);
+                if (main) return main;
+            }
+        }
+        return null;
+    }
+
+    /** Get the proofs of the given theorem, in the order of the paths & the positions. */
+    getProofs(theorem: TheoremCalloutBlock): ProofBlock[] {
+        return this.getProofMap().get(theorem.$id) ?? [];
+    }
+
+    /** Get the theorems of the provable types (theorem, lemma, etc.) that have no proofs, in the order of the paths & the positions. */
+    getUnprovedTheorems(): TheoremCalloutBlock[] {
+        const proofs = this.getProofMap();
+        return this.load([...this.getByType("block-theorem")])
+            .filter((block): block is TheoremCalloutBlock => TheoremCalloutBlock.isTheoremCalloutBlock(block))
+            .filter((theorem) => PROVABLE_ENV_IDs.includes(theorem.$settings.type) && !proofs.has(theorem.$id))
+            .sort((a, b) => a.$file.localeCompare(b.$file, undefined, { numeric: true }) || a.$position.start - b.$position.start);
+    }
+
+    private getProofMap(): Map<string, ProofBlock[]> {
+        if (this.proofMap?.revision === this.revision) return this.proofMap.proofs;
+
+        const proofs = new Map<string, ProofBlock[]>();
+        const sorted = this.load([...this.getByType("proof")])
+            .filter((proof): proof is ProofBlock => ProofBlock.isProofBlock(proof))
+            .sort((a, b) => a.$file.localeCompare(b.$file, undefined, { numeric: true }) || a.$position.start - b.$position.start);
+        for (const proof of sorted) {
+            const theorem = this.getProvedTheorem(proof);
+            if (!theorem) continue;
+            const list = proofs.get(theorem.$id);
+            if (list) list.push(proof);
+            else proofs.set(theorem.$id, [proof]);
+        }
+        this.proofMap = { revision: this.revision, proofs };
+        return proofs;
+    }
+
     getMarkdownPage(path: string): MarkdownPage | null {
         const page = this.load(path);
         return MarkdownPage.isMarkdownPage(page) ? page : null;
@@ -367,6 +630,17 @@ export class MathIndex {
     }
 }
 
+/** The labels of the given block, including those of the lines of a multi-line equation. */
+export function getLabels(block: MathBlock): string[] {
+    const labels = block.$label ? [block.$label] : [];
+    if (EquationBlock.isEquationBlock(block)) {
+        for (const subEquation of block.$subEquations) {
+            if (subEquation.$label) labels.push(subEquation.$label);
+        }
+    }
+    return labels;
+}
+
 /** A general function for storing sub-objects in a given object. */
 export type Substorer<T extends Indexable> = (
     object: T,
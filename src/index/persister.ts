@@ -0,0 +1,105 @@
+import { JsonMarkdownPage } from "./typings/json";
+import { Transferable } from "./web-worker/transferable";
+
+
+/**
+ * Simple wrapper for an IndexedDB-backed cache of the imported markdown pages.
+ * Modeled after Datacore's LocalStorageCache, but uses IndexedDB directly instead of localforage.
+ */
+export class LocalStorageCache {
+    /** The name of the object store that holds the cached pages, keyed by their paths. */
+    static STORE_NAME = "files";
+
+    private db: Promise<IDBDatabase>;
+
+    /**
+     * @param name The name of the database. It should be unique for each vault.
+     * @param version The version of the cached data. Entries with a different version are treated as invalid.
+     */
+    public constructor(public name: string, public version: string) {
+        this.db = this.open();
+    }
+
+    private open(): Promise<IDBDatabase> {
+        return new Promise((resolve, reject) => {
+            const request = indexedDB.open(this.name, 1);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(LocalStorageCache.STORE_NAME);
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    private async request<T>(mode: IDBTransactionMode, callback: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+        const db = await this.db;
+        return new Promise((resolve, reject) => {
+            const request = callback(db.transaction(LocalStorageCache.STORE_NAME, mode).objectStore(LocalStorageCache.STORE_NAME));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    /** Load the cached page for the given path, or null if it is not cached or is out-dated (i.e. of a different version). */
+    public async loadFile(path: string): Promise<Cached<JsonMarkdownPage> | null> {
+        const cached = await this.request<Cached<JsonMarkdownPage> | undefined>("readonly", (store) => store.get(path));
+        if (!cached || cached.version !== this.version) return null;
+        // Links are stored as transferable values because IndexedDB drops the prototypes of class instances
+        cached.data = Transferable.value(cached.data);
+        return cached;
+    }
+
+    /** Store the page for the given path, imported from the file content as of the given modification time. */
+    public async storeFile(path: string, mtime: number, data: JsonMarkdownPage): Promise<void> {
+        const cached: Cached<JsonMarkdownPage> = {
+            version: this.version,
+            time: mtime,
+            data: Transferable.transferable(data),
+        };
+        await this.request("readwrite", (store) => store.put(cached, path));
+    }
+
+    /** Delete the cached page for the given path. */
+    public async deleteFile(path: string): Promise<void> {
+        await this.request("readwrite", (store) => store.delete(path));
+    }
+
+    /** Obtain a list of all cached paths. */
+    public async allFiles(): Promise<string[]> {
+        return (await this.request("readonly", (store) => store.getAllKeys())) as string[];
+    }
+
+    /** Drop the cached pages for the files that no longer exist. Returns the set of dropped paths. */
+    public async synchronize(existing: string[] | Set<string>): Promise<Set<string>> {
+        if (Array.isArray(existing)) existing = new Set(existing);
+
+        const cleared = new Set<string>();
+        for (const path of await this.allFiles()) {
+            if (!existing.has(path)) {
+                await this.deleteFile(path);
+                cleared.add(path);
+            }
+        }
+        return cleared;
+    }
+
+    /** Drop all the cached pages. */
+    public async clear(): Promise<void> {
+        await this.request("readwrite", (store) => store.clear());
+    }
+
+    /** Close the connection to the database. */
+    public async close(): Promise<void> {
+        (await this.db).close();
+    }
+}
+
+/** A piece of data that has been cached for a specific version and file modification time. */
+export interface Cached<T> {
+    /** The version of the data, which must match the version of the cache. */
+    version: string;
+    /** The modification time (in milliseconds since the epoch) of the file the data was imported from. */
+    time: number;
+    /** The cached data. */
+    data: T;
+}
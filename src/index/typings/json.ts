@@ -28,6 +28,8 @@ export interface JsonMarkdownPage {
      * named with the title of the file.
      */
     $sections: JsonMarkdownSection[];
+    /** All proofs in this file, in the order of their beginning markers. */
+    $proofs?: JsonProofBlock[];
 }
 
 export interface JsonMarkdownSection {
@@ -73,10 +75,46 @@ export interface JsonTheoremCalloutBlock extends JsonMathBlock {
     $settings: MinimalTheoremCalloutSettings;
     $main: boolean;
     $v1: boolean;
+    /** The beginning of the content as plain text (math kept as is), used for full-text search. */
+    $body?: string;
 }
 
 export interface JsonEquationBlock extends JsonMathBlock {
     $type: "equation";
     $manualTag: string | null;
     $mathText: string;
+    /** The lines numbered one by one, if this is a multi-line equation like align. */
+    $subEquations?: JsonSubEquation[];
+    /**
+     * Set by `% subequations`: the ordinal of the first equation of the group numbered as (3a), (3b), ...
+     * For a multi-line equation, it's the equation itself and its lines are numbered in this way.
+     */
+    $subequationGroup?: number;
+}
+
+/** A line of a multi-line equation (e.g. align), which gets its own number like "(3-2)" if `lineByLine` is on. */
+export interface JsonSubEquation {
+    /** The position among the numbered lines, starting from 0. */
+    $index: number;
+    /** Set by `\label{...}` or `% label: ...` on the line. */
+    $label?: string;
+}
+
+/** A proof delimited by the begin/end markers (`\begin{proof}` & `\end{proof}` by default). It can span multiple markdown blocks. */
+export interface JsonProofBlock {
+    /** The index of this proof in the file. */
+    $ordinal: number;
+    /** The span of lines from the beginning marker to the ending marker. */
+    $position: LineSpan;
+    $pos: Pos;
+    /** All links in the proof. */
+    $links: Link[];
+    /** The linktext of the theorem being proved, e.g. "note#^block" for `\begin{proof}`@[[note#^block]]. */
+    $linktext?: string;
+    /** The ordinal of the last theorem callout preceding this proof in the same file. It's the theorem being proved unless $linktext is given. */
+    $theorem?: number;
+    /** The optional title, e.g. "Sketch" for `\begin{proof}[Sketch]`. */
+    $title?: string;
+    /** The beginning of the content (without the markers), used for full-text search. Its length is limited by the "theoremBodyIndexLength" setting. */
+    $body?: string;
 }
@@ -16,6 +16,8 @@ import {
     JsonMarkdownBlock,
     JsonTheoremCalloutBlock,
     JsonEquationBlock,
+    JsonSubEquation,
+    JsonProofBlock,
 } from "./json";
 import { MinimalTheoremCalloutSettings } from "settings/settings";
 import { Pos } from "obsidian";
@@ -61,9 +63,19 @@ export class MarkdownPage implements File, Linkbearing, Indexable {
      */
     $blocks: Map<string, MarkdownBlock>;
 
+    /** All proofs in this page, in the order of their beginning markers (so nested proofs come after the enclosing ones). */
+    $proofs: ProofBlock[] = [];
+
     /** $refName of the main theorem callout, if any. */
     $refName?: string
 
+    /** 
+     * The numbers of auto-numbered theorems (for each counter) and equations counted up to the end of this page, 
+     * including those carried over from the previous notes. Used for continuous numbering across notes.
+     */
+    $theoremCounts?: Record<string, number>;
+    $equationCount?: number;
+
     /** Create a markdown file from the given raw values. */
     static from(raw: JsonMarkdownPage, normalizer: LinkNormalizer = NOOP_NORMALIZER): MarkdownPage {
         const sections = raw.$sections.map((sect) => MarkdownSection.from(sect, raw.$path, normalizer));
@@ -81,6 +93,7 @@ export class MarkdownPage implements File, Linkbearing, Indexable {
             $links: raw.$links.map(normalizer),
             $sections: sections,
             $blocks: blocks,
+            $proofs: (raw.$proofs ?? []).map((proof) => ProofBlock.from(proof, raw.$path, normalizer)),
         });
     }
 
@@ -111,6 +124,7 @@ export class MarkdownPage implements File, Linkbearing, Indexable {
             $position: this.$position,
             $links: this.$links,
             $sections: this.$sections.map((sect) => sect.partial()),
+            $proofs: this.$proofs.map((proof) => proof.partial()),
         };
     }
 
@@ -120,6 +134,11 @@ export class MarkdownPage implements File, Linkbearing, Indexable {
         return block;
     }
 
+    /** The innermost proof containing the given line, if any. */
+    public getProofByLineNumber(line: number) {
+        return this.$proofs.filter((proof) => proof.$position.start <= line && line <= proof.$position.end).last();
+    }
+
     public getBlockByOffset(offset: number) {
         for (const section of this.$sections) {
             for (const block of section.$blocks) {
@@ -292,12 +311,16 @@ export abstract class MathBlock extends MarkdownBlock {
     abstract $printName: string | null;
     // declaring as abstract to treat like an interface
     $refName: string | null;
+    /** The number used in grouped references, e.g. "1.2" for "Theorem 1.2" and "(3)" for equation (3). Empty if not numbered. */
+    $number: string;
 
     /** Additional metadata specified via comments */
     $label?: string;
     $display?: string;
-    // set if this block is auto-numbered. This is the index of this block among all auto-numbered blocks in the file
+    // set if this block is auto-numbered. This is the index of this block among all auto-numbered blocks in the file sharing the same counter (and heading, if numbered within headings)
     $index?: number;
+    // set if this block is numbered within headings. This is the number of the heading containing this block (0 if it precedes all the headings)
+    $section?: number;
 
     static isMathBlock(object: Indexable | undefined): object is MathBlock {
         return object !== undefined && object.$types.includes('block-math-booster');
@@ -344,6 +367,9 @@ export class TheoremCalloutBlock extends MathBlock implements Linkbearing {
     /** Additional metadata specified via comments */
     $main: boolean;
 
+    /** The beginning of the content as plain text (math kept as is), used for full-text search. */
+    $body?: string;
+
     static from(
         object: JsonTheoremCalloutBlock,
         file: string,
@@ -367,6 +393,7 @@ export class TheoremCalloutBlock extends MathBlock implements Linkbearing {
             $display: object.$display,
             $main: object.$main,
             $v1: object.$v1,
+            $body: object.$body,
         });
     }
 
@@ -377,6 +404,7 @@ export class TheoremCalloutBlock extends MathBlock implements Linkbearing {
             $display: this.$display,
             $main: this.$main,
             $v1: this.$v1,
+            $body: this.$body,
         });
     }
 
@@ -389,6 +417,12 @@ export class TheoremCalloutBlock extends MathBlock implements Linkbearing {
     }
 }
 
+/** A line of a multi-line equation. $printName and $refName are computed in the same way as those of the equation. */
+export interface SubEquation extends JsonSubEquation {
+    $printName: string | null;
+    $refName: string | null;
+}
+
 export class EquationBlock extends MathBlock {
     static TYPES = ["markdown", "block", "block-math-booster", "block-equation"];
 
@@ -400,6 +434,10 @@ export class EquationBlock extends MathBlock {
     /** The math text of this equation. */
     $mathText: string;
     $manualTag: string | null;
+    /** The lines numbered one by one, if this is a multi-line equation like align. */
+    $subEquations: SubEquation[] = [];
+    /** The ordinal of the first equation of the `% subequations` group containing this equation, if any. */
+    $subequationGroup?: number;
 
     static from(
         object: JsonEquationBlock,
@@ -421,6 +459,8 @@ export class EquationBlock extends MathBlock {
             $type: object.$type,
             $mathText: object.$mathText,
             $manualTag: object.$manualTag,
+            $subEquations: (object.$subEquations ?? []).map((subEquation) => ({ ...subEquation, $printName: null, $refName: null })),
+            $subequationGroup: object.$subequationGroup,
             $label: object.$label,
             $display: object.$display,
         });
@@ -430,6 +470,8 @@ export class EquationBlock extends MathBlock {
         return Object.assign(super.partial(), {
             $mathText: this.$mathText,
             $manualTag: this.$manualTag,
+            $subEquations: this.$subEquations.map(({ $index, $label }) => ({ $index, $label })),
+            $subequationGroup: this.$subequationGroup,
             $label: this.$label,
             $display: this.$display,
         });
@@ -443,3 +485,70 @@ export class EquationBlock extends MathBlock {
         return object !== undefined && object.$types.includes('block-equation');
     }
 }
+
+/** A proof delimited by the begin/end markers. Unlike the other blocks, it can span multiple markdown blocks. */
+export class ProofBlock implements Indexable, Linkbearing {
+    static TYPES = ["markdown", "proof", LINKBEARING_TYPE];
+
+    $types: string[] = ProofBlock.TYPES;
+    $typename = "Proof";
+    $id: string;
+    $file: string;
+
+    /** The index of this proof in the file. */
+    $ordinal: number;
+    /** The span of lines from the beginning marker to the ending marker. */
+    $position: LineSpan;
+    $pos: Pos;
+    /** All links in the proof. */
+    $links: Link[];
+    /** The linktext of the theorem being proved, e.g. "note#^block" for `\begin{proof}`@[[note#^block]]. */
+    $linktext?: string;
+    /** The ordinal of the last theorem callout preceding this proof in the same file. It's the theorem being proved unless $linktext is given. */
+    $theorem?: number;
+    /** The optional title, e.g. "Sketch" for `\begin{proof}[Sketch]`. */
+    $title?: string;
+    /** The beginning of the content, used for full-text search. */
+    $body?: string;
+
+    static from(object: JsonProofBlock, file: string, normalizer: LinkNormalizer = NOOP_NORMALIZER): ProofBlock {
+        return new ProofBlock({
+            $file: file,
+            $id: ProofBlock.readableId(file, object.$ordinal),
+            $ordinal: object.$ordinal,
+            $position: object.$position,
+            $pos: object.$pos,
+            $links: object.$links.map(normalizer),
+            $linktext: object.$linktext,
+            $theorem: object.$theorem,
+            $title: object.$title,
+            $body: object.$body,
+        });
+    }
+
+    private constructor(init: Partial<ProofBlock>) {
+        Object.assign(this, init);
+    }
+
+    public partial(): JsonProofBlock {
+        return {
+            $ordinal: this.$ordinal,
+            $position: this.$position,
+            $pos: this.$pos,
+            $links: this.$links,
+            $linktext: this.$linktext,
+            $theorem: this.$theorem,
+            $title: this.$title,
+            $body: this.$body,
+        };
+    }
+
+    /** Generate a readable ID for this proof using the ordinal of the proof. */
+    static readableId(file: string, ordinal: number): string {
+        return `${file}/proof${ordinal}`;
+    }
+
+    static isProofBlock(object: Indexable | undefined): object is ProofBlock {
+        return object !== undefined && object.$types.includes('proof');
+    }
+}
@@ -5,6 +5,7 @@ import LatexReferencer from 'main';
 import { Transferable } from "./transferable";
 import ImportWorker from "index/web-worker/importer.worker";
 import { ImportCommand } from "./message";
+import { resolveSettings } from "utils/plugin";
 
 /** Settings for throttling import. */
 export interface ImportThrottle {
@@ -82,6 +83,7 @@ export class MathImporter extends Component {
         const [file, resolve, reject] = this.queue.shift()!;
 
         worker.active = [file, resolve, reject, Date.now()];
+        const { beginProof, endProof } = resolveSettings(undefined, this.plugin, file);
         this.vault.cachedRead(file).then((c) =>
             worker!.worker.postMessage(
                 Transferable.transferable({
@@ -90,6 +92,9 @@ export class MathImporter extends Component {
                     contents: c,
                     metadata: this.metadataCache.getFileCache(file),
                     excludeExampleCallout: this.plugin.extraSettings.excludeExampleCallout,
+                    theoremLikeEnvs: this.plugin.extraSettings.theoremLikeEnvs,
+                    proofMarkers: { beginProof, endProof },
+                    theoremBodyIndexLength: this.plugin.extraSettings.theoremBodyIndexLength,
                 } as ImportCommand)
             )
         );
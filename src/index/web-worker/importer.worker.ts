@@ -8,7 +8,7 @@ onmessage = (event) => {
         const message = Transferable.value(event.data) as ImportCommand;
 
         if (message.type === "markdown") {
-            const markdown = markdownImport(message.path, message.contents, message.metadata, message.excludeExampleCallout);
+            const markdown = markdownImport(message.path, message.contents, message.metadata, message.theoremLikeEnvs, message.excludeExampleCallout, message.proofMarkers, message.theoremBodyIndexLength);
 
             postMessage(
                 Transferable.transferable({
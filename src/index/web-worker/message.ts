@@ -1,5 +1,6 @@
 import { JsonMarkdownPage } from "index/typings/json";
 import { CachedMetadata, FileStats } from "obsidian";
+import { TheoremLikeEnv } from "env";
 
 /** A command to import a markdown file. */
 export interface MarkdownImport {
@@ -14,6 +15,12 @@ export interface MarkdownImport {
     /** Metadata for the file. */
     metadata: CachedMetadata;
     excludeExampleCallout: boolean;
+    /** The theorem-like environments registered in the plugin settings. */
+    theoremLikeEnvs: TheoremLikeEnv[];
+    /** The beginning/ending markers of proofs, resolved for this file. */
+    proofMarkers: { beginProof: string, endProof: string };
+    /** The number of characters of each theorem callout's content to index. */
+    theoremBodyIndexLength: number;
 }
 
 
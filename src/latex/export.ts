@@ -0,0 +1,687 @@
+import { Notice, TAbstractFile, TFile, TFolder, normalizePath } from 'obsidian';
+
+import LatexReferencer from 'main';
+import { MathIndex } from 'index/math-index';
+import { EquationBlock, MathBlock, TheoremCalloutBlock } from 'index/typings/markdown';
+import { MathContextSettings, MinimalTheoremCalloutSettings } from 'settings/settings';
+import { formatLabel, formatTheoremCalloutType } from 'utils/format';
+import { LABEL_LINK_PREFIX, parseLabelLinktext, parseLatexComment, parseMathEnvironment, splitIntoMathRows, parseMarkdownComment, parseProofCalloutHeader, parseTheoremCounters, parseYamlLike, readTheoremCalloutSettings, trimMathText } from 'utils/parse';
+import { getLabelRefName, getNoteSequence, resolveSettings } from 'utils/plugin';
+import { capitalize } from 'utils/general';
+import { resolveLinktext } from 'utils/obsidian';
+import { ReferenceForm, formatCleverefGroup, getReferenceForm, getTheoremNames, resolveCleverefTarget } from 'cleveref/common';
+
+
+/** LaTeX sectioning commands, from the highest level to the lowest. */
+const SECTION_COMMANDS = ["section", "subsection", "subsubsection", "paragraph", "subparagraph"];
+
+/** amsmath environments for display math. Equations written in one of these are exported as they are. */
+const DISPLAY_MATH_ENVS = ["equation", "align", "gather", "multline", "flalign", "alignat", "eqnarray"];
+
+/** amsthm styles of the built-in environments. The other environments (including user-defined ones) use the "plain" style. */
+const THEOREM_STYLES: Record<string, "definition" | "remark"> = {
+    axiom: "definition",
+    definition: "definition",
+    assumption: "definition",
+    hypothesis: "definition",
+    example: "definition",
+    exercise: "definition",
+    remark: "remark",
+};
+
+const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "gif", "bmp", "svg", "pdf"];
+
+const LATEX_SPECIAL_CHARS: Record<string, string> = {
+    "\\": "\\textbackslash{}",
+    "{": "\\{",
+    "}": "\\}",
+    "&": "\\&",
+    "%": "\\%",
+    "$": "\\$",
+    "#": "\\#",
+    "_": "\\_",
+    "~": "\\textasciitilde{}",
+    "^": "\\textasciicircum{}",
+};
+
+/** Inline Markdown syntaxes to be converted. Everything else is treated as plain text. */
+const INLINE_PATTERN = new RegExp([
+    /(?<code>`+)(?<codeText>.+?)\k<code>(?:@\[\[(?<atLinktext>[^\]]+)\]\](?<moreLinktexts>(?:\s*,\s*\[\[[^\]]+\]\])*))?/.source,
+    /\$(?!\s)(?<math>(?:\\.|[^$\\])+?)\$/.source,
+    /\\ref\{(?<refLabel>[^{}]+)\}/.source,
+    /!\[\[(?<embed>[^\]]+)\]\]/.source,
+    /\[\[(?<linktext>[^\]]+)\]\]/.source,
+    /\[(?<mdText>[^\]]*)\]\((?<mdTarget>[^)\s]+)\)/.source,
+    /\*\*(?<bold>.+?)\*\*/.source,
+    /__(?<bold2>.+?)__/.source,
+    /\*(?<em>[^*\s][^*]*?)\*/.source,
+    /(?<![A-Za-z0-9])_(?<em2>[^_\s][^_]*?)_(?![A-Za-z0-9])/.source,
+    /==(?<mark>.+?)==/.source,
+    /~~(?<strike>.+?)~~/.source,
+].join('|'), 'g');
+
+/** The state while converting a note. */
+interface ExportContext {
+    file: TFile;
+    settings: Required<MathContextSettings>;
+    /** Maps a line number to the theorem callout or the equation starting at that line. Only top-level blocks are indexed. */
+    blocks: Map<number, MathBlock>;
+    /** Added to the level of each heading. 1 when each note is exported as a section. */
+    headingOffset: number;
+}
+
+
+/**
+ * Converts notes into a compilable LaTeX document, using the theorem callout & equation metadata stored in the index.
+ * The numbering (counters, number within headings) and the environment names follow the local settings
+ * of the exported note (or folder) and its profile.
+ */
+export class LatexExporter {
+    index: MathIndex;
+    /** The paths of the notes included in the document being exported. Links to other notes are left as plain text. */
+    exportedPaths: Set<string> = new Set();
+    /** The folder where the .tex file is written. Images are included by paths relative to it. */
+    outputFolder = '';
+    /** The environments with manually numbered theorems (e.g. "> [!theorem|A]") in the document being exported. */
+    manualNumberEnvs: Set<string> = new Set();
+
+    constructor(public plugin: LatexReferencer) {
+        this.index = plugin.indexManager.index;
+    }
+
+    /** Export the given note into a .tex file with the same name in the same folder. */
+    async exportFile(file: TFile): Promise<TFile> {
+        this.outputFolder = file.parent?.path ?? '';
+        const tex = await this.convertDocument(file, [file], 0);
+        return this.writeTexFile(file.parent, file.basename, tex);
+    }
+
+    /** Export the notes in the given folder into a single .tex file, where each note becomes a section. */
+    async exportFolder(folder: TFolder): Promise<TFile> {
+        this.outputFolder = folder.path;
+        const tex = await this.convertDocument(folder, this.getNotesInFolder(folder), 1);
+        return this.writeTexFile(folder, folder.isRoot() ? this.plugin.app.vault.getName() : folder.name, tex);
+    }
+
+    /** Notes numbered continuously come first (in their order), followed by the others sorted by name. */
+    getNotesInFolder(folder: TFolder): TFile[] {
+        const sequence = getNoteSequence(this.plugin, folder);
+        const others = folder.children
+            .filter((child): child is TFile => child instanceof TFile && child.extension === "md" && !sequence.includes(child))
+            .sort((a, b) => a.basename.localeCompare(b.basename, undefined, { numeric: true }));
+        return [...sequence, ...others];
+    }
+
+    async writeTexFile(folder: TFolder | null, name: string, tex: string): Promise<TFile> {
+        const { vault } = this.plugin.app;
+        const path = normalizePath(`${folder?.path ?? ''}/${name}.tex`);
+        const existing = vault.getAbstractFileByPath(path);
+        if (existing instanceof TFile) {
+            await vault.modify(existing, tex);
+            return existing;
+        }
+        return vault.create(path, tex);
+    }
+
+    async convertDocument(target: TAbstractFile, files: TFile[], headingOffset: number): Promise<string> {
+        this.exportedPaths = new Set(files.map((file) => file.path));
+        this.manualNumberEnvs = new Set();
+        const settings = resolveSettings(undefined, this.plugin, target);
+
+        const body: string[] = [];
+        for (const file of files) {
+            if (headingOffset > 0) body.push(`\\section{${escapeLatex(file.basename)}}\\label{${this.getNoteLabel(file)}}`, '');
+            body.push(await this.convertNote(file, headingOffset), '');
+        }
+
+        return [
+            ...this.getPreamble(settings, headingOffset),
+            '',
+            '\\begin{document}',
+            '',
+            ...body,
+            '\\end{document}',
+            '',
+        ].join('\n');
+    }
+
+    /** The document class, packages, and \newtheorem declarations for all the theorem-like environments. */
+    getPreamble(settings: Required<MathContextSettings>, headingOffset: number): string[] {
+        const lines = [
+            '\\documentclass{article}',
+            '',
+            '\\usepackage{amsmath}',
+            '\\usepackage{amssymb}',
+            '\\usepackage{amsthm}',
+            '\\usepackage{graphicx}',
+            '\\usepackage{hyperref}',
+            '\\usepackage{cleveref}',
+            '',
+        ];
+
+        const envs = this.plugin.extraSettings.theoremLikeEnvs;
+        const counters = parseTheoremCounters(settings.theoremCounters, envs);
+        const within = settings.numberWithin > 0 ? getSectionCommand(settings.numberWithin, headingOffset) : null;
+
+        // the first environment using each counter owns it, and the others are numbered with it (\newtheorem{lemma}[theorem]{Lemma})
+        const owners: Record<string, string> = {};
+        for (const env of envs) owners[counters[env.id] ?? ''] ??= env.id;
+
+        let currentStyle = '';
+        const declare = (id: string, declaration: string) => {
+            const style = THEOREM_STYLES[id] ?? "plain";
+            if (style !== currentStyle) lines.push(`\\theoremstyle{${style}}`);
+            currentStyle = style;
+            lines.push(declaration);
+        }
+        const getName = (id: string) => escapeLatex(formatTheoremCalloutType(this.plugin, { type: id, profile: settings.profile }));
+
+        // owners must be declared before the others
+        for (const { id } of envs) {
+            if (owners[counters[id] ?? ''] === id) declare(id, `\\newtheorem{${id}}{${getName(id)}}` + (within ? `[${within}]` : ''));
+        }
+        for (const { id } of envs) {
+            const owner = owners[counters[id] ?? ''];
+            if (owner !== id) declare(id, `\\newtheorem{${id}}[${owner}]{${getName(id)}}`);
+        }
+        // unnumbered versions
+        for (const { id } of envs) declare(id, `\\newtheorem*{${id}*}{${getName(id)}}`);
+        // manually numbered versions: \begin{manualtheorem}{A}[Title] ... \end{manualtheorem} is shown as "Theorem A (Title)"
+        for (const { id } of envs) {
+            if (!this.manualNumberEnvs.has(id)) continue;
+            const name = getManualNumberEnvName(id);
+            declare(id, `\\newtheorem{${name}inner}{${getName(id)}}`);
+            lines.push(`\\newenvironment{${name}}[1]{\\renewcommand{\\the${name}inner}{#1}\\begin{${name}inner}}{\\end{${name}inner}}`);
+        }
+        lines.push('');
+
+        const profile = this.plugin.extraSettings.profiles[settings.profile];
+        for (const { id } of envs) {
+            const lowercase = getTheoremNames(profile, id, 'lowercase');
+            const capitalized = getTheoremNames(profile, id, 'capitalized');
+            lines.push(`\\crefname{${id}}{${escapeLatex(lowercase.singular)}}{${escapeLatex(lowercase.plural)}}`);
+            lines.push(`\\Crefname{${id}}{${escapeLatex(capitalized.singular)}}{${escapeLatex(capitalized.plural)}}`);
+        }
+
+        if (settings.eqNumberWithin > 0) {
+            lines.push('', `\\numberwithin{equation}{${getSectionCommand(settings.eqNumberWithin, headingOffset)}}`);
+        }
+
+        const proofName = this.plugin.extraSettings.profiles[settings.profile]?.body.proof.begin.replace(/[.:]\s*$/, '');
+        if (proofName) lines.push('', `\\renewcommand{\\proofname}{${escapeLatex(proofName)}}`);
+
+        return lines;
+    }
+
+    async convertNote(file: TFile, headingOffset: number): Promise<string> {
+        const { app } = this.plugin;
+        const lines = (await app.vault.cachedRead(file)).split('\n');
+
+        const blocks = new Map<number, MathBlock>();
+        for (const section of this.index.getMarkdownPage(file.path)?.$sections ?? []) {
+            for (const block of section.$blocks) {
+                if (MathBlock.isMathBlock(block)) blocks.set(block.$position.start, block);
+            }
+        }
+
+        // skip the frontmatter
+        const frontmatterEnd = app.metadataCache.getFileCache(file)?.frontmatterPosition?.end.line;
+        const start = frontmatterEnd === undefined ? 0 : frontmatterEnd + 1;
+
+        const context: ExportContext = { file, settings: resolveSettings(undefined, this.plugin, file), blocks, headingOffset };
+        return this.convertLines(lines.slice(start), context, start).join('\n').trim();
+    }
+
+    /**
+     * @param rawLines
+     * @param context
+     * @param lineOffset The line number of the first line in the note. null if the lines are not at the top level (e.g. inside a callout).
+     */
+    convertLines(rawLines: string[], context: ExportContext, lineOffset: number | null): string[] {
+        const lines = removeMarkdownComments(rawLines);
+        const output: string[] = [];
+
+        const lists: { indent: number, env: "itemize" | "enumerate" }[] = [];
+        const closeLists = (indent: number) => {
+            while (lists.length && lists[lists.length - 1].indent > indent) output.push(`\\end{${lists.pop()!.env}}`);
+        };
+
+        let i = 0;
+        while (i < lines.length) {
+            const line = lines[i];
+            const block = lineOffset === null ? undefined : context.blocks.get(lineOffset + i);
+
+            if (!line.trim()) {
+                // a blank line ends the lists unless followed by another item or an indented line
+                const next = lines.slice(i + 1).find((line) => line.trim());
+                if (!next || !next.match(/^\s+\S|^\s*([-*+]|\d+[.)])\s/)) closeLists(-1);
+                output.push('');
+                i++;
+                continue;
+            }
+
+            // block IDs
+            if (line.match(/^\s*\^[A-Za-z0-9-]+\s*$/)) {
+                i++;
+                continue;
+            }
+
+            // code blocks
+            const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+            if (fenceMatch) {
+                closeLists(-1);
+                let end = i + 1;
+                while (end < lines.length && !lines[end].trim().startsWith(fenceMatch[1])) end++;
+                output.push('\\begin{verbatim}', ...rawLines.slice(i + 1, end), '\\end{verbatim}');
+                i = end + 1;
+                continue;
+            }
+
+            // display math
+            if (line.trim().startsWith('$$')) {
+                closeLists(-1);
+                let end = i;
+                if (!line.trim().slice(2).includes('$$')) {
+                    end++;
+                    while (end < lines.length && !lines[end].includes('$$')) end++;
+                }
+                const mathText = trimMathText(lines.slice(i, end + 1).join('\n'));
+                output.push(...this.convertEquation(mathText, EquationBlock.isEquationBlock(block) ? block : undefined, context));
+                i = end + 1;
+                continue;
+            }
+
+            // headings
+            const headingMatch = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+            if (headingMatch) {
+                closeLists(-1);
+                const command = getSectionCommand(headingMatch[1].length, context.headingOffset);
+                const heading = headingMatch[2];
+                output.push(`\\${command}{${this.convertInline(heading, context)}}\\label{${this.getHeadingLabel(context.file, heading)}}`);
+                i++;
+                continue;
+            }
+
+            // callouts & blockquotes
+            if (line.match(/^\s*>/)) {
+                closeLists(-1);
+                let end = i;
+                while (end + 1 < lines.length && lines[end + 1].match(/^\s*>/)) end++;
+                output.push(...this.convertCallout(rawLines.slice(i, end + 1), TheoremCalloutBlock.isTheoremCalloutBlock(block) ? block : undefined, context));
+                i = end + 1;
+                continue;
+            }
+
+            // tables
+            if (line.match(/^\s*\|/)) {
+                closeLists(-1);
+                let end = i;
+                while (end + 1 < lines.length && lines[end + 1].match(/^\s*\|/)) end++;
+                output.push('\\begin{verbatim}', ...lines.slice(i, end + 1), '\\end{verbatim}');
+                i = end + 1;
+                continue;
+            }
+
+            // horizontal rules
+            if (line.match(/^\s*([-*_])(\s*\1){2,}\s*$/)) {
+                closeLists(-1);
+                output.push('\\par\\noindent\\rule{\\linewidth}{0.4pt}\\par');
+                i++;
+                continue;
+            }
+
+            // list items
+            const listMatch = line.match(/^(\s*)([-*+]|\d+[.)])\s+(?:\[.\]\s+)?(.*)$/);
+            if (listMatch) {
+                const indent = listMatch[1].replace(/\t/g, '    ').length;
+                const env = listMatch[2].match(/\d/) ? "enumerate" : "itemize";
+                closeLists(indent);
+                const top = lists[lists.length - 1];
+                if (!top || top.indent < indent) {
+                    lists.push({ indent, env });
+                    output.push(`\\begin{${env}}`);
+                }
+                output.push(`\\item ${this.convertInline(listMatch[3], context)}`);
+                i++;
+                continue;
+            }
+
+            // paragraphs (or continuation lines of list items)
+            if (!line.match(/^\s/)) closeLists(-1);
+            output.push(this.convertInline(line.trim(), context));
+            i++;
+        }
+
+        closeLists(-1);
+        return output;
+    }
+
+    /** Convert a callout (or a blockquote) given as lines starting with ">". */
+    convertCallout(lines: string[], block: TheoremCalloutBlock | undefined, context: ExportContext): string[] {
+        const { theoremLikeEnvs, excludeExampleCallout } = this.plugin.extraSettings;
+        const body = lines.slice(1).map((line) => line.replace(/^\s*>\s?/, ''));
+
+        const settings: MinimalTheoremCalloutSettings | undefined = block?.$settings ?? readTheoremCalloutSettings(lines[0], theoremLikeEnvs, excludeExampleCallout);
+        if (settings) {
+            let label: string | null;
+            if (block) {
+                label = this.getLabel(block);
+            } else {
+                // not indexed: read the label from the Markdown comments as in the index
+                const metadata: Record<string, string | undefined> = {};
+                for (const comment of parseMarkdownComment(body.join('\n'))) Object.assign(metadata, parseYamlLike(comment));
+                label = this.getTheoremLabel(context.file, settings, metadata.label);
+            }
+
+            // a manual number is kept by a helper environment; cleveref is told the type since the counter belongs to the helper
+            const manual = settings.number !== '' && settings.number !== 'auto';
+            if (manual) this.manualNumberEnvs.add(settings.type);
+            const envName = manual ? getManualNumberEnvName(settings.type) : settings.number === '' ? `${settings.type}*` : settings.type;
+            const number = manual ? `{${escapeLatex(settings.number)}}` : '';
+            const title = settings.title ? `[${this.convertInline(settings.title, context)}]` : '';
+            const labelCommand = label ? `\\label${manual ? `[${settings.type}]` : ''}{${label}}` : '';
+            return [
+                `\\begin{${envName}}${number}${title}${labelCommand}`,
+                ...this.convertLines(body, context, null),
+                `\\end{${envName}}`,
+            ];
+        }
+
+        // > [!proof] and > [!solution]
+        const proofHeader = this.plugin.extraSettings.enableProof ? parseProofCalloutHeader(lines[0].trimStart()) : null;
+        if (proofHeader) {
+            let begin = '\\begin{proof}';
+            if (proofHeader.linktext !== undefined) {
+                const prefix = proofHeader.type === 'proof' ? this.getLinkedProofPrefix(context) : `${capitalize(proofHeader.type)} of `;
+                begin += `[${escapeLatex(prefix)}${this.convertLink(proofHeader.linktext, context)}]`;
+            } else if (proofHeader.title !== undefined) {
+                begin += `[${this.convertInline(proofHeader.title, context)}]`;
+            } else if (proofHeader.type !== 'proof') {
+                begin += `[${capitalize(proofHeader.type)}]`;
+            }
+            return [begin, ...this.convertLines(body, context, null), '\\end{proof}'];
+        }
+
+        // other callouts & blockquotes
+        const calloutMatch = lines[0].match(/^\s*>\s*\[!.+?\][+-]?\s*(.*)$/);
+        const output = ['\\begin{quote}'];
+        if (calloutMatch) {
+            if (calloutMatch[1]) output.push(`\\textbf{${this.convertInline(calloutMatch[1], context)}}\\par`);
+        } else {
+            body.unshift(lines[0].replace(/^\s*>\s?/, ''));
+        }
+        output.push(...this.convertLines(body, context, null), '\\end{quote}');
+        return output;
+    }
+
+    convertEquation(mathText: string, block: EquationBlock | undefined, context: ExportContext): string[] {
+        let label: string | null;
+        let numbered: boolean;
+        if (block) {
+            label = this.getLabel(block);
+            numbered = block.$printName !== null || !!block.$label;
+        } else {
+            // not indexed: read the label from the LaTeX comments as in the index
+            const metadata: Record<string, string | undefined> = {};
+            for (const line of mathText.split('\n')) {
+                const { comment } = parseLatexComment(line);
+                if (comment) Object.assign(metadata, parseYamlLike(comment));
+            }
+            label = this.getEquationLabel(context.file, metadata.label);
+            numbered = !!label || !!mathText.match(/\\tag\{/);
+        }
+        const labelCommand = numbered && label ? `\\label{${label}}` : '';
+        if (block?.$subEquations.some((subEquation) => subEquation.$label)) mathText = this.labelSubEquations(mathText, block, context);
+
+        const envMatch = mathText.match(/^\\begin\{(?<name>[a-z]+)(?<star>\*?)\}(\{[^}]*\})?/);
+        if (envMatch && DISPLAY_MATH_ENVS.includes(envMatch.groups!.name)) {
+            const { name, star } = envMatch.groups!;
+            let text = mathText;
+            if (!numbered && !star) {
+                text = text.replace(`\\begin{${name}}`, `\\begin{${name}*}`).replace(new RegExp(`\\\\end\\{${name}\\}(?![\\s\\S]*\\\\end\\{${name}\\})`), `\\end{${name}*}`);
+            } else if (labelCommand) {
+                text = envMatch[0] + labelCommand + text.slice(envMatch[0].length);
+            }
+            return text.split('\n');
+        }
+
+        if (numbered) return [`\\begin{equation}${labelCommand}`, mathText, '\\end{equation}'];
+        return ['\\[', mathText, '\\]'];
+    }
+
+    /** Put `\label{...}` on each labeled line of a multi-line equation, replacing `% label: ...` and `\label{...}` written by the user. */
+    labelSubEquations(mathText: string, block: EquationBlock, context: ExportContext): string {
+        const env = parseMathEnvironment(mathText);
+        if (!env) return mathText;
+        const rows = splitIntoMathRows(env.body);
+        rows.filter((row) => row.numbered).forEach((row, index) => {
+            const subLabel = block.$subEquations.find((subEquation) => subEquation.$index === index)?.$label;
+            const label = subLabel && this.getEquationLabel(context.file, subLabel);
+            if (label) row.text = row.text.replace(/\\label\{[^{}]*\}/g, '').trimEnd() + ` \\label{${label}}`;
+        });
+        return env.begin + rows.map((row) => row.text).join('\\\\') + env.end;
+    }
+
+    convertInline(text: string, context: ExportContext): string {
+        let result = '';
+        let last = 0;
+        for (const match of text.matchAll(INLINE_PATTERN)) {
+            result += escapeMarkdownText(text.slice(last, match.index));
+            result += this.convertInlineSyntax(match.groups!, context);
+            last = match.index! + match[0].length;
+        }
+        result += escapeMarkdownText(text.slice(last));
+        return result;
+    }
+
+    convertInlineSyntax(groups: Record<string, string | undefined>, context: ExportContext): string {
+        const { codeText, atLinktext, moreLinktexts, math, refLabel, embed, linktext, mdText, mdTarget, bold, bold2, em, em2, mark, strike } = groups;
+
+        if (codeText !== undefined) {
+            const form = getReferenceForm(codeText);
+            if (form && atLinktext !== undefined) {
+                const linktexts = [atLinktext, ...[...(moreLinktexts ?? '').matchAll(/\[\[([^\]]+)\]\]/g)].map((match) => match[1])];
+                return this.convertCleveref(linktexts.map((linktext) => linktext.split('|')[0]), form, context);
+            }
+            const proof = this.convertProofMarker(codeText, atLinktext, context);
+            if (proof !== null) return proof + this.convertInline(moreLinktexts ?? '', context);
+            const code = `\\texttt{${escapeLatex(codeText)}}`;
+            const link = atLinktext === undefined ? '' : '@' + this.convertLink(atLinktext, context);
+            return code + link + this.convertInline(moreLinktexts ?? '', context);
+        }
+        if (math !== undefined) return `$${math}$`;
+        if (refLabel !== undefined) return this.convertLink(LABEL_LINK_PREFIX + refLabel.trim(), context);
+        if (embed !== undefined) return this.convertEmbed(embed, context);
+        if (linktext !== undefined) return this.convertLink(linktext, context);
+        if (mdTarget !== undefined) {
+            if (mdTarget.match(/^[a-z][a-z0-9+.-]*:/i)) {
+                return `\\href{${mdTarget.replace(/[%#]/g, '\\$&')}}{${this.convertInline(mdText ?? '', context)}}`;
+            }
+            return this.convertLink(decodeURI(mdTarget) + (mdText ? '|' + mdText : ''), context);
+        }
+        if (bold !== undefined || bold2 !== undefined) return `\\textbf{${this.convertInline((bold ?? bold2)!, context)}}`;
+        if (em !== undefined || em2 !== undefined) return `\\emph{${this.convertInline((em ?? em2)!, context)}}`;
+        return this.convertInline((mark ?? strike)!, context);
+    }
+
+    /** Convert `\begin{proof}`, `\begin{proof}[Title]`, `\begin{proof}`@[[link]] and `\end{proof}` (or whatever set in the local settings). */
+    convertProofMarker(codeText: string, atLinktext: string | undefined, context: ExportContext): string | null {
+        if (!this.plugin.extraSettings.enableProof) return null;
+        const { beginProof, endProof } = context.settings;
+
+        if (codeText === endProof) return '\\end{proof}';
+        if (!codeText.startsWith(beginProof)) return null;
+
+        const rest = codeText.slice(beginProof.length);
+        if (!rest) {
+            if (atLinktext === undefined) return '\\begin{proof}';
+            return `\\begin{proof}[${escapeLatex(this.getLinkedProofPrefix(context))}${this.convertLink(atLinktext, context)}]`;
+        }
+        const displayMatch = rest.match(/^\[(.*)\]$/);
+        if (displayMatch) return `\\begin{proof}[${this.convertInline(displayMatch[1], context)}]`;
+        return null;
+    }
+
+    /** The title of a proof of a linked theorem before the link, e.g. "Proof of ". */
+    getLinkedProofPrefix(context: ExportContext): string {
+        return this.plugin.extraSettings.profiles[context.settings.profile]?.body.proof.linkedBeginPrefix ?? '';
+    }
+
+    /** Convert `\Cref`@[[link 1]], [[link 2]], ... into \Cref{label 1,label 2,...}, or into the displayed text if any of the targets is not exported. */
+    convertCleveref(linktexts: string[], form: ReferenceForm, context: ExportContext): string {
+        const labels = linktexts.map((linktext) => {
+            const block = resolveCleverefTarget(this.plugin, linktext, context.file.path);
+            return block && this.exportedPaths.has(block.$file) ? this.getLinkTargetLabel(block, linktext) : null;
+        });
+        // LaTeX has no counterpart of abbreviations, so \crefabbr is exported as \cref
+        if (labels.every((label): label is string => !!label)) return `${form === 'capitalized' ? '\\Cref' : '\\cref'}{${labels.join(',')}}`;
+
+        const parts = formatCleverefGroup(this.plugin, linktexts, context.file.path, this.plugin.extraSettings.profiles[context.settings.profile], form);
+        return escapeLatex(parts.map((part) => typeof part === 'string' ? part : part.text).join(''));
+    }
+
+    /** Convert a wikilink to \cref/\eqref if the target is in the exported document, or to its displayed text otherwise. */
+    convertLink(linktext: string, context: ExportContext): string {
+        const separatorIndex = linktext.indexOf('|');
+        const target = separatorIndex >= 0 ? linktext.slice(0, separatorIndex) : linktext;
+        const alias = separatorIndex >= 0 ? linktext.slice(separatorIndex + 1) : undefined;
+        const form = alias !== undefined ? getReferenceForm(alias.trim()) : null;
+        if (form) return this.convertCleveref([target], form, context);
+
+        // label-based links, e.g. [[@thm:cauchy-schwarz]]
+        const targetLabel = parseLabelLinktext(target);
+        if (targetLabel !== null) {
+            const block = this.index.getBlockByLabel(targetLabel);
+            const label = block && this.getLinkTargetLabel(block, target);
+            if (block && label && this.exportedPaths.has(block.$file)) {
+                return alias ? `\\hyperref[${label}]{${this.convertInline(alias, context)}}` : `${EquationBlock.isEquationBlock(block) ? '\\eqref' : '\\cref'}{${label}}`;
+            }
+            return this.convertInline(alias ?? getLabelRefName(this.plugin, targetLabel) ?? targetLabel, context);
+        }
+
+        let fallback = target.replace(/#\^?/g, ' > ').replace(/^ > /, '');
+        const resolved = resolveLinktext(this.plugin.app, target, context.file.path);
+        if (resolved) {
+            let label: string | null = null;
+            let ref = '\\cref';
+            const { file, subpathResult } = resolved;
+            if (subpathResult?.type === 'block') {
+                const block = this.index.getMarkdownPage(file.path)?.$blocks.get(subpathResult.block.id);
+                if (MathBlock.isMathBlock(block)) {
+                    label = this.getLabel(block);
+                    if (EquationBlock.isEquationBlock(block)) ref = '\\eqref';
+                    fallback = block.$display ?? block.$refName ?? fallback;
+                }
+            } else if (subpathResult?.type === 'heading') {
+                label = this.getHeadingLabel(file, subpathResult.current.heading);
+            } else if (context.headingOffset > 0) {
+                label = this.getNoteLabel(file);
+            }
+
+            if (label && this.exportedPaths.has(file.path)) {
+                return alias ? `\\hyperref[${label}]{${this.convertInline(alias, context)}}` : `${ref}{${label}}`;
+            }
+        }
+
+        return this.convertInline(alias ?? fallback, context);
+    }
+
+    convertEmbed(linktext: string, context: ExportContext): string {
+        const target = linktext.split('|')[0];
+        const resolved = resolveLinktext(this.plugin.app, target, context.file.path);
+        if (resolved && IMAGE_EXTENSIONS.includes(resolved.file.extension.toLowerCase())) {
+            return `\\includegraphics[width=\\linewidth]{${getRelativePath(this.outputFolder, resolved.file.path)}}`;
+        }
+        return this.convertLink(linktext, context);
+    }
+
+    /** Same as `getLabel`, except that a label-based link to a line of a multi-line equation gets the label of that line. */
+    getLinkTargetLabel(block: MathBlock, linktext: string): string | null {
+        const label = parseLabelLinktext(linktext);
+        const subEquation = label !== null ? this.index.getSubEquationByLabel(label)?.subEquation : undefined;
+        const file = this.plugin.app.vault.getAbstractFileByPath(block.$file);
+        if (subEquation && file instanceof TFile) return this.getEquationLabel(file, subEquation.$label);
+        return this.getLabel(block);
+    }
+
+    getLabel(block: MathBlock): string | null {
+        const file = this.plugin.app.vault.getAbstractFileByPath(block.$file);
+        if (!(file instanceof TFile)) return null;
+        if (TheoremCalloutBlock.isTheoremCalloutBlock(block)) return this.getTheoremLabel(file, block.$settings, block.$label, block.$blockId);
+        if (EquationBlock.isEquationBlock(block)) return this.getEquationLabel(file, block.$label, block.$blockId);
+        return null;
+    }
+
+    /** The label set by "%% label: ... %%" (e.g. "thm:foo"), or generated from the block ID if it has one. */
+    getTheoremLabel(file: TFile, settings: MinimalTheoremCalloutSettings, label?: string, blockId?: string): string | null {
+        label = label ?? blockId;
+        if (!label) return null;
+        return formatLabel(this.plugin, Object.assign(resolveSettings(settings, this.plugin, file), { label })) ?? null;
+    }
+
+    /** The label set by "% label: ..." (e.g. "eq:foo"), or generated from the block ID if it has one. */
+    getEquationLabel(file: TFile, label?: string, blockId?: string): string | null {
+        label = label ?? blockId;
+        if (!label) return null;
+        const { labelPrefix } = resolveSettings(undefined, this.plugin, file);
+        return labelPrefix + (label.startsWith('eq:') ? label : 'eq:' + label);
+    }
+
+    getHeadingLabel(file: TFile, heading: string): string {
+        return `${this.getNoteLabel(file)}:${toLabel(heading)}`;
+    }
+
+    getNoteLabel(file: TFile): string {
+        return `sec:${toLabel(file.basename)}`;
+    }
+}
+
+
+/** Export the given note or folder to a .tex file and notify the user of the result. */
+export async function exportToLatex(plugin: LatexReferencer, file: TAbstractFile) {
+    const exporter = new LatexExporter(plugin);
+    try {
+        const texFile = file instanceof TFolder ? await exporter.exportFolder(file) : file instanceof TFile ? await exporter.exportFile(file) : null;
+        if (texFile) new Notice(`${plugin.manifest.name}: Exported to ${texFile.path}`);
+    } catch (err) {
+        new Notice(`${plugin.manifest.name}: Failed to export ${file.path} to LaTeX. See the console for details.`, 5000);
+        console.error(err);
+    }
+}
+
+/** The environment for manually numbered theorems of the given type. Only letters are allowed since it's also used in a command name. */
+function getManualNumberEnvName(id: string): string {
+    return `manual${id.replace(/[^A-Za-z]/g, '')}`;
+}
+
+/** The path of a file relative to the given folder, e.g. "../images/fig.png". Both are given relative to the vault root. */
+function getRelativePath(folder: string, path: string): string {
+    const from = folder.split('/').filter((part) => part);
+    const to = path.split('/').filter((part) => part);
+    let common = 0;
+    while (common < from.length && common < to.length - 1 && from[common] === to[common]) common++;
+    return [...Array(from.length - common).fill('..'), ...to.slice(common)].join('/');
+}
+
+function getSectionCommand(level: number, headingOffset: number): string {
+    return SECTION_COMMANDS[Math.min(Math.max(level - 1 + headingOffset, 0), SECTION_COMMANDS.length - 1)];
+}
+
+/** Make the given text safe to be used as (a part of) a label. */
+function toLabel(text: string): string {
+    return text.trim().replace(/[\s\\{}%#$&~^_,|[\]]+/g, '-');
+}
+
+export function escapeLatex(text: string): string {
+    return text.replace(/[\\{}&%$#_~^]/g, (char) => LATEX_SPECIAL_CHARS[char]);
+}
+
+/** Escape plain Markdown text, taking care of Markdown's backslash escapes (e.g. "\*"). */
+function escapeMarkdownText(text: string): string {
+    return escapeLatex(text.replace(/\\([!-/:-@[-`{-~])/g, '$1'));
+}
+
+/** Remove %% comments %% (possibly spanning multiple lines) while keeping the line structure. */
+function removeMarkdownComments(lines: string[]): string[] {
+    return lines.join('\n').replace(/%%[\s\S]*?%%/g, (comment) => comment.replace(/[^\n]/g, '')).split('\n');
+}
@@ -0,0 +1,780 @@
+import { ButtonComponent, FuzzySuggestModal, Modal, Notice, Setting, TAbstractFile, TFile, TFolder, normalizePath } from 'obsidian';
+
+import LatexReferencer from 'main';
+import { findTheoremLikeEnv } from 'env';
+import { MathContextSettings } from 'settings/settings';
+import { increaseQuoteLevel, resolveSettings } from 'utils/plugin';
+
+
+/** Sectioning commands and the corresponding heading levels (when not split into notes). */
+const SECTION_LEVELS: Record<string, number> = {
+    chapter: 1,
+    section: 1,
+    subsection: 2,
+    subsubsection: 3,
+    paragraph: 4,
+    subparagraph: 5,
+};
+
+/** amsmath environments for display math. They are imported as "$$ ... $$" blocks. */
+const DISPLAY_MATH_ENVS = ["equation", "align", "gather", "multline", "flalign", "alignat", "eqnarray", "displaymath", "math"];
+
+/** Commands whose argument is kept as is, e.g. \textup{...}. Other unknown commands are simply dropped. */
+const TRANSPARENT_COMMANDS = ["text", "textup", "textrm", "textsf", "textnormal", "mbox", "underline", "textsc", "uppercase", "lowercase", "caption"];
+
+/** Commands that are dropped together with their (mandatory) arguments. */
+const IGNORED_COMMANDS: Record<string, number> = {
+    vspace: 1, hspace: 1, addtocounter: 2, setcounter: 2, setlength: 2, addcontentsline: 3, bibliographystyle: 1,
+    bibliography: 1, thispagestyle: 1, pagestyle: 1, newcommand: 2, renewcommand: 2, DeclareMathOperator: 2,
+    hypersetup: 1, graphicspath: 1, input: 1, include: 1, title: 1, author: 1, date: 1, thanks: 1, keywords: 1, subjclass: 1,
+};
+
+/** Delimits the placeholders for \ref{...}, which are resolved after all the labels are collected. */
+const REFERENCE_PLACEHOLDER = String.fromCharCode(0);
+
+/** A Markdown note being built from (a part of) the LaTeX source. */
+interface ImportedNote {
+    /** The file name without the extension. */
+    name: string;
+    /** The path without the extension, used as the linktext. */
+    path: string;
+    blocks: string[];
+}
+
+/** Where a \label{...} points to: a theorem callout (by its block ID), a heading, or a note itself. */
+interface Anchor {
+    note: ImportedNote;
+    /** The heading text, or null if the anchor is a block. An empty string means the note itself. */
+    heading: string | null;
+    blockId: string | null;
+}
+
+/** A theorem-like environment declared by \newtheorem in the LaTeX source. */
+interface LatexTheorem {
+    /** The callout type, i.e. the prefix of the corresponding theorem-like environment (e.g. "thm"). */
+    type: string;
+    /** The ID of the corresponding theorem-like environment (e.g. "theorem"). */
+    id: string;
+    starred: boolean;
+    /** The name of the LaTeX environment whose counter is shared, e.g. "thm" for \newtheorem{lem}[thm]{Lemma}. */
+    counter: string | null;
+    /** The sectioning command within which the environment is numbered, e.g. "section" for \newtheorem{thm}{Theorem}[section]. */
+    within: string | null;
+}
+
+export interface LatexImportOptions {
+    /** If true, each \section becomes a separate note in a new folder. */
+    split: boolean;
+}
+
+
+/**
+ * Converts a LaTeX source into Markdown notes with theorem callouts, display math with block IDs, and links.
+ * Theorem-like environments declared by \newtheorem are mapped to the registered theorem-like environments,
+ * and \label/\ref are turned into block IDs and wikilinks. Everything runs locally; nothing is fetched.
+ */
+export class LatexImporter {
+    /** The settings for the location where the notes are created, e.g. the profile for the theorem names. */
+    settings: Required<MathContextSettings>;
+    theorems: Map<string, LatexTheorem> = new Map();
+    /** Maps each \label{...} to the linktext (without the note path) of the corresponding block/heading. */
+    labels: Map<string, { note: ImportedNote, subpath: string }> = new Map();
+    blockIds: Set<string> = new Set();
+    notes: ImportedNote[] = [];
+    current: ImportedNote;
+    anchor: Anchor;
+    /** The number of enclosing callouts/lists. Blocks inside them are not indexed, so they cannot have their own block IDs. */
+    depth = 0;
+    sectionCount = 0;
+    appendix = false;
+    equationWithin: string | null = null;
+    /** \newtheorem declarations that could not be mapped to a registered theorem-like environment. */
+    unknownTheorems: string[] = [];
+
+    constructor(public plugin: LatexReferencer, public options: LatexImportOptions) { }
+
+    /** Import the given .tex file, or the main .tex file (the one with \begin{document}) in the given folder. */
+    async import(file: TAbstractFile): Promise<TAbstractFile> {
+        const mainFile = file instanceof TFolder ? await this.findMainFile(file) : file;
+        if (!(mainFile instanceof TFile)) throw Error(`No .tex file with \\begin{document} was found in ${file.path}.`);
+
+        const source = await this.readSource(mainFile);
+        const beginMatch = source.match(/\\begin\{document\}/);
+        const endIndex = source.search(/\\end\{document\}/);
+        const preamble = beginMatch ? source.slice(0, beginMatch.index) : '';
+        const body = beginMatch ? source.slice(beginMatch.index! + beginMatch[0].length, endIndex >= 0 ? endIndex : undefined) : source;
+
+        const titleArg = source.match(/\\title\s*(\[[^\]]*\])?\s*\{/);
+        const title = titleArg ? this.convertInline(readGroup(source, titleArg.index! + titleArg[0].length - 1).content) : '';
+        const name = sanitizeFileName(title) || mainFile.basename;
+        const parent = file instanceof TFolder ? file : mainFile.parent;
+        const dir = parent?.path ?? '';
+        this.settings = resolveSettings(undefined, this.plugin, parent ?? this.plugin.app.vault.getRoot());
+        this.parsePreamble(preamble);
+
+        let folder: TFolder | null = null;
+        if (this.options.split) {
+            const folderPath = getAvailablePath(this.plugin, normalizePath(`${dir}/${name}`), '');
+            this.startNote(folderPath, '0 ' + name);
+            this.convertBody(body);
+            this.notes = this.notes.filter((note, index) => index > 0 || note.blocks.join('').trim());
+            this.setLocalSettings(folderPath);
+            folder = await this.plugin.app.vault.createFolder(folderPath);
+        } else {
+            const path = getAvailablePath(this.plugin, normalizePath(`${dir}/${name}`), '.md').slice(0, -3);
+            this.current = { name: path.split('/').pop()!, path, blocks: [] };
+            this.notes.push(this.current);
+            this.anchor = { note: this.current, heading: '', blockId: null };
+            this.convertBody(body);
+            this.setLocalSettings(path + '.md');
+        }
+
+        await this.plugin.saveSettings();
+        const created: TFile[] = [];
+        for (const note of this.notes) {
+            created.push(await this.plugin.app.vault.create(note.path + '.md', this.resolveReferences(note)));
+        }
+
+        const target = folder ?? created[0];
+        this.plugin.indexManager.trigger('local-settings-updated', target);
+        return target;
+    }
+
+    async findMainFile(folder: TFolder): Promise<TFile | undefined> {
+        const texFiles = folder.children.filter((child): child is TFile => child instanceof TFile && child.extension === 'tex');
+        for (const file of texFiles) {
+            if ((await this.plugin.app.vault.cachedRead(file)).match(/\\begin\{document\}/)) return file;
+        }
+        return texFiles[0];
+    }
+
+    /** Read the given file with its comments removed, expanding \input{...} and \include{...} recursively. */
+    async readSource(file: TFile, depth = 0): Promise<string> {
+        const { vault } = this.plugin.app;
+        const source = removeLatexComments(await vault.cachedRead(file));
+        if (depth >= 10) return source;
+
+        let result = '';
+        let last = 0;
+        for (const match of source.matchAll(/\\(?:input|include)\s*\{([^}]+)\}/g)) {
+            result += source.slice(last, match.index);
+            last = match.index! + match[0].length;
+            let path = match[1].trim();
+            if (!path.endsWith('.tex')) path += '.tex';
+            // paths are relative to the main file, but try the file's own folder as well
+            const included = [file.parent?.path ?? '', ''].map((dir) => vault.getAbstractFileByPath(normalizePath(`${dir}/${path}`))).find((f) => f instanceof TFile);
+            result += included instanceof TFile ? await this.readSource(included, depth + 1) : '';
+        }
+        return result + source.slice(last);
+    }
+
+    parsePreamble(preamble: string) {
+        const { theoremLikeEnvs, profiles } = this.plugin.extraSettings;
+        const displayNames = profiles[this.settings.profile]?.body.theorem ?? {};
+
+        const pattern = /\\newtheorem(\*?)\s*\{([^}]+)\}\s*(?:\[([^\]]+)\])?\s*\{([^}]+)\}\s*(?:\[([^\]]+)\])?/g;
+        for (const match of preamble.matchAll(pattern)) {
+            const [, star, name, counter, title, within] = match;
+            const env = findTheoremLikeEnv(theoremLikeEnvs, name.trim())
+                ?? theoremLikeEnvs.find((env) => displayNames[env.id]?.toLowerCase() === title.trim().toLowerCase())
+                ?? findTheoremLikeEnv(theoremLikeEnvs, title.trim());
+            if (!env) this.unknownTheorems.push(name);
+            const { id, prefix } = env ?? findTheoremLikeEnv(theoremLikeEnvs, "theorem") ?? theoremLikeEnvs[0];
+            this.theorems.set(name.trim(), { type: prefix, id, starred: !!star, counter: counter?.trim() ?? null, within: within?.trim() ?? null });
+        }
+
+        this.equationWithin = preamble.match(/\\numberwithin\s*\{equation\}\s*\{([^}]+)\}/)?.[1] ?? null;
+    }
+
+    /** Reproduce the numbering of the LaTeX source using the local settings for the imported note/folder. */
+    setLocalSettings(path: string) {
+        const local: Partial<MathContextSettings> = {};
+
+        // shared counters, e.g. \newtheorem{lem}[thm]{Lemma} -> "theorem, lemma: thm"
+        const counters: Record<string, string[]> = {};
+        for (const [name, theorem] of this.theorems) {
+            if (theorem.starred) continue;
+            const counter = theorem.counter ?? name;
+            const ids = counters[counter] ??= [];
+            if (!ids.includes(theorem.id)) ids.push(theorem.id);
+        }
+        local.theoremCounters = Object.entries(counters).map(([counter, ids]) => `${ids.join(', ')}: ${counter}`).join('; ');
+
+        const within = [...this.theorems.values()].find((theorem) => theorem.within)?.within;
+        if (this.options.split) {
+            // each note is a section, and the number prefix is inferred from the note name (e.g. "2 Preliminaries" -> "2.")
+            if (within !== 'section') {
+                local.continuousNumbering = true;
+                local.inferNumberPrefix = false;
+            }
+            if (this.equationWithin !== 'section') {
+                local.continuousNumbering = true;
+                local.inferEqNumberPrefix = false;
+            }
+        } else {
+            if (within && within in SECTION_LEVELS) local.numberWithin = SECTION_LEVELS[within];
+            if (this.equationWithin && this.equationWithin in SECTION_LEVELS) local.eqNumberWithin = SECTION_LEVELS[this.equationWithin];
+        }
+
+        this.plugin.settings[path] = Object.assign(this.plugin.settings[path] ?? {}, local);
+    }
+
+    startNote(folderPath: string, title: string) {
+        const name = getUniqueName(sanitizeFileName(title), this.notes.map((note) => note.name));
+        this.current = { name, path: `${folderPath}/${name}`, blocks: [] };
+        this.notes.push(this.current);
+        this.anchor = { note: this.current, heading: '', blockId: null };
+    }
+
+    convertBody(body: string) {
+        this.current.blocks.push(this.convertBlocks(body));
+    }
+
+    /** Convert a LaTeX source containing paragraphs, environments and sectioning commands into Markdown. */
+    convertBlocks(text: string): string {
+        const pattern = /\\begin\s*\{(?<env>[a-zA-Z]+\*?)\}|\\(?<section>chapter|section|subsection|subsubsection|paragraph|subparagraph)(?<star>\*?)(?=\s*[[{])|\\\[|\$\$|\\appendix\b|(?<inlineMath>\$(?:\\[\s\S]|[^$\\])+\$|\\\([\s\S]*?\\\))/g;
+        const blocks: string[] = [];
+        let paragraph = '';
+        const flush = () => {
+            blocks.push(...toParagraphs(this.convertInline(paragraph)));
+            paragraph = '';
+        };
+
+        let last = 0;
+        let match;
+        while ((match = pattern.exec(text)) !== null) {
+            paragraph += text.slice(last, match.index);
+            const groups = match.groups!;
+            let end = match.index + match[0].length;
+
+            if (groups.inlineMath) {
+                paragraph += match[0];
+            } else if (match[0] === '\\appendix') {
+                flush();
+                this.appendix = true;
+                this.sectionCount = 0;
+            } else if (groups.section) {
+                flush();
+                const optional = readOptional(text, end);
+                const arg = readGroup(text, optional?.end ?? end);
+                end = arg.end;
+                const heading = this.convertSection(groups.section, !!groups.star, this.convertInline(arg.content));
+                if (heading) blocks.push(heading);
+            } else if (groups.env) {
+                flush();
+                const { bodyStart, bodyEnd, end: envEnd } = findEnvironmentEnd(text, groups.env, end);
+                end = envEnd;
+                blocks.push(this.convertEnvironment(groups.env, text.slice(bodyStart, bodyEnd)));
+            } else {
+                // \[ ... \] or $$ ... $$
+                flush();
+                const close = match[0] === '$$' ? '$$' : '\\]';
+                const closeIndex = text.indexOf(close, end);
+                const mathEnd = closeIndex >= 0 ? closeIndex : text.length;
+                blocks.push(this.convertDisplayMath(text.slice(end, mathEnd), false));
+                end = mathEnd + close.length;
+            }
+            last = pattern.lastIndex = end;
+        }
+        paragraph += text.slice(last);
+        flush();
+
+        return blocks.filter((block) => block.trim()).join('\n\n');
+    }
+
+    /** Convert a sectioning command into a heading, or start a new note if splitting by sections. Returns the heading, if any. */
+    convertSection(command: string, starred: boolean, title: string): string | null {
+        const split = this.options.split && this.depth === 0;
+        if (split && (command === 'section' || command === 'chapter')) {
+            const folderPath = this.current.path.split('/').slice(0, -1).join('/');
+            let name = title;
+            if (!starred) {
+                this.sectionCount++;
+                name = `${this.appendix ? String.fromCharCode(64 + this.sectionCount) : this.sectionCount} ${title}`;
+            }
+            this.startNote(folderPath, name);
+            return null;
+        }
+
+        const level = Math.max(SECTION_LEVELS[command] - (split ? 1 : 0), 1);
+        const heading = title.replace(/[#|^[\]]/g, '').trim();
+        this.anchor = { note: this.current, heading, blockId: null };
+        return '#'.repeat(level) + ' ' + heading;
+    }
+
+    convertEnvironment(env: string, body: string): string {
+        const name = env.replace(/\*$/, '');
+        const starred = env.endsWith('*');
+
+        const theorem = this.theorems.get(env);
+        if (theorem) return this.convertTheorem(theorem, body);
+
+        if (name === 'proof') return this.convertProof(body);
+        if (DISPLAY_MATH_ENVS.includes(name)) {
+            return this.convertDisplayMath(name === 'equation' || name === 'displaymath' || name === 'math' ? body : `\\begin{${env}}${body}\\end{${env}}`, starred || name === 'displaymath' || name === 'math');
+        }
+        if (name === 'itemize' || name === 'enumerate' || name === 'description') return this.convertList(name, body);
+        if (name === 'abstract') return this.convertQuote(body, '[!abstract] Abstract');
+        if (name === 'quote' || name === 'quotation') return this.convertQuote(body, null);
+        if (name === 'verbatim' || name === 'lstlisting' || name === 'minted') return '```\n' + body.replace(/^\s*(\[[^\]]*\]|\{[^}]*\})*\n/, '') + '\n```';
+        if (name === 'thebibliography') return this.convertBibliography(body);
+
+        // figure, table, center, minipage, ...: keep the content
+        return this.convertBlocks(body.replace(/^\s*(\[[^\]]*\]|\{[^}]*\})*/, ''));
+    }
+
+    convertTheorem(theorem: LatexTheorem, body: string): string {
+        const optional = readOptional(body, 0);
+        const title = optional ? this.convertInline(optional.content).replace(/\n/g, ' ').trim() : '';
+        if (optional) body = body.slice(optional.end);
+
+        const previous = this.anchor;
+        const anchor: Anchor = { note: this.current, heading: null, blockId: null };
+        // blocks nested in a callout or a list are not indexed, so labels there point to the enclosing block
+        if (this.depth === 0) this.anchor = anchor;
+        const content = this.nested(() => this.convertBlocks(body));
+        this.anchor = previous;
+
+        const header = `[!${theorem.type}${theorem.starred ? '|*' : ''}]` + (title ? ' ' + title : '');
+        const callout = increaseQuoteLevel(header + '\n' + content);
+        return anchor.blockId ? `${callout}\n\n^${anchor.blockId}` : callout;
+    }
+
+    /** Convert a proof into a proof callout, e.g. "> [!proof]", "> [!proof] of [[...]]" or "> [!solution]". */
+    convertProof(body: string): string {
+        const optional = readOptional(body, 0);
+        if (optional) body = body.slice(optional.end);
+
+        let header = '[!proof]';
+        if (optional) {
+            // "Solution", "Solution of Exercise~\ref{ex:main}" -> > [!solution], > [!solution] of [[...]]
+            const solutionMatch = optional.content.match(/^\s*solution\b\s*\.?\s*(?<rest>[\s\S]*)$/i);
+            const rest = solutionMatch ? solutionMatch.groups!.rest : optional.content;
+            if (solutionMatch) header = '[!solution]';
+            // "Proof of Theorem~\ref{thm:main}" -> > [!proof] of [[...]]
+            const linkMatch = rest.match(/^\s*(?:(?:proof\s+)?of\s+)?(?:the\s+)?(?:[A-Za-z]+[~\s]+)?\\(?:c|C|auto)?ref\s*\{([^},]+)\}\s*\.?\s*$/i);
+            if (linkMatch) header += ` of ${referencePlaceholder(linkMatch[1].trim())}`;
+            else if (!solutionMatch || rest.trim()) header += ' ' + this.convertInline(optional.content).replace(/\n/g, ' ').trim();
+        }
+
+        const content = this.nested(() => this.convertBlocks(body));
+        return increaseQuoteLevel(header + '\n' + content);
+    }
+
+    /** Convert display math into a "$$ ... $$" block, with a block ID if labeled. */
+    convertDisplayMath(mathText: string, unnumbered: boolean): string {
+        const labels: string[] = [];
+        mathText = mathText.replace(/\\label\s*\{([^}]*)\}/g, (_, label: string) => {
+            labels.push(label.trim());
+            return '';
+        }).trim();
+
+        const math = `$$\n${mathText}\n$$`;
+        if (!labels.length || unnumbered) return math;
+
+        // equations nested in a callout or a list are not indexed; link to the enclosing block instead
+        if (this.depth > 0) {
+            labels.forEach((label) => this.addLabel(label));
+            return math;
+        }
+
+        const blockId = this.createBlockId(labels[0]);
+        for (const label of labels) this.labels.set(label, { note: this.current, subpath: `#^${blockId}` });
+        return `${math}\n\n^${blockId}`;
+    }
+
+    convertList(env: string, body: string): string {
+        return this.nested(() => {
+            let number = 0;
+            return splitItems(body).map(({ label, text }) => {
+                number++;
+                const marker = env === 'enumerate' ? `${number}. ` : '- ';
+                const content = this.convertBlocks(text).trim();
+                const lines = ((label !== null && env === 'description' ? `**${this.convertInline(label)}** ` : '') + content).split('\n');
+                return marker + lines.map((line, index) => index && line ? '    ' + line : line).join('\n');
+            }).join('\n');
+        });
+    }
+
+    convertQuote(body: string, header: string | null): string {
+        const content = this.nested(() => this.convertBlocks(body));
+        return increaseQuoteLevel((header ? header + '\n' : '') + content);
+    }
+
+    convertBibliography(body: string): string {
+        const items = splitItems(body).map(({ label, text }) => {
+            // \bibitem{key} ... -> "- [key] ..."
+            const key = readGroup(text, 0);
+            return `- [${label ?? key.content}] ${toParagraphs(this.convertInline(text.slice(key.end))).join(' ')}`;
+        });
+        return '## References\n\n' + items.join('\n');
+    }
+
+    /** Convert inline LaTeX (text formatting, references, inline math) into Markdown. */
+    convertInline(text: string): string {
+        let result = '';
+        let i = 0;
+        while (i < text.length) {
+            const char = text[i];
+
+            if (char === '$') {
+                // inline math is kept as is (with the spaces around trimmed, which Obsidian does not allow)
+                let end = i + 1;
+                while (end < text.length && text[end] !== '$') end += text[end] === '\\' ? 2 : 1;
+                result += `$${text.slice(i + 1, end).trim()}$`;
+                i = end + 1;
+                continue;
+            }
+
+            if (char === '\\') {
+                const commandMatch = text.slice(i).match(/^\\([a-zA-Z]+)(\*?)|^\\([\s\S])/);
+                const [whole, command, , symbol] = commandMatch!;
+                i += whole.length;
+                if (symbol !== undefined) {
+                    if (symbol === '(') {
+                        const end = text.indexOf('\\)', i);
+                        const mathEnd = end >= 0 ? end : text.length;
+                        result += `$${text.slice(i, mathEnd).trim()}$`;
+                        i = mathEnd + 2;
+                    } else if ('_#*$'.includes(symbol)) {
+                        result += '\\' + symbol;
+                    } else if ('%&{}'.includes(symbol)) {
+                        result += symbol;
+                    } else if (symbol === '\\' || symbol === ',' || symbol === ' ' || symbol === '\n') {
+                        result += ' ';
+                    }
+                    continue;
+                }
+                const converted = this.convertCommand(command, text, i);
+                result += converted.output;
+                i = converted.end;
+                continue;
+            }
+
+            if (char === '~') result += ' ';
+            else if (char === '{' || char === '}') { /* grouping */ }
+            else if (text.startsWith('``', i) || text.startsWith("''", i)) {
+                result += text.startsWith('``', i) ? '“' : '”';
+                i++;
+            }
+            else result += char;
+            i++;
+        }
+        return result;
+    }
+
+    /**
+     * @param command The command name without the backslash.
+     * @param text
+     * @param start The position right after the command name.
+     * @returns The Markdown output and the position where the command (including its arguments) ends.
+     */
+    convertCommand(command: string, text: string, start: number): { output: string, end: number } {
+        const readArg = (pos: number) => readGroup(text, readOptional(text, pos)?.end ?? pos);
+        const wrap = (before: string, after = before) => {
+            const arg = readArg(start);
+            const content = this.convertInline(arg.content);
+            return { output: content.trim() ? before + content + after : content, end: arg.end };
+        };
+
+        switch (command) {
+            case 'textbf':
+                return wrap('**');
+            case 'emph':
+            case 'textit':
+            case 'textsl':
+                return wrap('*');
+            case 'texttt': {
+                const arg = readArg(start);
+                return { output: '`' + arg.content + '`', end: arg.end };
+            }
+            case 'verb': {
+                const delimiter = text[start];
+                const end = text.indexOf(delimiter, start + 1);
+                return { output: '`' + text.slice(start + 1, end) + '`', end: end + 1 };
+            }
+            case 'ref':
+            case 'cref':
+            case 'Cref':
+            case 'autoref':
+            case 'eqref':
+            case 'labelcref':
+            case 'nameref':
+            case 'pageref': {
+                const arg = readArg(start);
+                const links = arg.content.split(',').map((label) => referencePlaceholder(label.trim()));
+                return { output: links.join(', '), end: arg.end };
+            }
+            case 'label': {
+                const arg = readArg(start);
+                this.addLabel(arg.content.trim());
+                return { output: '', end: arg.end };
+            }
+            case 'cite':
+            case 'citep':
+            case 'citet':
+            case 'citealp': {
+                const optional = readOptional(text, start);
+                const arg = readArg(start);
+                const note = optional ? ', ' + this.convertInline(optional.content) : '';
+                return { output: `[${arg.content.split(',').map((key) => key.trim()).join(', ')}${note}]`, end: arg.end };
+            }
+            case 'footnote': {
+                const arg = readArg(start);
+                return { output: `^[${toParagraphs(this.convertInline(arg.content)).join(' ')}]`, end: arg.end };
+            }
+            case 'url': {
+                const arg = readArg(start);
+                return { output: `<${arg.content}>`, end: arg.end };
+            }
+            case 'href': {
+                const url = readGroup(text, start);
+                const label = readGroup(text, url.end);
+                return { output: `[${this.convertInline(label.content)}](${url.content})`, end: label.end };
+            }
+            case 'includegraphics': {
+                const arg = readArg(start);
+                return { output: `![[${arg.content.trim()}]]`, end: arg.end };
+            }
+            case 'item':
+                return { output: '', end: readOptional(text, start)?.end ?? start };
+            case 'ldots':
+            case 'dots':
+                return { output: '…', end: start };
+            case 'LaTeX':
+                return { output: 'LaTeX', end: start };
+            case 'TeX':
+                return { output: 'TeX', end: start };
+        }
+
+        if (TRANSPARENT_COMMANDS.includes(command)) return wrap('');
+
+        let end = start;
+        for (let n = 0; n < (IGNORED_COMMANDS[command] ?? 0); n++) end = readArg(end).end;
+        return { output: '', end };
+    }
+
+    addLabel(label: string) {
+        const anchor = this.anchor;
+        if (anchor.heading === null) {
+            anchor.blockId ??= this.createBlockId(label);
+            this.labels.set(label, { note: anchor.note, subpath: `#^${anchor.blockId}` });
+        } else {
+            this.labels.set(label, { note: anchor.note, subpath: anchor.heading ? `#${anchor.heading}` : '' });
+        }
+    }
+
+    /** Create a block ID from the given label, e.g. "thm:main" -> "thm-main". */
+    createBlockId(label: string): string {
+        const base = label.replace(/[^A-Za-z0-9-]+/g, '-').replace(/^-+|-+$/g, '') || 'block';
+        let id = base;
+        for (let n = 1; this.blockIds.has(id); n++) id = `${base}-${n}`;
+        this.blockIds.add(id);
+        return id;
+    }
+
+    nested<T>(callback: () => T): T {
+        this.depth++;
+        try {
+            return callback();
+        } finally {
+            this.depth--;
+        }
+    }
+
+    /** Replace the placeholders for \ref{...} with wikilinks, now that all the labels are known. */
+    resolveReferences(note: ImportedNote): string {
+        const markdown = note.blocks.filter((block) => block.trim()).join('\n\n') + '\n';
+        return markdown.replace(new RegExp(`${REFERENCE_PLACEHOLDER}([^${REFERENCE_PLACEHOLDER}]*)${REFERENCE_PLACEHOLDER}`, 'g'), (_, label: string) => {
+            const target = this.labels.get(label);
+            if (!target) return `[${label}]`;
+            return `[[${target.note === note && target.subpath ? '' : target.note.path}${target.subpath}]]`;
+        });
+    }
+}
+
+
+/** Import the given .tex file or folder and notify the user of the result. */
+export async function importFromLatex(plugin: LatexReferencer, file: TAbstractFile, options: LatexImportOptions) {
+    const importer = new LatexImporter(plugin, options);
+    try {
+        const created = await importer.import(file);
+        let message = `${plugin.manifest.name}: Imported ${file.path} into ${created.path}`;
+        if (importer.unknownTheorems.length) {
+            message += `. The following environments were imported as theorems because they do not match any theorem-like environment: ${importer.unknownTheorems.join(', ')}`;
+        }
+        new Notice(message, importer.unknownTheorems.length ? 10000 : undefined);
+        if (created instanceof TFile) await plugin.app.workspace.getLeaf().openFile(created);
+    } catch (err) {
+        new Notice(`${plugin.manifest.name}: Failed to import ${file.path}. See the console for details.`, 5000);
+        console.error(err);
+    }
+}
+
+
+/** Whether the given file can be imported, i.e. a .tex file or a folder containing one (e.g. an unpacked arXiv source). */
+export function isLatexImportable(file: TAbstractFile): boolean {
+    if (file instanceof TFile) return file.extension === 'tex';
+    return file instanceof TFolder && file.children.some((child) => child instanceof TFile && child.extension === 'tex');
+}
+
+
+export class LatexImportSuggestModal extends FuzzySuggestModal<TAbstractFile> {
+    constructor(public plugin: LatexReferencer) {
+        super(plugin.app);
+        this.setPlaceholder("Choose a .tex file or a folder containing .tex files");
+    }
+
+    getItems(): TAbstractFile[] {
+        return this.app.vault.getAllLoadedFiles().filter(isLatexImportable);
+    }
+
+    getItemText(file: TAbstractFile): string {
+        return file.path;
+    }
+
+    onChooseItem(file: TAbstractFile) {
+        new LatexImportModal(this.plugin, file).open();
+    }
+}
+
+
+export class LatexImportModal extends Modal {
+    options: LatexImportOptions = { split: false };
+
+    constructor(public plugin: LatexReferencer, public file: TAbstractFile) {
+        super(plugin.app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.titleEl.setText(`Import ${this.file.path}`);
+
+        new Setting(contentEl)
+            .setName("Split into notes by \\section")
+            .setDesc("If turned on, each section is imported as a separate note in a new folder, and theorems & equations are numbered continuously across them. Otherwise, a single note is created.")
+            .addToggle((toggle) => {
+                toggle.setValue(this.options.split)
+                    .onChange((value) => {
+                        this.options.split = value;
+                    });
+            });
+
+        const buttonContainerEl = contentEl.createDiv({ cls: "math-booster-button-container" });
+        new ButtonComponent(buttonContainerEl)
+            .setButtonText("Import")
+            .setCta()
+            .onClick(() => {
+                this.close();
+                importFromLatex(this.plugin, this.file, this.options);
+            });
+        new ButtonComponent(buttonContainerEl)
+            .setButtonText("Cancel")
+            .onClick(() => {
+                this.close();
+            });
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+
+/** Read a {...} group starting at (or after whitespace from) the given position. If there is no brace, a single character is read. */
+function readGroup(text: string, start: number): { content: string, end: number } {
+    let i = start;
+    while (i < text.length && /\s/.test(text[i])) i++;
+    if (text[i] !== '{') return { content: text.slice(i, i + 1), end: i + 1 };
+
+    let depth = 0;
+    for (let j = i; j < text.length; j++) {
+        if (text[j] === '\\') j++;
+        else if (text[j] === '{') depth++;
+        else if (text[j] === '}' && --depth === 0) return { content: text.slice(i + 1, j), end: j + 1 };
+    }
+    return { content: text.slice(i + 1), end: text.length };
+}
+
+/** Read an optional [...] argument starting at (or after whitespace from) the given position. */
+function readOptional(text: string, start: number): { content: string, end: number } | null {
+    let i = start;
+    while (i < text.length && /\s/.test(text[i])) i++;
+    if (text[i] !== '[') return null;
+
+    let depth = 0;
+    for (let j = i + 1; j < text.length; j++) {
+        if (text[j] === '\\') j++;
+        else if (text[j] === '{') depth++;
+        else if (text[j] === '}') depth--;
+        else if (text[j] === ']' && depth === 0) return { content: text.slice(i + 1, j), end: j + 1 };
+    }
+    return null;
+}
+
+/** Find the \end{...} matching the \begin{...} that ends at the given position, taking nested environments of the same name into account. */
+function findEnvironmentEnd(text: string, env: string, bodyStart: number): { bodyStart: number, bodyEnd: number, end: number } {
+    const name = env.replace(/[*]/g, '\\*');
+    const pattern = new RegExp(`\\\\(begin|end)\\s*\\{${name}\\}`, 'g');
+    pattern.lastIndex = bodyStart;
+    let depth = 1;
+    let match;
+    while ((match = pattern.exec(text)) !== null) {
+        if (match[1] === 'begin') depth++;
+        else if (--depth === 0) return { bodyStart, bodyEnd: match.index, end: match.index + match[0].length };
+    }
+    return { bodyStart, bodyEnd: text.length, end: text.length };
+}
+
+/** Split the body of a list (or thebibliography) into items, ignoring \item's in nested environments. */
+function splitItems(body: string): { label: string | null, text: string }[] {
+    const items: { label: string | null, text: string }[] = [];
+    const pattern = /\\(begin|end)\s*\{[^}]*\}|\\(?:item|bibitem)\b/g;
+    let depth = 0;
+    let current: { label: string | null, start: number } | null = null;
+    let match;
+    while ((match = pattern.exec(body)) !== null) {
+        if (match[1] === 'begin') depth++;
+        else if (match[1] === 'end') depth--;
+        else if (depth === 0) {
+            if (current) items.push({ label: current.label, text: body.slice(current.start, match.index) });
+            const optional = readOptional(body, match.index + match[0].length);
+            current = { label: optional?.content ?? null, start: optional?.end ?? match.index + match[0].length };
+        }
+    }
+    if (current) items.push({ label: current.label, text: body.slice(current.start) });
+    return items;
+}
+
+/** Split the converted text into paragraphs at blank lines, joining the lines in each paragraph. */
+function toParagraphs(text: string): string[] {
+    return text.split(/\n\s*\n/).map((paragraph) => paragraph.replace(/\s*\n\s*/g, ' ').trim()).filter((paragraph) => paragraph);
+}
+
+/** A placeholder for a reference to the given label. It is replaced with a wikilink once all the labels are known. */
+function referencePlaceholder(label: string): string {
+    return `${REFERENCE_PLACEHOLDER}${label}${REFERENCE_PLACEHOLDER}`;
+}
+
+/** Remove % comments, keeping \% as is. */
+function removeLatexComments(source: string): string {
+    return source.replace(/(^|[^\\])%.*$/gm, '$1');
+}
+
+function sanitizeFileName(name: string): string {
+    return name.replace(/[\\/:*?"<>|#^[\]$]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function getUniqueName(name: string, existing: string[]): string {
+    let unique = name;
+    for (let n = 1; existing.includes(unique); n++) unique = `${name} ${n}`;
+    return unique;
+}
+
+/** Append a number to the given path (without the extension) if it already exists. */
+function getAvailablePath(plugin: LatexReferencer, path: string, extension: string): string {
+    let available = path + extension;
+    for (let n = 1; plugin.app.vault.getAbstractFileByPath(available); n++) available = `${path} ${n}${extension}`;
+    return available;
+}
@@ -1,18 +1,18 @@
-import { MarkdownView, Plugin } from 'obsidian';
+import { MarkdownView, Plugin, TFile, TFolder } from 'obsidian';
 import { StateField, Extension, RangeSet } from '@codemirror/state';
 
 import * as MathLinks from 'obsidian-mathlinks';
 import { registerQuickPreview } from 'obsidian-quick-preview';
 
-import { MathContextSettings, DEFAULT_SETTINGS, ExtraSettings, DEFAULT_EXTRA_SETTINGS, UNION_TYPE_MATH_CONTEXT_SETTING_KEYS, UNION_TYPE_EXTRA_SETTING_KEYS } from 'settings/settings';
+import { MathContextSettings, DEFAULT_SETTINGS, ExtraSettings, DEFAULT_EXTRA_SETTINGS, UNION_TYPE_MATH_CONTEXT_SETTING_KEYS, UNION_TYPE_EXTRA_SETTING_KEYS, migrateReferenceFormats } from 'settings/settings';
 import { MathSettingTab } from "settings/tab";
-import { CleverefProvider } from 'cleveref';
+import { CleverefProvider } from 'cleveref/provider';
 import { createTheoremCalloutPostProcessor } from 'theorem-callouts/renderer';
 import { createTheoremCalloutNumberingViewPlugin } from 'theorem-callouts/view-plugin';
 import { ContextSettingModal, TheoremCalloutModal } from 'settings/modals';
 import { createEquationNumberProcessor } from 'equations/reading-view';
 import { createEquationNumberPlugin } from 'equations/live-preview';
-import { getMarkdownPreviewViewEl, getMarkdownSourceViewEl, isPluginOlderThan } from 'utils/obsidian';
+import { getMarkdownPreviewViewEl, getMarkdownSourceViewEl, isPluginOlderThan, openFileAndSelectPosition } from 'utils/obsidian';
 import { getProfile, staticifyEqNumber, insertDisplayMath, insertTheoremCallout, insertProof } from 'utils/plugin';
 import { MathIndexManager } from 'index/manager';
 import { DependencyNotificationModal, MigrationModal, PluginSplitNoticeModal, RenameNoticeModal } from 'notice';
@@ -21,9 +21,25 @@ import { MathSearchModal } from 'search/modal';
 import { TheoremCalloutInfo, createTheoremCalloutsField } from 'theorem-callouts/state-field';
 import { patchLinkCompletion } from 'patches/link-completion';
 import { patchPagePreview } from 'patches/page-preview';
-import { createProofDecoration } from 'proof/live-preview';
+import { patchOpenLinkText } from 'patches/label-link';
+import { createProofDecoration, createProofDefaultFoldPlugin, createProofFoldService, createProofMarkersField } from 'proof/live-preview';
 import { createProofProcessor } from 'proof/reading-view';
-import { MathBlock } from 'index/typings/markdown';
+import { createProofCalloutPostProcessor } from 'proof/callout';
+import { UnprovedTheoremSuggestModal } from 'proof/unproved';
+import { completeProfileBody } from 'settings/profile';
+import { createCleverefProcessor } from 'cleveref/reading-view';
+import { createCleverefDecoration } from 'cleveref/live-preview';
+import { MathBlock, TheoremCalloutBlock } from 'index/typings/markdown';
+import { exportToLatex } from 'latex/export';
+import { LatexImportModal, LatexImportSuggestModal, isLatexImportable } from 'latex/import';
+import { MATH_OUTLINE_VIEW_TYPE, MathOutlineView, activateMathOutlineView } from 'outline/view';
+import { PluginAPI } from 'api/api';
+import { DEPENDENCY_GRAPH_VIEW_TYPE, DependencyGraphView, activateDependencyGraphView } from 'graph/view';
+import { MATH_DIAGNOSTICS_VIEW_TYPE, MathDiagnosticsView, activateMathDiagnosticsView } from 'diagnostics/view';
+import { createDiagnosticsPlugin } from 'diagnostics/live-preview';
+import { RenameLabelModal } from 'refactor/rename-label';
+import { MoveBlockSuggestModal } from 'refactor/move-block';
+import { ProofMarker } from 'utils/parse';
 
 
 export const VAULT_ROOT = '/';
@@ -37,9 +53,11 @@ export default class LatexReferencer extends Plugin {
 		"mathlinks": { id: "mathlinks", name: "MathLinks", version: "0.5.3" }
 	};
 	indexManager: MathIndexManager;
+	/** The public API for other plugins. See src/api/typings.d.ts */
+	api: PluginAPI;
 	editorExtensions: Extension[];
 	theoremCalloutsField: StateField<RangeSet<TheoremCalloutInfo>>;
-	// proofPositionField: StateField<ProofPosition[]>;
+	proofMarkersField: StateField<ProofMarker[]>;
 	lastHoverLinktext: string | null;
 
 	async onload() {
@@ -78,6 +96,8 @@ export default class LatexReferencer extends Plugin {
 
 		this.addChild((this.indexManager = new MathIndexManager(this, this.extraSettings)));
 		this.app.workspace.onLayoutReady(async () => this.indexManager.initialize());
+		this.api = new PluginAPI(this);
+		// deprecated: use the public API (plugin.api) instead
 		// @ts-ignore
 		(window['mathIndex'] = this.indexManager.index) && this.register(() => delete window['mathIndex'])
 
@@ -165,11 +185,24 @@ export default class LatexReferencer extends Plugin {
 
 		// proof environments
 		this.registerMarkdownPostProcessor(createProofProcessor(this));
+		this.registerMarkdownPostProcessor(createProofCalloutPostProcessor(this));
+
+		// grouped references, e.g. `\cref`@[[link 1]], [[link 2]]
+		this.registerMarkdownPostProcessor(createCleverefProcessor(this));
 
 		// patch hover page preview to display theorem numbers in it
 		this.lastHoverLinktext = null;
 		this.app.workspace.onLayoutReady(() => patchPagePreview(this));
 
+		// open the labeled block when clicking a label-based link like [[@thm:cauchy-schwarz]]
+		patchOpenLinkText(this);
+
+		/** Views */
+
+		this.registerView(MATH_OUTLINE_VIEW_TYPE, (leaf) => new MathOutlineView(leaf, this));
+		this.registerView(DEPENDENCY_GRAPH_VIEW_TYPE, (leaf) => new DependencyGraphView(leaf, this));
+		this.registerView(MATH_DIAGNOSTICS_VIEW_TYPE, (leaf) => new MathDiagnosticsView(leaf, this));
+
 		/** File menu */
 
 		this.registerEvent(
@@ -180,8 +213,20 @@ export default class LatexReferencer extends Plugin {
 							.onClick(() => {
 								new ContextSettingModal(this.app, this, file).open();
 							});
-					})
-					.addSeparator();
+					});
+				if (file instanceof TFolder || (file instanceof TFile && file.extension === 'md')) {
+					menu.addItem((item) => {
+						item.setTitle(`${this.manifest.name}: Export to LaTeX`)
+							.onClick(() => exportToLatex(this, file));
+					});
+				}
+				if (isLatexImportable(file)) {
+					menu.addItem((item) => {
+						item.setTitle(`${this.manifest.name}: Import from LaTeX`)
+							.onClick(() => new LatexImportModal(this, file).open());
+					});
+				}
+				menu.addSeparator();
 			})
 		);
 	}
@@ -201,6 +246,7 @@ export default class LatexReferencer extends Plugin {
 				if (path != VAULT_ROOT) {
 					this.settings[path] = {};
 				}
+				migrateReferenceFormats(settings[path]);
 				for (const _key in DEFAULT_SETTINGS) {
 					const key = _key as keyof MathContextSettings;
 					let val = settings[path][key];
@@ -236,6 +282,10 @@ export default class LatexReferencer extends Plugin {
 				}
 			}
 
+			for (const id in this.extraSettings.profiles) {
+				completeProfileBody(this.extraSettings.profiles[id].body, id);
+			}
+
 			this.excludedFiles = excludedFiles;
 
 			// At the time the plugin is loaded, the data vault is not ready and 
@@ -310,12 +360,20 @@ export default class LatexReferencer extends Plugin {
 		// equation numbers
 		this.editorExtensions.push(createEquationNumberPlugin(this));
 
+		// grouped references
+		this.editorExtensions.push(createCleverefDecoration(this));
+
 		// proofs
 		if (this.extraSettings.enableProof) {
+			this.editorExtensions.push(this.proofMarkersField = createProofMarkersField(this));
 			this.editorExtensions.push(createProofDecoration(this));
-			// this.editorExtensions.push(this.proofPositionField = proofPositionFieldFactory(this));
-			// this.editorExtensions.push(proofDecorationFactory(this));
-			// this.editorExtensions.push(proofFoldFactory(this));
+			this.editorExtensions.push(createProofFoldService(this));
+			this.editorExtensions.push(createProofDefaultFoldPlugin(this));
+		}
+
+		// diagnostics
+		if (this.extraSettings.showDiagnosticsInEditor) {
+			this.editorExtensions.push(createDiagnosticsPlugin(this));
 		}
 
 		this.app.workspace.updateOptions();
@@ -356,6 +414,75 @@ export default class LatexReferencer extends Plugin {
 			}
 		})
 
+		this.addCommand({
+			id: 'open-outline',
+			name: 'Open theorem & equation outline',
+			callback: () => activateMathOutlineView(this)
+		});
+
+		this.addCommand({
+			id: 'open-dependency-graph',
+			name: 'Open theorem dependency graph',
+			callback: () => activateDependencyGraphView(this)
+		});
+
+		this.addCommand({
+			id: 'open-diagnostics',
+			name: 'Open reference diagnostics',
+			callback: () => activateMathDiagnosticsView(this)
+		});
+
+		this.addCommand({
+			id: 'rename-label',
+			name: 'Rename label or block ID of theorem/equation at cursor',
+			editorCheckCallback: (checking, editor, context) => {
+				if (!context.file) return false;
+				const block = this.indexManager.index.getMarkdownPage(context.file.path)?.getBlockByLineNumber(editor.getCursor().line);
+				if (!MathBlock.isMathBlock(block)) return false;
+				if (!checking) new RenameLabelModal(this, block).open();
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'move-block',
+			name: 'Move theorem/equation at cursor to another note',
+			editorCheckCallback: (checking, editor, context) => {
+				if (!context.file) return false;
+				const block = this.indexManager.index.getMarkdownPage(context.file.path)?.getBlockByLineNumber(editor.getCursor().line);
+				if (!MathBlock.isMathBlock(block)) return false;
+				if (!checking) new MoveBlockSuggestModal(this, block).open();
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'jump-between-theorem-and-proof',
+			name: 'Jump between theorem and its proof',
+			editorCheckCallback: (checking, editor, context) => {
+				if (!context.file) return false;
+				const { index } = this.indexManager;
+				const page = index.getMarkdownPage(context.file.path);
+				const line = editor.getCursor().line;
+				// from a proof to the theorem it proves, or from a theorem to its first proof
+				const block = page?.getBlockByLineNumber(line);
+				const proof = page?.getProofByLineNumber(line);
+				const target = TheoremCalloutBlock.isTheoremCalloutBlock(block) ? index.getProofs(block)[0] : proof && index.getProvedTheorem(proof);
+				if (!target) return false;
+				if (!checking) {
+					const file = this.app.vault.getAbstractFileByPath(target.$file);
+					if (file instanceof TFile) openFileAndSelectPosition(this.app, file, target.$pos, false);
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'list-unproved-theorems',
+			name: 'List unproved theorems',
+			callback: () => new UnprovedTheoremSuggestModal(this).open()
+		});
+
 		this.addCommand({
 			id: 'open-local-settings-for-current-note',
 			name: 'Open local settings for the current note',
@@ -382,6 +509,25 @@ export default class LatexReferencer extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'export-to-latex',
+			name: 'Export current note to LaTeX',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== 'md') return false;
+				if (!checking) exportToLatex(this, file);
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'import-from-latex',
+			name: 'Import from LaTeX',
+			callback: () => {
+				new LatexImportSuggestModal(this).open();
+			}
+		});
+
 		this.addCommand({
 			id: 'migrate-from-v1',
 			name: 'Migrate from version 1',
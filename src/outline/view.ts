@@ -0,0 +1,237 @@
+import { DropdownComponent, ExtraButtonComponent, ItemView, TFile, ViewStateResult, WorkspaceLeaf, debounce, finishRenderMath, renderMath } from 'obsidian';
+
+import LatexReferencer from 'main';
+import { EquationBlock, MarkdownPage, MarkdownSection, MathBlock, TheoremCalloutBlock } from 'index/typings/markdown';
+import { formatTheoremCalloutType } from 'utils/format';
+import { openFileAndSelectPosition } from 'utils/obsidian';
+import { resolveSettings } from 'utils/plugin';
+import { renderTextWithMath } from 'utils/render';
+
+
+export const MATH_OUTLINE_VIEW_TYPE = "math-booster-outline";
+
+type OutlineMode = "note" | "vault";
+
+interface OutlineState {
+    mode: OutlineMode;
+    /** A theorem-like environment ID, "equation", or "" (= show everything) */
+    filter: string;
+}
+
+
+/**
+ * Lists the theorem callouts and the numbered equations in the active note (or in the entire vault) in the document order.
+ * In the note mode, they are grouped by the sections (headings) they belong to, and in the vault mode, by the folders.
+ */
+export class MathOutlineView extends ItemView {
+    state: OutlineState = { mode: "note", filter: "" };
+    /** The note shown in the note mode. Kept when a non-markdown view (e.g. this view itself) gets focused. */
+    file: TFile | null = null;
+    headerEl: HTMLElement;
+    listEl: HTMLElement;
+    requestUpdate = debounce(() => this.update(), 300, true);
+
+    constructor(leaf: WorkspaceLeaf, public plugin: LatexReferencer) {
+        super(leaf);
+    }
+
+    getViewType(): string {
+        return MATH_OUTLINE_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return "Theorems & equations";
+    }
+
+    getIcon(): string {
+        return "sigma";
+    }
+
+    async onOpen() {
+        this.contentEl.empty();
+        this.contentEl.addClass("math-booster-outline");
+        this.headerEl = this.contentEl.createDiv({ cls: "math-booster-outline-header" });
+        this.listEl = this.contentEl.createDiv({ cls: "math-booster-outline-list" });
+
+        this.registerEvent(this.app.workspace.on("active-leaf-change", () => {
+            if (this.updateFile()) this.update();
+        }));
+        this.registerEvent(this.plugin.indexManager.on("index-updated", (file) => {
+            if (this.state.mode === "vault" || file === this.file) this.requestUpdate();
+        }));
+        this.registerEvent(this.plugin.indexManager.on("index-initialized", () => this.update()));
+        this.registerEvent(this.plugin.indexManager.on("global-settings-updated", () => {
+            this.renderHeader();
+            this.update();
+        }));
+
+        this.updateFile();
+        this.renderHeader();
+        this.update();
+    }
+
+    async onClose() {
+        this.contentEl.empty();
+    }
+
+    getState(): Record<string, unknown> {
+        return { ...this.state };
+    }
+
+    async setState(state: Partial<OutlineState>, result: ViewStateResult) {
+        if (state.mode === "note" || state.mode === "vault") this.state.mode = state.mode;
+        if (typeof state.filter === "string") this.state.filter = state.filter;
+        if (this.headerEl) {
+            this.renderHeader();
+            this.update();
+        }
+        await super.setState(state, result);
+    }
+
+    /** Render the mode switch & the environment filter. */
+    renderHeader() {
+        this.headerEl.empty();
+
+        const modeButton = new ExtraButtonComponent(this.headerEl);
+        const setModeButton = () => {
+            modeButton.setIcon(this.state.mode === "note" ? "file-text" : "vault")
+                .setTooltip(this.state.mode === "note" ? "Showing the active note. Click to show the entire vault" : "Showing the entire vault. Click to show the active note");
+        };
+        setModeButton();
+        modeButton.onClick(() => {
+            this.state.mode = this.state.mode === "note" ? "vault" : "note";
+            setModeButton();
+            this.update();
+        });
+
+        const { profile } = resolveSettings(undefined, this.plugin, this.app.vault.getRoot());
+        const filterDropdown = new DropdownComponent(this.headerEl)
+            .addOption("", "All")
+            .addOption("equation", "Equations");
+        for (const env of this.plugin.extraSettings.theoremLikeEnvs) {
+            filterDropdown.addOption(env.id, formatTheoremCalloutType(this.plugin, { type: env.id, profile }));
+        }
+        filterDropdown.setValue(this.state.filter)
+            .onChange((value) => {
+                this.state.filter = value;
+                this.update();
+            });
+    }
+
+    /** Returns true if the note to show has changed. */
+    updateFile(): boolean {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || file.extension !== "md" || file === this.file) return false;
+        this.file = file;
+        return this.state.mode === "note";
+    }
+
+    update() {
+        this.listEl.empty();
+        if (this.state.mode === "note") this.renderNote();
+        else this.renderVault();
+        finishRenderMath();
+    }
+
+    renderNote() {
+        const page = this.file && this.plugin.indexManager.index.getMarkdownPage(this.file.path);
+        if (!page) {
+            this.listEl.createDiv({ text: "No theorems or equations found.", cls: "pane-empty" });
+            return;
+        }
+
+        let found = false;
+        for (const section of page.$sections) {
+            const blocks = this.getBlocks(section);
+            if (!blocks.length) continue;
+            found = true;
+            const groupEl = this.listEl.createDiv({ cls: "math-booster-outline-group" });
+            // the implicit section before the first heading has no heading to show
+            if (section.$ordinal > 0) this.renderGroupHeader(groupEl, section.$title, section.$level);
+            for (const block of blocks) this.renderBlock(groupEl, block);
+        }
+
+        if (!found) this.listEl.createDiv({ text: "No theorems or equations found.", cls: "pane-empty" });
+    }
+
+    renderVault() {
+        const byFolder = new Map<string, MarkdownPage[]>();
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const page = this.plugin.indexManager.index.getMarkdownPage(file.path);
+            if (!page) continue;
+            const folder = file.parent?.path ?? "/";
+            if (!byFolder.has(folder)) byFolder.set(folder, []);
+            byFolder.get(folder)!.push(page);
+        }
+
+        let found = false;
+        for (const folder of [...byFolder.keys()].sort()) {
+            const pages = byFolder.get(folder)!.sort((a, b) => a.$path.localeCompare(b.$path, undefined, { numeric: true }));
+            const blocksInFolder = pages.map((page) => ({ page, blocks: page.$sections.flatMap((section) => this.getBlocks(section)) }))
+                .filter(({ blocks }) => blocks.length);
+            if (!blocksInFolder.length) continue;
+            found = true;
+
+            const groupEl = this.listEl.createDiv({ cls: "math-booster-outline-group" });
+            this.renderGroupHeader(groupEl, folder === "/" ? this.app.vault.getName() : folder, 1);
+            for (const { page, blocks } of blocksInFolder) {
+                this.renderGroupHeader(groupEl, page.$path.split("/").pop()!.replace(/\.md$/, ""), 2);
+                for (const block of blocks) this.renderBlock(groupEl, block);
+            }
+        }
+
+        if (!found) this.listEl.createDiv({ text: "No theorems or equations found.", cls: "pane-empty" });
+    }
+
+    /** The theorem callouts and the numbered equations in the given section that pass the filter. */
+    getBlocks(section: MarkdownSection): MathBlock[] {
+        const { filter } = this.state;
+        return section.$blocks.filter((block): block is MathBlock => {
+            if (TheoremCalloutBlock.isTheoremCalloutBlock(block)) return !filter || block.$settings.type === filter;
+            if (EquationBlock.isEquationBlock(block)) return (!filter || filter === "equation") && block.$printName !== null;
+            return false;
+        });
+    }
+
+    renderGroupHeader(containerEl: HTMLElement, title: string, level: number) {
+        containerEl.createDiv({ cls: ["math-booster-outline-group-header", `math-booster-outline-level-${Math.min(level, 6)}`] })
+            .replaceChildren(...renderTextWithMath(title));
+    }
+
+    renderBlock(containerEl: HTMLElement, block: MathBlock) {
+        const itemEl = containerEl.createDiv({ cls: ["math-booster-outline-item", "tree-item-self", "is-clickable"] });
+        const nameEl = itemEl.createDiv({ cls: "math-booster-outline-item-name" });
+
+        if (TheoremCalloutBlock.isTheoremCalloutBlock(block)) {
+            itemEl.addClass(`math-booster-outline-item-${block.$settings.type}`);
+            const file = this.app.vault.getAbstractFileByPath(block.$file);
+            const name = block.$printName ?? (file instanceof TFile ? formatTheoremCalloutType(this.plugin, resolveSettings(block.$settings, this.plugin, file)) : block.$settings.type);
+            nameEl.replaceChildren(...renderTextWithMath(name));
+        } else if (EquationBlock.isEquationBlock(block)) {
+            itemEl.addClass("math-booster-outline-item-equation");
+            nameEl.setText(block.$printName ?? "");
+            if (this.plugin.extraSettings.renderMathInSuggestion) {
+                itemEl.createDiv({ cls: "math-booster-outline-equation" }).replaceChildren(renderMath(block.$mathText, true));
+            } else {
+                itemEl.createDiv({ text: block.$mathText, cls: "math-booster-outline-equation" });
+            }
+        }
+
+        itemEl.addEventListener("click", () => {
+            const file = this.app.vault.getAbstractFileByPath(block.$file);
+            if (file instanceof TFile) openFileAndSelectPosition(this.app, file, block.$pos, false);
+        });
+    }
+}
+
+
+/** Reveal the outline view in the right sidebar, creating one if necessary. */
+export async function activateMathOutlineView(plugin: LatexReferencer) {
+    const { workspace } = plugin.app;
+    let leaf = workspace.getLeavesOfType(MATH_OUTLINE_VIEW_TYPE)[0];
+    if (!leaf) {
+        leaf = workspace.getRightLeaf(false)!;
+        await leaf.setViewState({ type: MATH_OUTLINE_VIEW_TYPE, active: true });
+    }
+    workspace.revealLeaf(leaf);
+}
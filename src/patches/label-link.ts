@@ -0,0 +1,19 @@
+import { around } from 'monkey-around';
+
+import LatexReferencer from 'main';
+import { resolveLabelLinktext } from 'utils/plugin';
+
+// Label-based links (e.g. [[@thm:cauchy-schwarz]]) are unresolved links for Obsidian.
+// Redirect them to the labeled blocks, instead of creating a new note named "@thm:cauchy-schwarz".
+
+export const patchOpenLinkText = (plugin: LatexReferencer) => {
+    plugin.register(
+        around(plugin.app.workspace, {
+            openLinkText(old) {
+                return function (linktext: string, sourcePath: string, ...args: unknown[]) {
+                    return old.call(this, resolveLabelLinktext(plugin, linktext) ?? linktext, sourcePath, ...args);
+                }
+            }
+        })
+    );
+}
@@ -38,7 +38,7 @@ export const patchLinkCompletion = (plugin: LatexReferencer) => {
                             return;
                         }
                     }
-                    const parsed = _readTheoremCalloutSettings({ type: item.node.callout.type, metadata: item.node.callout.data }, plugin.extraSettings.excludeExampleCallout);
+                    const parsed = _readTheoremCalloutSettings({ type: item.node.callout.type, metadata: item.node.callout.data }, plugin.extraSettings.theoremLikeEnvs, plugin.extraSettings.excludeExampleCallout);
                     if (parsed) {
                         const { type, number } = parsed;
                         if (title === capitalize(type)) title = '';
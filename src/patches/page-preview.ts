@@ -1,6 +1,7 @@
 import { HoverParent } from 'obsidian';
 import { around } from 'monkey-around';
 import LatexReferencer from '../main';
+import { resolveLabelLinktext } from 'utils/plugin';
 
 // Inspired by Hover Editor (https://github.com/nothingislost/obsidian-hover-editor/blob/c038424acb15c542f0ad5f901d74c75d4316f553/src/main.ts#L396)
 
@@ -14,6 +15,8 @@ export const patchPagePreview = (plugin: LatexReferencer) => {
         around(app.internalPlugins.plugins['page-preview'].instance.constructor.prototype, {
             onLinkHover(old: Function) {
                 return function (parent: HoverParent, targetEl: HTMLElement, linktext: string, ...args: unknown[]) {
+                    // show the labeled block for a label-based link, e.g. [[@thm:cauchy-schwarz]]
+                    linktext = resolveLabelLinktext(plugin, linktext) ?? linktext;
                     old.call(this, parent, targetEl, linktext, ...args);
                     // Save the linktext in the plugin instance
                     plugin.lastHoverLinktext = linktext;
@@ -0,0 +1,91 @@
+import { MarkdownPostProcessorContext, MarkdownRenderChild, TFile } from "obsidian";
+
+import LatexReferencer from "main";
+import { ProofLikeEnvID, isProofLikeEnvID } from "env";
+import { Profile } from "settings/profile";
+import { addTheoremCalloutClasses } from "theorem-callouts/renderer";
+import { capitalize } from "utils/general";
+import { resolveSettings } from "utils/plugin";
+import { makeProofClasses, makeProofElement } from "./common";
+
+
+export const createProofCalloutPostProcessor = (plugin: LatexReferencer) => (element: HTMLElement, context: MarkdownPostProcessorContext) => {
+    if (!plugin.extraSettings.enableProof) return;
+
+    const file = plugin.app.vault.getAbstractFileByPath(context.sourcePath) ?? plugin.app.workspace.getActiveFile();
+    if (!(file instanceof TFile)) return;
+
+    for (const calloutEl of element.querySelectorAll<HTMLElement>('.callout')) {
+        const type = calloutEl.getAttribute('data-callout')?.toLowerCase();
+        if (type && isProofLikeEnvID(type)) {
+            context.addChild(new ProofCalloutRenderer(calloutEl, plugin, file, type));
+        }
+    }
+};
+
+
+/**
+ * Renders > [!proof] and > [!solution] callouts in the same way as `\begin{proof}` ... `\end{proof}`:
+ * "Proof." (or "Proof of Theorem 1." for "> [!proof] of [[...]]") as the title, and the QED symbol at the end.
+ */
+class ProofCalloutRenderer extends MarkdownRenderChild {
+    /** The title rendered by Obsidian, e.g. "of [[...]]" or "Sketch". */
+    titleNodes: Node[];
+    endEl: HTMLElement | null = null;
+
+    constructor(containerEl: HTMLElement, public plugin: LatexReferencer, public file: TFile, public type: ProofLikeEnvID) {
+        super(containerEl);
+        this.titleNodes = [...containerEl.querySelector<HTMLElement>('.callout-title-inner')?.childNodes ?? []];
+    }
+
+    onload() {
+        this.update();
+        this.registerEvent(this.plugin.indexManager.on("local-settings-updated", (file) => {
+            if (file === this.file) this.update();
+        }));
+        this.registerEvent(this.plugin.indexManager.on("global-settings-updated", () => this.update()));
+    }
+
+    update() {
+        const settings = resolveSettings(undefined, this.plugin, this.file);
+        const profile = this.plugin.extraSettings.profiles[settings.profile];
+
+        addTheoremCalloutClasses(this.plugin, this.file, this.containerEl, this.type);
+
+        const titleInnerEl = this.containerEl.querySelector<HTMLElement>('.callout-title-inner');
+        if (titleInnerEl) {
+            const headerEl = createSpan({ cls: makeProofClasses("begin", profile) });
+            headerEl.replaceChildren(...this.makeHeader(profile));
+            titleInnerEl.replaceChildren(headerEl);
+        }
+
+        // put the QED symbol at the end of the last paragraph
+        this.endEl?.remove();
+        const contentEl = this.containerEl.querySelector<HTMLElement>('.callout-content');
+        if (contentEl) {
+            this.endEl = makeProofElement("end", profile);
+            const lastEl = contentEl.lastElementChild;
+            (lastEl?.matches("p") ? lastEl : contentEl).append(this.endEl);
+        }
+    }
+
+    makeHeader(profile: Profile): (Node | string)[] {
+        const nodes = this.titleNodes.filter((node) => node.nodeType !== Node.TEXT_NODE || node.textContent?.trim());
+
+        // > [!proof] of [[...]]
+        if (nodes.length === 2 && nodes[0].nodeType === Node.TEXT_NODE && /^of$/i.test(nodes[0].textContent!.trim())
+            && nodes[1] instanceof HTMLElement && nodes[1].matches("a")) {
+            return this.type === "proof"
+                ? [profile.body.proof.linkedBeginPrefix, nodes[1], profile.body.proof.linkedBeginSuffix]
+                : [`${capitalize(this.type)} of `, nodes[1], "."];
+        }
+
+        // > [!proof] (Obsidian shows the capitalized type if no title is given)
+        if (!nodes.length || this.titleNodes.map((node) => node.textContent).join("").trim() === capitalize(this.type)) {
+            return [this.type === "proof" ? profile.body.proof.begin : `${capitalize(this.type)}.`];
+        }
+
+        // > [!proof] Sketch
+        return this.titleNodes;
+    }
+}
@@ -1,4 +1,5 @@
 import { Profile } from "settings/profile";
+import { ProofMarker } from "utils/parse";
 
 export function makeProofClasses(which: "begin" | "end", profile: Profile) {
     return [
@@ -15,3 +16,39 @@ export function makeProofElement(which: "begin" | "end", profile: Profile) {
         cls: makeProofClasses(which, profile)
     })
 }
+
+/** 
+ * The number of proofs containing the text between the given offsets: 0 if outside any proof, 1 if in a top-level proof, 2 if in a proof nested in another one, ...
+ * The text containing a beginning marker is regarded as a part of the proof.
+ */
+export function getProofDepth(markers: ProofMarker[], from: number, to: number): number {
+    let depth = 0;
+    let innerDepth = 0;
+    for (const marker of markers) {
+        if (marker.from >= to) break;
+        if (marker.from < from) {
+            if (marker.which === "begin") depth = marker.depth + 1;
+            else if (marker.matched) depth = marker.depth;
+        } else if (marker.which === "begin") {
+            innerDepth = Math.max(innerDepth, marker.depth + 1);
+        }
+    }
+    return Math.max(depth, innerDepth);
+}
+
+/** Style a marker according to its nesting level, and flag it if it's not paired. */
+export function decorateProofMarker(el: HTMLElement, marker: ProofMarker, endProof: string) {
+    el.addClass("latex-referencer-proof-depth-" + marker.depth);
+    if (!marker.matched) {
+        el.addClass("latex-referencer-proof-unbalanced");
+        el.setAttribute("aria-label", marker.which === "begin" ? `No matching \`${endProof}\`` : "No matching beginning of a proof");
+    }
+}
+
+/** Style the content of a proof according to its nesting level, e.g. to indent nested proofs. */
+export function decorateProofContent(el: HTMLElement, depth: number) {
+    el.toggleClass("latex-referencer-proof-content", depth > 0);
+    el.toggleClass("latex-referencer-proof-nested", depth > 1);
+    if (depth > 0) el.style.setProperty("--latex-referencer-proof-depth", String(depth));
+    else el.style.removeProperty("--latex-referencer-proof-depth");
+}
@@ -1,15 +1,16 @@
 import { editorInfoField } from 'obsidian';
-import { RangeSetBuilder } from '@codemirror/state';
+import { EditorState, Range, StateEffect, StateField } from '@codemirror/state';
 import { Decoration, DecorationSet, EditorView, PluginValue, ViewPlugin, ViewUpdate, WidgetType } from '@codemirror/view';
 import { SyntaxNodeRef } from '@lezer/common';
-import { syntaxTree } from '@codemirror/language';
+import { foldEffect, foldService, foldedRanges, syntaxTree, unfoldEffect } from '@codemirror/language';
 
 import LatexReferencer from 'main';
 import { nodeText, rangesHaveOverlap } from 'utils/editor';
 import { Profile } from 'settings/profile';
 import { renderMarkdown } from 'utils/render';
 import { resolveSettings } from 'utils/plugin';
-import { makeProofClasses, makeProofElement } from './common';
+import { ProofMarker, findProofMarkers } from 'utils/parse';
+import { decorateProofMarker, getProofDepth, makeProofClasses, makeProofElement } from './common';
 
 export const INLINE_CODE = "inline-code";
 export const LINK_BEGIN = "formatting-link_formatting-link-start";
@@ -20,17 +21,25 @@ export const LINK_END = "formatting-link_formatting-link-end";
 abstract class ProofWidget extends WidgetType {
     containerEl: HTMLElement | null;
 
-    constructor(public plugin: LatexReferencer, public profile: Profile) {
+    constructor(public plugin: LatexReferencer, public profile: Profile, public marker: ProofMarker | undefined, public endProof: string) {
         super();
         this.containerEl = null;
     }
 
     eq(other: EndProofWidget): boolean {
-        return this.profile.id === other.profile.id;
+        return this.profile.id === other.profile.id && this.markerEq(other);
     }
 
-    toDOM(): HTMLElement {
-        return this.containerEl ?? (this.containerEl = this.initDOM());
+    markerEq(other: ProofWidget): boolean {
+        return this.marker?.depth === other.marker?.depth && this.marker?.matched === other.marker?.matched;
+    }
+
+    toDOM(view: EditorView): HTMLElement {
+        if (!this.containerEl) {
+            this.containerEl = this.initDOM();
+            if (this.marker) decorateProofMarker(this.containerEl, this.marker, this.endProof);
+        }
+        return this.containerEl;
     }
 
     abstract initDOM(): HTMLElement;
@@ -46,15 +55,30 @@ class BeginProofWidget extends ProofWidget {
 
     constructor(
         plugin: LatexReferencer, profile: Profile,
+        marker: ProofMarker | undefined, endProof: string,
         public display: string | null,
         public linktext: string | null,
         public sourcePath: string
     ) {
-        super(plugin, profile);
+        super(plugin, profile, marker, endProof);
     }
 
     eq(other: BeginProofWidget): boolean {
-        return this.profile.id === other.profile.id && this.display === other.display && this.linktext === other.linktext && this.sourcePath == other.sourcePath;
+        return this.profile.id === other.profile.id && this.display === other.display && this.linktext === other.linktext && this.sourcePath == other.sourcePath && this.markerEq(other);
+    }
+
+    toDOM(view: EditorView): HTMLElement {
+        const el = super.toDOM(view);
+        if (this.marker?.pair) {
+            // clicking "Proof." folds/unfolds the proof like a callout, while links in it (e.g. "Proof of [[Theorem 1]]") work as usual
+            el.addClass("latex-referencer-proof-foldable");
+            el.onmousedown = (event) => {
+                if (event.button !== 0 || (event.target instanceof HTMLElement && event.target.closest("a"))) return;
+                event.preventDefault();
+                toggleProofFold(this.plugin, view, view.posAtDOM(el));
+            };
+        }
+        return el;
     }
 
     initDOM(): HTMLElement {
@@ -125,7 +149,33 @@ export const createProofDecoration = (plugin: LatexReferencer) => ViewPlugin.fro
             const settings = resolveSettings(undefined, plugin, file ?? app.vault.getRoot());
             const profile = plugin.extraSettings.profiles[settings.profile];
 
-            const builder = new RangeSetBuilder<Decoration>();
+            // the markers in the entire note are needed to know the nesting structure
+            const allMarkers = state.field(plugin.proofMarkersField);
+            const markers = new Map(allMarkers.map((marker) => [marker.from, marker]));
+            const decorations: Range<Decoration>[] = [];
+
+            // the lines in proofs, so that nested proofs can be styled differently (e.g. indented)
+            for (const { from, to } of view.visibleRanges) {
+                for (let pos = from; pos <= to;) {
+                    const line = state.doc.lineAt(pos);
+                    const depth = getProofDepth(allMarkers, line.from, line.to + 1);
+                    if (depth > 0) {
+                        decorations.push(Decoration.line({
+                            class: "latex-referencer-proof-content" + (depth > 1 ? " latex-referencer-proof-nested" : ""),
+                            attributes: { style: `--latex-referencer-proof-depth: ${depth}` }
+                        }).range(line.from));
+                    }
+                    pos = line.to + 1;
+                }
+            }
+
+            /** Flag an unpaired marker that is not replaced with a widget because the cursor is on it. */
+            const markUnbalanced = (marker: ProofMarker | undefined, start: number, end: number) => {
+                if (marker && !marker.matched) {
+                    const label = marker.which === "begin" ? `No matching \`${settings.endProof}\`` : "No matching beginning of a proof";
+                    decorations.push(Decoration.mark({ class: "latex-referencer-proof-unbalanced", attributes: { "aria-label": label } }).range(start, end));
+                }
+            };
 
             for (const { from, to } of view.visibleRanges) {
                 tree.iterate({
@@ -168,44 +218,92 @@ export const createProofDecoration = (plugin: LatexReferencer) => ViewPlugin.fro
                                 }
                             }
 
+                            const marker = markers.get(start);
                             if (!rangesHaveOverlap(ranges, start, end)) {
-                                builder.add(
-                                    start, end,
+                                decorations.push(
                                     Decoration.replace({
-                                        widget: new BeginProofWidget(plugin, profile, display, linktext, sourcePath)
-                                    })
+                                        widget: new BeginProofWidget(plugin, profile, marker, settings.endProof, display, linktext, sourcePath)
+                                    }).range(start, end)
                                 );
-                            }
+                            } else markUnbalanced(marker, start, end);
 
                         } else if (text === settings.endProof) {
                             // handle "\end{proof}"
                             start = node.from - 1;
                             end = node.to + 1; // 1 = "`".length
 
+                            const marker = markers.get(start);
                             if (!rangesHaveOverlap(ranges, start, end)) {
-                                builder.add(
-                                    start, end,
+                                decorations.push(
                                     Decoration.replace({
-                                        widget: new EndProofWidget(plugin, profile)
-                                    })
+                                        widget: new EndProofWidget(plugin, profile, marker, settings.endProof)
+                                    }).range(start, end)
                                 );
-                            }
+                            } else markUnbalanced(marker, start, end);
                         }
                     }
                 });
             }
-            return builder.finish();
+            return Decoration.set(decorations, true);
         }
     }, {
     decorations: instance => instance.decorations
 });
 
-// export const proofFoldFactory = (plugin: LatexReferencer) => foldService.of((state: EditorState, lineStart: number, lineEnd: number) => {
-//     const positions = state.field(plugin.proofPositionField);
-//     for (const pos of positions) {
-//         if (pos.begin && pos.end && lineStart <= pos.begin.from && pos.begin.to <= lineEnd) {
-//             return { from: pos.begin.to, to: pos.end.to };
-//         }
-//     }
-//     return null;
-// });
+/** The proof markers in the entire note, paired with each other. */
+export const createProofMarkersField = (plugin: LatexReferencer) => StateField.define<ProofMarker[]>({
+    create: (state) => findProofMarkersInState(plugin, state),
+    update: (markers, tr) => tr.docChanged ? findProofMarkersInState(plugin, tr.state) : markers,
+});
+
+function findProofMarkersInState(plugin: LatexReferencer, state: EditorState): ProofMarker[] {
+    const file = state.field(editorInfoField).file;
+    const { beginProof, endProof } = resolveSettings(undefined, plugin, file ?? plugin.app.vault.getRoot());
+    return findProofMarkers(state.doc.toString(), beginProof, endProof);
+}
+
+/** 
+ * The range folded for the proof beginning in the given line: from the end of the line to the matching ending marker, 
+ * just like a callout is folded into its first line.
+ */
+function getProofFoldRange(state: EditorState, plugin: LatexReferencer, lineStart: number, lineEnd: number): { from: number, to: number } | null {
+    const markers = state.field(plugin.proofMarkersField, false) ?? [];
+    const begin = markers.find((marker) => marker.which === "begin" && lineStart <= marker.from && marker.from <= lineEnd && marker.pair && marker.pair.from > lineEnd);
+    return begin?.pair ? { from: lineEnd, to: begin.pair.to } : null;
+}
+
+export const createProofFoldService = (plugin: LatexReferencer) => foldService.of((state, lineStart, lineEnd) => getProofFoldRange(state, plugin, lineStart, lineEnd));
+
+/** Fold the proof beginning in the line at the given position, or unfold it if it's already folded. */
+function toggleProofFold(plugin: LatexReferencer, view: EditorView, pos: number) {
+    const { state } = view;
+    const line = state.doc.lineAt(pos);
+    const range = getProofFoldRange(state, plugin, line.from, line.to);
+    if (!range) return;
+    let folded = false;
+    foldedRanges(state).between(range.from, range.from, (from, to) => {
+        if (from === range.from && to === range.to) folded = true;
+    });
+    view.dispatch({ effects: (folded ? unfoldEffect : foldEffect).of(range) });
+}
+
+/** Fold all the proofs in the note when it's opened if the "foldProofs" setting is turned on. */
+export const createProofDefaultFoldPlugin = (plugin: LatexReferencer) => ViewPlugin.fromClass(
+    class implements PluginValue {
+        constructor(view: EditorView) {
+            const file = view.state.field(editorInfoField).file;
+            if (!file || !resolveSettings(undefined, plugin, file).foldProofs) return;
+            // a view plugin cannot dispatch transactions while it's being constructed
+            setTimeout(() => {
+                const effects: StateEffect<unknown>[] = [];
+                for (const marker of view.state.field(plugin.proofMarkersField)) {
+                    if (marker.which !== "begin") continue;
+                    const line = view.state.doc.lineAt(marker.from);
+                    const range = getProofFoldRange(view.state, plugin, line.from, line.to);
+                    if (range) effects.push(foldEffect.of(range));
+                }
+                if (effects.length) view.dispatch({ effects });
+            });
+        }
+    }
+);
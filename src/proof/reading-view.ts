@@ -1,39 +1,208 @@
 import LatexReferencer from "main";
-import { App, MarkdownPostProcessorContext, MarkdownRenderChild, TFile } from "obsidian";
+import { App, MarkdownPostProcessorContext, MarkdownRenderChild, MarkdownSectionInformation, MarkdownView, TFile } from "obsidian";
 import { resolveSettings } from "utils/plugin";
-import { makeProofClasses, makeProofElement } from "./common";
+import { decorateProofContent, decorateProofMarker, getProofDepth, makeProofClasses, makeProofElement } from "./common";
+import { ProofMarker, findProofMarkers } from "utils/parse";
 import { renderMarkdown } from "utils/render";
 import { Profile } from "settings/profile";
 
-export const createProofProcessor = (plugin: LatexReferencer) => (element: HTMLElement, context: MarkdownPostProcessorContext) => {
-    if (!plugin.extraSettings.enableProof) return;
-
+export const createProofProcessor = (plugin: LatexReferencer) => {
     const { app } = plugin;
 
-    const file = app.vault.getAbstractFileByPath(context.sourcePath);
-    if (!(file instanceof TFile)) return;
-
-    const settings = resolveSettings(undefined, plugin, file);
-    const codes = element.querySelectorAll<HTMLElement>("code");
-    for (const code of codes) {
-        const text = code.textContent;
-        if (!text) continue;
-
-        if (text.startsWith(settings.beginProof)) {
-            const rest = text.slice(settings.beginProof.length);
-            let displayMatch;
-            if (!rest) {
-                context.addChild(new ProofRenderer(app, plugin, code, "begin", file));
-            } else if (displayMatch = rest.match(/^\[(.*)\]$/)) {
-                const display = displayMatch[1];
-                context.addChild(new ProofRenderer(app, plugin, code, "begin", file, display));
+    /** 
+     * Whether each proof is folded in reading view, keyed by the note path and the offset of the beginning marker in the current text.
+     * Dropped when the note is modified (since the offsets can change) or closed.
+     */
+    const foldStates = new Map<string, Map<number, boolean>>();
+    /** The proof markers found in each note, since they are needed for every section of the same note. Dropped when the note is closed. */
+    const markerCaches = new Map<string, { text: string, beginProof: string, endProof: string, markers: ProofMarker[] }>();
+
+    plugin.registerEvent(app.vault.on("modify", (file) => {
+        if (!foldStates.delete(file.path)) return;
+        // the sections that are not re-rendered might be hidden according to the dropped states
+        app.workspace.iterateAllLeaves((leaf) => {
+            if (leaf.view instanceof MarkdownView && leaf.view.file === file && leaf.view.getMode() === "preview") leaf.view.previewMode.rerender(true);
+        });
+    }));
+    plugin.registerEvent(app.workspace.on("layout-change", () => {
+        const openPaths = new Set<string>();
+        app.workspace.iterateAllLeaves((leaf) => {
+            if (leaf.view instanceof MarkdownView && leaf.view.file) openPaths.add(leaf.view.file.path);
+        });
+        for (const states of [foldStates, markerCaches]) {
+            for (const path of states.keys()) {
+                if (!openPaths.has(path)) states.delete(path);
             }
-        } else if (code.textContent == settings.endProof) {
-            context.addChild(new ProofRenderer(app, plugin, code, "end", file));
         }
-    }
+    }));
+
+    /** Find the proof markers in the entire note, paired with each other. */
+    const getProofMarkers = (file: TFile, text: string): ProofMarker[] => {
+        const { beginProof, endProof } = resolveSettings(undefined, plugin, file);
+        let cache = markerCaches.get(file.path);
+        if (cache?.text !== text || cache.beginProof !== beginProof || cache.endProof !== endProof) {
+            cache = { text, beginProof, endProof, markers: findProofMarkers(text, beginProof, endProof) };
+            markerCaches.set(file.path, cache);
+        }
+        return cache.markers;
+    };
+
+    const isProofFolded = (file: TFile, marker: ProofMarker): boolean => {
+        return foldStates.get(file.path)?.get(marker.from) ?? resolveSettings(undefined, plugin, file).foldProofs;
+    };
+
+    const setProofFolded = (file: TFile, marker: ProofMarker, folded: boolean) => {
+        if (!foldStates.has(file.path)) foldStates.set(file.path, new Map());
+        foldStates.get(file.path)!.set(marker.from, folded);
+    };
+
+    /** Hide the section if it's inside a folded proof, i.e. after its beginning and up to its end. */
+    const updateProofFold = (file: TFile, sectionEl: HTMLElement, context: MarkdownPostProcessorContext) => {
+        const info = context.getSectionInfo(sectionEl);
+        if (!info) return;
+        const { from } = getSectionRange(info);
+        const folded = getProofMarkers(file, info.text).some((marker) => {
+            return marker.which === "begin" && marker.pair && marker.from < from && from <= marker.pair.from && isProofFolded(file, marker);
+        });
+        sectionEl.toggleClass("latex-referencer-proof-folded", folded);
+    };
+
+    return (element: HTMLElement, context: MarkdownPostProcessorContext) => {
+        if (!plugin.extraSettings.enableProof) return;
+
+        const file = app.vault.getAbstractFileByPath(context.sourcePath);
+        if (!(file instanceof TFile)) return;
+
+        const settings = resolveSettings(undefined, plugin, file);
+
+        // pair the markers in this section with those in the entire note to know the nesting structure
+        const info = context.getSectionInfo(element);
+        let markers: ProofMarker[] = [];
+        let sectionEnd = 0;
+        if (info) {
+            const { from, to } = getSectionRange(info);
+            sectionEnd = to;
+            const allMarkers = getProofMarkers(file, info.text);
+            markers = allMarkers.filter((marker) => from <= marker.from && marker.from < to);
+            decorateProofContent(element, getProofDepth(allMarkers, from, to));
+            updateProofFold(file, element, context);
+        }
+
+        const renderers = new Map<ProofMarker, ProofRenderer>();
+
+        // a proof ending in this section is folded by hiding the content between the markers
+        const foldInline = (marker: ProofMarker, folded: boolean) => {
+            const begin = renderers.get(marker);
+            const end = marker.pair && renderers.get(marker.pair);
+            if (begin && end) setInlineProofFolded(element, begin, end.containerEl, folded);
+        };
+
+        // a proof can be folded by clicking its beginning
+        const makeFoldToggler = (marker?: ProofMarker) => {
+            if (!marker?.pair) return undefined;
+            return () => {
+                const folded = !isProofFolded(file, marker);
+                setProofFolded(file, marker, folded);
+                if (marker.pair!.from < sectionEnd) {
+                    foldInline(marker, folded);
+                } else {
+                    for (const sectionEl of element.parentElement?.children ?? []) {
+                        if (sectionEl instanceof HTMLElement) updateProofFold(file, sectionEl, context);
+                    }
+                }
+                return folded;
+            };
+        };
+
+        // the markers in this section appear in the same order as the code elements
+        let markerIndex = 0;
+        const nextMarker = (which: "begin" | "end") => {
+            const marker = markers[markerIndex++];
+            return marker?.which === which ? marker : undefined;
+        };
+        const addRenderer = (renderer: ProofRenderer) => {
+            if (renderer.marker) renderers.set(renderer.marker, renderer);
+            context.addChild(renderer);
+        };
+
+        const codes = element.querySelectorAll<HTMLElement>("code");
+        for (const code of codes) {
+            const text = code.textContent;
+            if (!text) continue;
+
+            if (text.startsWith(settings.beginProof)) {
+                const rest = text.slice(settings.beginProof.length);
+                let displayMatch;
+                if (!rest) {
+                    const marker = nextMarker("begin");
+                    addRenderer(new ProofRenderer(app, plugin, code, "begin", file, undefined, marker, makeFoldToggler(marker), marker && isProofFolded(file, marker)));
+                } else if (displayMatch = rest.match(/^\[(.*)\]$/)) {
+                    const display = displayMatch[1];
+                    const marker = nextMarker("begin");
+                    addRenderer(new ProofRenderer(app, plugin, code, "begin", file, display, marker, makeFoldToggler(marker), marker && isProofFolded(file, marker)));
+                }
+            } else if (code.textContent == settings.endProof) {
+                addRenderer(new ProofRenderer(app, plugin, code, "end", file, undefined, nextMarker("end")));
+            }
+        }
+
+        for (const marker of markers) {
+            if (marker.which === "begin" && marker.pair && marker.pair.from < sectionEnd && isProofFolded(file, marker)) foldInline(marker, true);
+        }
+    };
 };
 
+/** The offsets of the beginning and the end of the section in the entire note. */
+function getSectionRange(info: MarkdownSectionInformation): { from: number, to: number } {
+    const lines = info.text.split("\n");
+    const from = lines.slice(0, info.lineStart).join("\n").length + (info.lineStart > 0 ? 1 : 0);
+    const to = from + lines.slice(info.lineStart, info.lineEnd + 1).join("\n").length;
+    return { from, to };
+}
+
+/** 
+ * Hide or show the content of a proof between the given markers in the same section.
+ * Text nodes are wrapped in spans so that they can be hidden as well.
+ */
+function setInlineProofFolded(sectionEl: HTMLElement, begin: ProofRenderer, endEl: HTMLElement, folded: boolean) {
+    // the "@[[...]]" following the beginning marker is a part of the header
+    const header = new Set<Node>(begin.atSignParseResult ? [begin.atSignParseResult.atSign, ...begin.atSignParseResult.links] : []);
+    for (let node of getNodesBetween(sectionEl, begin.containerEl, endEl)) {
+        if (header.has(node)) continue;
+        if (node instanceof Text) {
+            if (!node.textContent?.trim()) continue;
+            const span = createSpan();
+            node.replaceWith(span);
+            span.append(node);
+            node = span;
+        }
+        if (node instanceof HTMLElement) node.toggleClass("latex-referencer-proof-folded", folded);
+    }
+}
+
+/** The outermost nodes in `root` after `start` and before `end` in the document order, not containing either of them. */
+function getNodesBetween(root: Node, start: Node, end: Node): Node[] {
+    // the node after the given one, skipping its descendants
+    const next = (node: Node): Node | null => {
+        for (let current: Node | null = node; current && current !== root; current = current.parentNode) {
+            if (current.nextSibling) return current.nextSibling;
+        }
+        return null;
+    };
+
+    const nodes: Node[] = [];
+    let node = next(start);
+    while (node && node !== end) {
+        if (node.contains(end)) {
+            node = node.firstChild;
+            continue;
+        }
+        nodes.push(node);
+        node = next(node);
+    }
+    return nodes;
+}
+
 
 function parseAtSignLink(codeEl: HTMLElement) {
     const next = codeEl.nextSibling;
@@ -51,7 +220,7 @@ function parseAtSignLink(codeEl: HTMLElement) {
 export class ProofRenderer extends MarkdownRenderChild {
     atSignParseResult: { atSign: ChildNode, links: HTMLElement[] } | undefined;
 
-    constructor(public app: App, public plugin: LatexReferencer, containerEl: HTMLElement, public which: "begin" | "end", public file: TFile, public display?: string) {
+    constructor(public app: App, public plugin: LatexReferencer, containerEl: HTMLElement, public which: "begin" | "end", public file: TFile, public display?: string, public marker?: ProofMarker, public toggleFold?: () => boolean, public folded?: boolean) {
         super(containerEl);
         this.atSignParseResult = parseAtSignLink(this.containerEl);
     }
@@ -83,8 +252,7 @@ export class ProofRenderer extends MarkdownRenderChild {
             const { atSign, links } = this.atSignParseResult;
             const newEl = createSpan({ cls: makeProofClasses(this.which, profile) });
             newEl.replaceChildren(profile.body.proof.linkedBeginPrefix, ...links, profile.body.proof.linkedBeginSuffix);
-            this.containerEl.replaceWith(newEl);
-            this.containerEl = newEl;
+            this.replaceContainerEl(newEl);
             atSign.textContent = "";
             return;
         }
@@ -101,6 +269,22 @@ export class ProofRenderer extends MarkdownRenderChild {
          * `\begin{proof}` => Proof.
          */
         const newEl = makeProofElement(this.which, profile);
+        this.replaceContainerEl(newEl);
+    }
+
+    replaceContainerEl(newEl: HTMLElement) {
+        if (this.marker) decorateProofMarker(newEl, this.marker, resolveSettings(undefined, this.plugin, this.file).endProof);
+        if (this.marker && this.toggleFold) {
+            const toggleFold = this.toggleFold;
+            newEl.addClass("latex-referencer-proof-foldable");
+            newEl.toggleClass("is-collapsed", !!this.folded);
+            newEl.addEventListener("click", (evt) => {
+                // clicking a link in the header, e.g. "Proof of [[Theorem 1]]", should open the link
+                if (evt.target instanceof Element && evt.target.closest("a")) return;
+                this.folded = toggleFold();
+                newEl.toggleClass("is-collapsed", this.folded);
+            });
+        }
         this.containerEl.replaceWith(newEl);
         this.containerEl = newEl;
     }
@@ -111,8 +295,7 @@ export class ProofRenderer extends MarkdownRenderChild {
             if (children) {
                 const el = createSpan({ cls: makeProofClasses(this.which, profile) });
                 el.replaceChildren(...children);
-                this.containerEl.replaceWith(el);
-                this.containerEl = el;
+                this.replaceContainerEl(el);
             }
         }
     }
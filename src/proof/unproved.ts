@@ -0,0 +1,43 @@
+import { FuzzyMatch, FuzzySuggestModal, TFile, finishRenderMath } from 'obsidian';
+
+import LatexReferencer from 'main';
+import { TheoremCalloutBlock } from 'index/typings/markdown';
+import { getFileTitle } from 'index/utils/normalizers';
+import { LEAF_OPTION_TO_ARGS } from 'settings/settings';
+import { openFileAndSelectPosition } from 'utils/obsidian';
+import { renderTextWithMath } from 'utils/render';
+
+
+/** Lists the theorems, lemmas, etc. that have no proofs in the vault, and jumps to the chosen one. */
+export class UnprovedTheoremSuggestModal extends FuzzySuggestModal<TheoremCalloutBlock> {
+    constructor(public plugin: LatexReferencer) {
+        super(plugin.app);
+        this.setPlaceholder("Search unproved theorems");
+        this.emptyStateText = "No unproved theorems found.";
+    }
+
+    getItems(): TheoremCalloutBlock[] {
+        return this.plugin.indexManager.index.getUnprovedTheorems();
+    }
+
+    getItemText(block: TheoremCalloutBlock): string {
+        return `${block.$printName} ${block.$file}`;
+    }
+
+    renderSuggestion({ item: block }: FuzzyMatch<TheoremCalloutBlock>, el: HTMLElement) {
+        const baseEl = el.createDiv({ cls: "math-booster-search-item" });
+        baseEl.createDiv().replaceChildren(...renderTextWithMath(block.$printName ?? ""));
+        baseEl.createEl("small", {
+            text: `${getFileTitle(block.$file)}, line ${block.$position.start + 1}`,
+            cls: "math-booster-search-item-description"
+        });
+        finishRenderMath();
+    }
+
+    onChooseItem(block: TheoremCalloutBlock) {
+        const file = this.app.vault.getAbstractFileByPath(block.$file);
+        if (file instanceof TFile) {
+            openFileAndSelectPosition(this.app, file, block.$pos, ...LEAF_OPTION_TO_ARGS[this.plugin.extraSettings.suggestLeafOption]);
+        }
+    }
+}
@@ -0,0 +1,118 @@
+import { TFile } from 'obsidian';
+
+import LatexReferencer from 'main';
+import { getIO } from 'file-io';
+import { EquationBlock, MarkdownBlock, MathBlock, TheoremCalloutBlock } from 'index/typings/markdown';
+import { escapeRegExp, readTheoremCalloutSettings, trimMathText } from 'utils/parse';
+
+
+/** A change to a line. `before` is null when a new line is inserted. */
+export interface LineChange {
+    file: TFile;
+    line: number;
+    before: string | null;
+    after: string;
+}
+
+
+/** Apply the changes through FileIO, i.e. the editor for the active note and the vault for the others. */
+export async function applyLineChanges(plugin: LatexReferencer, changes: LineChange[]) {
+    const files = new Set(changes.map((change) => change.file));
+    for (const file of files) {
+        const io = getIO(plugin, file);
+        const changesInFile = changes.filter((change) => change.file === file);
+        // from bottom to top, since a change can split a line into several lines
+        for (const change of [...changesInFile].sort((a, b) => b.line - a.line)) {
+            if (change.before !== null) await io.setLine(change.line, change.after);
+        }
+        // insert lines after modifying the others so that the line numbers stay valid
+        for (const change of changesInFile) {
+            if (change.before === null) await io.insertLine(change.line, change.after);
+        }
+    }
+}
+
+/**
+ * The line containing the block ID of the given block, or null if not found.
+ * The ID can be at the end of the block's last line, or in a separate paragraph right after the block
+ * (possibly after a blank line, as inserted by `insertBlockIdIfNotExist`).
+ * Pass `position` if the block has moved since it was indexed.
+ */
+export function findBlockIdLine(block: MarkdownBlock, lines: string[], position = block.$position): number | null {
+    if (!block.$blockId) return null;
+    const pattern = new RegExp(`\\^${escapeRegExp(block.$blockId)}\\s*$`, "i");
+    const { start, end } = position;
+    for (let line = Math.min(end + 2, lines.length - 1); line >= start; line--) {
+        // don't go beyond the paragraph right after the block
+        if (line > end + 1 && lines[end + 1].trim()) continue;
+        if (lines[line].match(pattern)) return line;
+    }
+    return null;
+}
+
+/** The quote markers at the beginning of the line, e.g. "> > " for a line in a callout nested in another one. */
+export function getQuotePrefix(line: string): string {
+    return line.match(/^(?:\s*>)*\s*/)![0];
+}
+
+function getQuoteDepth(line: string): number {
+    return (getQuotePrefix(line).match(/>/g) ?? []).length;
+}
+
+/**
+ * The lines of the given theorem or equation in the given text, which may differ from the positions in the index
+ * if the note has been edited since it was indexed (e.g. unsaved changes in the editor).
+ * The nearest match to the indexed position is returned, or null if the block is not found.
+ */
+export function locateBlock(plugin: LatexReferencer, block: MathBlock, lines: string[]): { start: number, end: number } | null {
+    const candidates = [...lines.keys()].sort((a, b) => Math.abs(a - block.$position.start) - Math.abs(b - block.$position.start));
+    for (const start of candidates) {
+        const end = matchBlockAt(plugin, block, lines, start);
+        if (end === null) continue;
+        // the block ID tells apart identical blocks
+        if (block.$blockId && findBlockIdLine(block, lines, { start, end }) === null) continue;
+        return { start, end };
+    }
+    return null;
+}
+
+/** The last line of the given block if it starts at the given line, or null otherwise. */
+function matchBlockAt(plugin: LatexReferencer, block: MathBlock, lines: string[], start: number): number | null {
+    if (TheoremCalloutBlock.isTheoremCalloutBlock(block)) {
+        const { theoremLikeEnvs, excludeExampleCallout } = plugin.extraSettings;
+        const settings = readTheoremCalloutSettings(lines[start], theoremLikeEnvs, excludeExampleCallout);
+        if (!settings || settings.type !== block.$settings.type || settings.number !== block.$settings.number || settings.title !== block.$settings.title) return null;
+        const depth = getQuoteDepth(lines[start]);
+        let end = start;
+        while (end + 1 < lines.length && getQuoteDepth(lines[end + 1]) >= depth) end++;
+        return end;
+    }
+
+    if (EquationBlock.isEquationBlock(block)) {
+        const prefix = getQuotePrefix(lines[start]);
+        if (!lines[start].slice(prefix.length).startsWith("$$")) return null;
+        for (let end = start; end < lines.length; end++) {
+            const rawText = lines.slice(start, end + 1).join("\n");
+            const text = lines.slice(start, end + 1).map((line) => line.slice(getQuotePrefix(line).length)).join("\n");
+            // the closing $$
+            if (text.indexOf("$$", 2) === -1) continue;
+            return trimMathText(text) === block.$mathText || trimMathText(rawText) === block.$mathText ? end : null;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * The position of the given text (e.g. a link) in the given lines, searched from the position recorded in the metadata cache,
+ * which can be out of date if the note has unsaved changes. Returns null if not found.
+ */
+export function locateText(lines: string[], line: number, col: number, text: string): { line: number, from: number, to: number } | null {
+    if (lines[line]?.startsWith(text, col)) return { line, from: col, to: col + text.length };
+    const candidates = [...lines.keys()].sort((a, b) => Math.abs(a - line) - Math.abs(b - line));
+    for (const candidate of candidates) {
+        const from = lines[candidate].indexOf(text);
+        if (from >= 0) return { line: candidate, from, to: from + text.length };
+    }
+    return null;
+}
@@ -0,0 +1,181 @@
+import { FuzzySuggestModal, Notice, TFile, parseLinktext } from 'obsidian';
+
+import LatexReferencer from 'main';
+import { getIO } from 'file-io';
+import { Linkable } from 'index/typings/indexable';
+import { MathBlock, TheoremCalloutBlock } from 'index/typings/markdown';
+import { LineChange, applyLineChanges, findBlockIdLine, locateBlock, locateText } from 'refactor/common';
+import { splitIntoLines } from 'utils/general';
+import { findProofRanges, parseLabelLinktext, parseProofCalloutHeader } from 'utils/parse';
+import { resolveSettings } from 'utils/plugin';
+
+
+/**
+ * Move the given theorem or equation (together with its block ID and the proof right after it) to the end of another note,
+ * and update every link to it (or to any block inside it) so that it points to the new location.
+ * Label-based links ([[@label]], \ref{label}) don't depend on the location, so they are left as they are.
+ */
+export async function moveBlock(plugin: LatexReferencer, block: MathBlock, targetFile: TFile) {
+    const { app, indexManager: { index } } = plugin;
+    const sourceFile = app.vault.getAbstractFileByPath(block.$file);
+    if (!(sourceFile instanceof TFile)) return;
+    if (sourceFile === targetFile) {
+        new Notice(`${plugin.manifest.name}: The block is already in ${targetFile.basename}.`);
+        return;
+    }
+
+    const getLines = async (file: TFile) => splitIntoLines(await getIO(plugin, file).getText());
+    const sourceLines = await getLines(sourceFile);
+    // the index can be out of date if the note has unsaved changes, so find the block in the current text
+    const position = locateBlock(plugin, block, sourceLines);
+    if (!position) throw Error(`Could not find the block in ${sourceFile.basename}. Save the note and retry later.`);
+    const { start, end } = getMovedLineRange(plugin, sourceFile, block, position, sourceLines);
+
+    // the blocks moved together, e.g. equations in the proof, found by the block IDs in the moved lines
+    const page = index.getMarkdownPage(sourceFile.path);
+    const movedBlockIds = new Set(sourceLines.slice(start, end + 1)
+        .map((line) => line.match(/\^([A-Za-z0-9-]+)\s*$/)?.[1].toLowerCase())
+        .filter((id): id is string => !!id));
+    const movedBlocks = [...movedBlockIds].map((id) => page?.$blocks.get(id)).filter((other): other is NonNullable<typeof other> => !!other);
+
+    const files = new Set<TFile>([sourceFile]);
+    for (const movedBlock of movedBlocks) {
+        if (!movedBlock.$blockId) continue;
+        for (const object of index.load([...index.getBacklinks(movedBlock as Linkable)])) {
+            const file = app.vault.getAbstractFileByPath(object.$file ?? object.$id);
+            if (file instanceof TFile) files.add(file);
+        }
+    }
+
+    // maps each file to the modified lines
+    const edits = new Map<TFile, Map<number, string>>();
+    const changes: LineChange[] = [];
+    let linkCount = 0;
+    for (const file of files) {
+        const cache = app.metadataCache.getFileCache(file);
+        if (!cache) continue;
+        const lines = file === sourceFile ? sourceLines : await getLines(file);
+        // the changes in each line, applied from right to left so that the columns stay valid
+        const linkChanges: { line: number, from: number, to: number, text: string }[] = [];
+
+        for (const link of [...cache.links ?? [], ...cache.embeds ?? []]) {
+            const { start: linkStart, end: linkEnd } = link.position;
+            if (linkStart.line !== linkEnd.line || parseLabelLinktext(link.link) !== null) continue;
+            // the metadata cache can be out of date if the note has unsaved changes
+            const location = locateText(lines, linkStart.line, linkStart.col, link.original);
+            if (!location) continue;
+
+            const { path, subpath } = parseLinktext(link.link);
+            const linkedFile: TFile | null = path ? app.metadataCache.getFirstLinkpathDest(path, file.path) : file;
+            if (linkedFile !== sourceFile) continue;
+
+            // where the link will be after the move
+            const isMoved = file === sourceFile && start <= location.line && location.line <= end;
+            const newPath = isMoved ? targetFile.path : file.path;
+            let newLinktext: string;
+            if (subpath.startsWith("#^") && movedBlockIds.has(subpath.slice(2).toLowerCase())) {
+                newLinktext = (newPath === targetFile.path ? "" : app.metadataCache.fileToLinktext(targetFile, newPath)) + subpath;
+            } else if (isMoved && !path) {
+                // a link from the moved block to another part of the original note, e.g. [[#Definitions]]
+                newLinktext = app.metadataCache.fileToLinktext(sourceFile, targetFile.path) + subpath;
+            } else continue;
+            if (newLinktext === link.link) continue;
+
+            linkChanges.push({ line: location.line, from: location.from, to: location.to, text: replaceLinktext(link.original, link.link, newLinktext) });
+            linkCount++;
+        }
+
+        linkChanges.sort((a, b) => a.line - b.line || b.from - a.from);
+        const lineEdits = new Map<number, string>();
+        for (const change of linkChanges) {
+            const text = lineEdits.get(change.line) ?? lines[change.line];
+            lineEdits.set(change.line, text.slice(0, change.from) + change.text + text.slice(change.to));
+        }
+        edits.set(file, lineEdits);
+        for (const [line, after] of lineEdits) {
+            // the moved lines are pasted into the target note later
+            if (file === sourceFile && start <= line && line <= end) continue;
+            changes.push({ file, line, before: lines[line], after });
+        }
+    }
+
+    const movedText = sourceLines.slice(start, end + 1).map((text, i) => edits.get(sourceFile)?.get(start + i) ?? text).join("\n");
+
+    // first update the links, since line numbers change after moving the block
+    await applyLineChanges(plugin, changes);
+
+    // paste the block at the end of the target note, separated by a blank line
+    const targetIO = getIO(plugin, targetFile);
+    const targetLines = splitIntoLines(await targetIO.getText());
+    const last = targetLines.length - 1;
+    if (targetLines[last].trim()) {
+        await targetIO.setLine(last, targetLines[last] + "\n\n" + movedText);
+    } else {
+        await targetIO.setLine(last, (last > 0 && targetLines[last - 1].trim() ? "\n" : "") + movedText + "\n");
+    }
+
+    // cut the block from the original note, without leaving two blank lines in a row
+    let deleteEnd = end;
+    if ((start === 0 || !sourceLines[start - 1].trim()) && deleteEnd + 1 < sourceLines.length && !sourceLines[deleteEnd + 1].trim()) deleteEnd++;
+    await getIO(plugin, sourceFile).deleteLines(start, deleteEnd);
+
+    new Notice(`${plugin.manifest.name}: Moved to ${targetFile.basename}${linkCount ? ` and updated ${linkCount} link${linkCount === 1 ? "" : "s"}` : ""}.`);
+}
+
+/** The lines to move: the block itself, its block ID and the proof right after it (if it's a theorem). */
+function getMovedLineRange(plugin: LatexReferencer, file: TFile, block: MathBlock, position: { start: number, end: number }, lines: string[]): { start: number, end: number } {
+    const start = position.start;
+    let end = Math.max(position.end, findBlockIdLine(block, lines, position) ?? -1);
+    if (!TheoremCalloutBlock.isTheoremCalloutBlock(block)) return { start, end };
+
+    let next = end + 1;
+    while (next < lines.length && !lines[next].trim()) next++;
+    if (next >= lines.length) return { start, end };
+
+    // > [!proof] right after the theorem; "> [!proof] of [[...]]" is a proof of the linked theorem
+    const header = parseProofCalloutHeader(lines[next]);
+    if (header) {
+        if (header.linktext) return { start, end };
+        end = next;
+        while (end + 1 < lines.length && lines[end + 1].startsWith(">")) end++;
+        return { start, end };
+    }
+
+    const { beginProof, endProof } = resolveSettings(undefined, plugin, file);
+    const text = lines.join("\n");
+    const offset = lines.slice(0, next).join("\n").length + (next > 0 ? 1 : 0);
+    // `\begin{proof}`@[[...]] is a proof of the linked theorem, not necessarily of the preceding one
+    const proof = findProofRanges(text, beginProof, endProof)
+        .find((proof) => !proof.linktext && offset <= proof.start && !text.slice(offset, proof.start).trim());
+    if (proof) end = text.slice(0, proof.end).split("\n").length - 1;
+    return { start, end };
+}
+
+/** Replace the linktext in a wikilink or a markdown link, e.g. [[note#^id|alias]] or [alias](note#^id). */
+function replaceLinktext(original: string, oldLinktext: string, newLinktext: string): string {
+    if (original.includes(oldLinktext)) return original.replace(oldLinktext, newLinktext);
+    return original.replace(oldLinktext.replace(/ /g, "%20"), newLinktext.replace(/ /g, "%20"));
+}
+
+
+export class MoveBlockSuggestModal extends FuzzySuggestModal<TFile> {
+    constructor(public plugin: LatexReferencer, public block: MathBlock) {
+        super(plugin.app);
+        this.setPlaceholder("Choose a note to move the block to");
+    }
+
+    getItems(): TFile[] {
+        return this.app.vault.getMarkdownFiles().filter((file) => file.path !== this.block.$file);
+    }
+
+    getItemText(file: TFile): string {
+        return file.path;
+    }
+
+    onChooseItem(file: TFile) {
+        moveBlock(this.plugin, this.block, file).catch((err) => {
+            console.error(err);
+            new Notice(`${this.plugin.manifest.name}: Failed to move the block. ${err instanceof Error ? err.message : err}`, 5000);
+        });
+    }
+}
@@ -0,0 +1,269 @@
+import { ButtonComponent, Modal, Notice, Setting, TFile, TextComponent, debounce, parseLinktext } from 'obsidian';
+
+import LatexReferencer from 'main';
+import { getIO } from 'file-io';
+import { Linkable } from 'index/typings/indexable';
+import { EquationBlock, MathBlock, TheoremCalloutBlock } from 'index/typings/markdown';
+import { LineChange, applyLineChanges, findBlockIdLine, getQuotePrefix, locateBlock, locateText } from 'refactor/common';
+import { splitIntoLines } from 'utils/general';
+import { LABEL_LINK_PREFIX, escapeRegExp, findLabelReferences, parseLabelLinktext } from 'utils/parse';
+
+
+export interface RenameTarget {
+    /** The new label. Empty or the same as the current one to keep it. */
+    label: string;
+    /** The new block ID. Empty or the same as the current one to keep it. */
+    blockId: string;
+}
+
+
+/**
+ * Compute the changes needed to rename the label and/or the block ID of the given theorem or equation:
+ * the definition itself, and every link to it in the vault ([[note#^id]], [[@label]] and \ref{label}).
+ */
+export async function computeRenameChanges(plugin: LatexReferencer, block: MathBlock, target: RenameTarget): Promise<LineChange[]> {
+    const { app, indexManager: { index } } = plugin;
+    const file = app.vault.getAbstractFileByPath(block.$file);
+    if (!(file instanceof TFile)) return [];
+
+    const oldLabel = block.$label ?? "";
+    const newLabel = target.label.trim() !== oldLabel ? target.label.trim() : "";
+    const oldBlockId = block.$blockId ?? "";
+    const newBlockId = oldBlockId && target.blockId.trim() !== oldBlockId ? target.blockId.trim() : "";
+    if (!newLabel && !newBlockId) return [];
+
+    // maps each file to the modified lines
+    const edits = new Map<TFile, Map<number, string>>();
+    const inserted: LineChange[] = [];
+    const getLines = async (file: TFile) => splitIntoLines(await getIO(plugin, file).getText());
+    const setLine = (file: TFile, line: number, text: string) => {
+        if (!edits.has(file)) edits.set(file, new Map());
+        edits.get(file)!.set(line, text);
+    };
+
+    // the definition, located in the current text since the note might have been edited after it was indexed
+    const lines = await getLines(file);
+    const position = locateBlock(plugin, block, lines);
+    if (!position) throw Error(`Could not find the ${block.$refName ?? "block"} in ${file.basename}. Save the note and retry later.`);
+    if (newLabel) {
+        const labelChange = changeLabelDefinition(block, lines, position, newLabel);
+        if (labelChange.before === null) inserted.push({ file, ...labelChange });
+        else setLine(file, labelChange.line, labelChange.after);
+    }
+    const blockIdLine = newBlockId ? findBlockIdLine(block, lines, position) : null;
+    if (blockIdLine !== null) {
+        const text = edits.get(file)?.get(blockIdLine) ?? lines[blockIdLine];
+        setLine(file, blockIdLine, text.replace(new RegExp(`\\^${escapeRegExp(oldBlockId)}(\\s*)$`, "i"), `^${newBlockId}$1`));
+    }
+
+    // the links to the definition
+    const backlinkingFiles = new Set<TFile>();
+    for (const object of index.load([...index.getBacklinks(block as Linkable)])) {
+        const path = object.$file ?? object.$id;
+        const backlinkingFile = app.vault.getAbstractFileByPath(path);
+        if (backlinkingFile instanceof TFile) backlinkingFiles.add(backlinkingFile);
+    }
+
+    for (const backlinkingFile of backlinkingFiles) {
+        const cache = app.metadataCache.getFileCache(backlinkingFile);
+        if (!cache) continue;
+        const lines = await getLines(backlinkingFile);
+        // the changes in each line, applied from right to left so that the columns stay valid
+        const changes: { line: number, from: number, to: number, text: string }[] = [];
+
+        for (const link of [...cache.links ?? [], ...cache.embeds ?? []]) {
+            const { start, end } = link.position;
+            if (start.line !== end.line) continue;
+            // the metadata cache can be out of date if the note has unsaved changes
+            const location = locateText(lines, start.line, start.col, link.original);
+            if (!location) continue;
+            let original = link.original;
+
+            const label = parseLabelLinktext(link.link);
+            if (label !== null) {
+                if (!newLabel || label !== oldLabel) continue;
+                original = original.replace(LABEL_LINK_PREFIX + label, LABEL_LINK_PREFIX + newLabel);
+            } else {
+                const { path, subpath } = parseLinktext(link.link);
+                if (!newBlockId || subpath.toLowerCase() !== `#^${oldBlockId}`.toLowerCase()) continue;
+                const targetFile = path ? app.metadataCache.getFirstLinkpathDest(path, backlinkingFile.path) : backlinkingFile;
+                if (targetFile !== file) continue;
+                original = original.replace(new RegExp(`#\\^${escapeRegExp(oldBlockId)}`, "i"), `#^${newBlockId}`);
+            }
+            changes.push({ line: location.line, from: location.from, to: location.to, text: original });
+        }
+
+        if (newLabel) {
+            for (const section of cache.sections ?? []) {
+                if (section.type === "math" || section.type === "code") continue;
+                for (let line = section.position.start.line; line <= Math.min(section.position.end.line, lines.length - 1); line++) {
+                    for (const reference of findLabelReferences(lines[line])) {
+                        if (reference.label === oldLabel) changes.push({ line, from: reference.from, to: reference.to, text: `\\ref{${newLabel}}` });
+                    }
+                }
+            }
+        }
+
+        changes.sort((a, b) => a.line - b.line || b.from - a.from);
+        for (const change of changes) {
+            const text = edits.get(backlinkingFile)?.get(change.line) ?? lines[change.line];
+            setLine(backlinkingFile, change.line, text.slice(0, change.from) + change.text + text.slice(change.to));
+        }
+    }
+
+    const result: LineChange[] = [];
+    for (const [file, lineEdits] of edits) {
+        const lines = await getLines(file);
+        for (const [line, after] of [...lineEdits].sort(([a], [b]) => a - b)) {
+            if (lines[line] !== after) result.push({ file, line, before: lines[line], after });
+        }
+    }
+    return [...result, ...inserted];
+}
+
+/**
+ * Replace the label in "%% label: ... %%" (theorems) or "% label: ..." (equations), or add one if there is none yet.
+ * `position` is the lines of the block in the current text.
+ */
+function changeLabelDefinition(block: MathBlock, lines: string[], position: { start: number, end: number }, newLabel: string): { line: number, before: string | null, after: string } {
+    // a theorem's comment can span multiple lines, e.g. "> %%" + "> label: ..." + "> %%"
+    const pattern = TheoremCalloutBlock.isTheoremCalloutBlock(block)
+        ? /^((?:\s*>)*\s*(?:%%)?\s*label\s*:\s*).*?(\s*(?:%%)?\s*)$/
+        : /(%\s*label\s*:\s*).*?(\s*)$/;
+    for (let line = position.start; line <= position.end; line++) {
+        if (lines[line].match(pattern)) {
+            return { line, before: lines[line], after: lines[line].replace(pattern, `$1${newLabel}$2`) };
+        }
+    }
+
+    // no label yet: add it right after the first line (i.e. "> [!theorem] ..." or "$$"), inside the same (possibly nested) quote
+    const firstLine = lines[position.start];
+    const prefix = getQuotePrefix(firstLine);
+    if (TheoremCalloutBlock.isTheoremCalloutBlock(block)) {
+        return { line: position.start + 1, before: null, after: `${prefix}%% label: ${newLabel} %%` };
+    }
+    // a one-line equation "$$...$$": the comment must go before the closing $$, so split it into lines
+    const oneLine = position.start === position.end && firstLine.slice(prefix.length).match(/^\$\$(.*)\$\$(.*)$/);
+    if (oneLine) {
+        const after = [`${prefix}$$`, `${prefix}${oneLine[1].trim()}`, `${prefix}% label: ${newLabel}`, `${prefix}$$${oneLine[2]}`].join("\n");
+        return { line: position.start, before: firstLine, after };
+    }
+    return { line: position.start + 1, before: null, after: `${prefix}% label: ${newLabel}` };
+}
+
+
+/** Asks for a new label and/or block ID, showing a preview of the changes in the vault before applying them. */
+export class RenameLabelModal extends Modal {
+    target: RenameTarget;
+    changes: LineChange[] = [];
+    previewEl: HTMLElement;
+    renameButton: ButtonComponent;
+    requestPreview = debounce(() => this.updatePreview(), 300, true);
+
+    constructor(public plugin: LatexReferencer, public block: MathBlock) {
+        super(plugin.app);
+        this.target = { label: block.$label ?? "", blockId: block.$blockId ?? "" };
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.titleEl.setText(`Rename ${this.block.$refName ?? (EquationBlock.isEquationBlock(this.block) ? "equation" : "theorem")}`);
+
+        new Setting(contentEl)
+            .setName("Label")
+            .setDesc(TheoremCalloutBlock.isTheoremCalloutBlock(this.block) ? 'Set by "%% label: ... %%". [[@label]] and \\ref{label} will be updated.' : 'Set by "% label: ...". [[@label]] and \\ref{label} will be updated.')
+            .addText((text) => this.setUpText(text, "label"));
+        const blockIdSetting = new Setting(contentEl)
+            .setName("Block ID")
+            .setDesc(this.block.$blockId ? "Links like [[note#^block-id]] will be updated." : "This block has no block ID.")
+            .addText((text) => this.setUpText(text, "blockId"));
+        if (!this.block.$blockId) blockIdSetting.setDisabled(true);
+
+        this.previewEl = contentEl.createDiv({ cls: "math-booster-rename-preview" });
+
+        const buttonContainerEl = contentEl.createDiv({ cls: "math-booster-button-container" });
+        this.renameButton = new ButtonComponent(buttonContainerEl)
+            .setButtonText("Rename")
+            .setCta()
+            .onClick(async () => {
+                if (this.validate()) return;
+                this.close();
+                try {
+                    // the preview might be out of date since it's debounced
+                    const changes = await computeRenameChanges(this.plugin, this.block, this.target);
+                    await applyLineChanges(this.plugin, changes);
+                    new Notice(`${this.plugin.manifest.name}: Updated ${changes.length} line${changes.length === 1 ? "" : "s"}.`);
+                } catch (err) {
+                    new Notice(`${this.plugin.manifest.name}: Failed to rename. ${err instanceof Error ? err.message : err}`, 5000);
+                }
+            });
+        new ButtonComponent(buttonContainerEl)
+            .setButtonText("Cancel")
+            .onClick(() => this.close());
+
+        this.updatePreview();
+    }
+
+    setUpText(text: TextComponent, key: keyof RenameTarget) {
+        text.setValue(this.target[key])
+            .onChange((value) => {
+                this.target[key] = value;
+                this.requestPreview();
+            });
+    }
+
+    /** Returns an error message if the input is invalid. */
+    validate(): string | null {
+        const label = this.target.label.trim();
+        const blockId = this.target.blockId.trim();
+        if (label && !label.match(/^[^\s{}[\]|#^]+$/)) return "A label cannot contain spaces or any of {}[]|#^.";
+        if (label && label !== this.block.$label && this.plugin.indexManager.index.getBlockByLabel(label)) return `The label "${label}" is already used.`;
+        if (this.block.$blockId && !blockId.match(/^[A-Za-z0-9-]+$/)) return "A block ID can only contain letters, numbers and dashes.";
+        return null;
+    }
+
+    async updatePreview() {
+        this.previewEl.empty();
+        this.changes = [];
+        const error = this.validate();
+        if (error) {
+            this.previewEl.createDiv({ text: error, cls: "math-booster-rename-error" });
+            this.renameButton.setDisabled(true);
+            return;
+        }
+
+        try {
+            this.changes = await computeRenameChanges(this.plugin, this.block, this.target);
+        } catch (err) {
+            this.previewEl.createDiv({ text: err instanceof Error ? err.message : String(err), cls: "math-booster-rename-error" });
+            this.renameButton.setDisabled(true);
+            return;
+        }
+        this.renameButton.setDisabled(!this.changes.length);
+        if (!this.changes.length) {
+            this.previewEl.createDiv({ text: "Nothing to change.", cls: "math-booster-rename-summary" });
+            return;
+        }
+
+        const files = new Set(this.changes.map((change) => change.file));
+        this.previewEl.createDiv({
+            text: `${this.changes.length} line${this.changes.length === 1 ? "" : "s"} in ${files.size} note${files.size === 1 ? "" : "s"} will be changed:`,
+            cls: "math-booster-rename-summary"
+        });
+        for (const file of files) {
+            const groupEl = this.previewEl.createDiv({ cls: "math-booster-rename-group" });
+            groupEl.createDiv({ text: file.path, cls: "math-booster-rename-file" });
+            for (const change of this.changes.filter((change) => change.file === file)) {
+                const changeEl = groupEl.createDiv({ cls: "math-booster-rename-change" });
+                changeEl.createDiv({ text: `Line ${change.line + 1}`, cls: "math-booster-rename-line" });
+                if (change.before !== null) changeEl.createDiv({ text: change.before, cls: "math-booster-rename-before" });
+                changeEl.createDiv({ text: change.after, cls: "math-booster-rename-after" });
+            }
+        }
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -1,8 +1,8 @@
-import { App, EditorSuggestContext, Instruction, Notice, Scope, SearchResult, TFile, finishRenderMath, prepareFuzzySearch, prepareSimpleSearch, renderMath, sortSearchResults } from 'obsidian';
+import { App, EditorSuggestContext, Instruction, Notice, Scope, SearchMatches, SearchResult, TFile, finishRenderMath, prepareFuzzySearch, prepareSimpleSearch, renderMatches, renderMath, sortSearchResults } from 'obsidian';
 
 import LatexReferencer from 'main';
 import { MathIndex } from 'index/math-index';
-import { EquationBlock, MarkdownBlock, MarkdownPage, MathBlock, TheoremCalloutBlock } from 'index/typings/markdown';
+import { EquationBlock, MarkdownBlock, MarkdownPage, MathBlock, SubEquation, TheoremCalloutBlock } from 'index/typings/markdown';
 import { getFileTitle } from 'index/utils/normalizers';
 import { LEAF_OPTION_TO_ARGS } from 'settings/settings';
 import { formatLabel } from 'utils/format';
@@ -10,9 +10,34 @@ import { getModifierNameInPlatform, openFileAndSelectPosition } from 'utils/obsi
 import { insertBlockIdIfNotExist, resolveSettings } from 'utils/plugin';
 import { MathSearchModal } from './modal';
 import { renderTextWithMath } from 'utils/render';
+import { LABEL_LINK_PREFIX } from 'utils/parse';
 
 
 export type ScoredMathBlock = { match: SearchResult, block: MathBlock };
+/** The part of a theorem content (or the content of its proof) matching the query. */
+export type BodyMatch = { body: string, matches: SearchMatches, inProof: boolean };
+
+/** The number of characters shown before the first match in a snippet of a theorem content. */
+const SNIPPET_CONTEXT_LENGTH = 40;
+/** The maximum number of characters of a snippet of a theorem content. */
+const SNIPPET_LENGTH = 160;
+/** 
+ * The theorem contents are scored separately from the titles, since they are long enough for short queries to match by chance.
+ * The score of a match in the content is scaled down by this weight, and the items matching only in the content come after the others.
+ */
+const BODY_SCORE_WEIGHT = 0.5;
+const BODY_ONLY_PENALTY = 10;
+
+/** A labeled line of a multi-line equation, listed as a search item. It behaves like the equation except for the number and the inserted link. */
+export type SubEquationItem = EquationBlock & { $subEquation: SubEquation };
+
+function makeSubEquationItem(equation: EquationBlock, subEquation: SubEquation): SubEquationItem {
+    return Object.assign(Object.create(equation), { $printName: subEquation.$printName, $refName: subEquation.$refName, $subEquation: subEquation });
+}
+
+export function isSubEquationItem(block: MathBlock): block is SubEquationItem {
+    return "$subEquation" in block;
+}
 
 export type SearchRange = 'active' | 'vault' | 'recent' | 'dataview';
 export type QueryType = 'theorem' | 'equation' | 'both';
@@ -36,6 +61,8 @@ export abstract class MathSearchCore {
     plugin: LatexReferencer;
     index: MathIndex;
     scope: Scope;
+    /** The parts of the theorem contents (or their proofs) matching the last query, keyed by the block IDs. Used to show snippets. */
+    bodyMatches: Map<string, BodyMatch> = new Map();
 
     constructor(public parent: SuggestParent) {
         this.plugin = parent.plugin;
@@ -110,7 +137,9 @@ export abstract class MathSearchCore {
 
     gradeSuggestions(ids: Array<string> | Set<string>, query: string) {
         const callback = (this.plugin.extraSettings.searchMethod == "Fuzzy" ? prepareFuzzySearch : prepareSimpleSearch)(query);
+        const bodyCallback = prepareSimpleSearch(query);
         const results: ScoredMathBlock[] = [];
+        this.bodyMatches.clear();
 
         for (const id of ids) {
             const block = this.index.load(id) as MathBlock;
@@ -123,7 +152,7 @@ export abstract class MathSearchCore {
                     const file = this.app.vault.getAbstractFileByPath(block.$file);
                     if (file instanceof TFile) {
                         const resolvedSettings = resolveSettings((block as TheoremCalloutBlock).$settings, this.plugin, file);
-                        text += ` ${formatLabel(resolvedSettings) ?? ""}`
+                        text += ` ${formatLabel(this.plugin, resolvedSettings) ?? ""}`
                     }
                 }
             } else if (block.$type === "equation") {
@@ -132,14 +161,41 @@ export abstract class MathSearchCore {
 
             // run search
             const result = callback(text);
+            const bodyMatch = TheoremCalloutBlock.isTheoremCalloutBlock(block) ? this.searchBody(block, bodyCallback) : null;
+            const bodyResult = bodyMatch?.result;
+            if (bodyMatch) this.bodyMatches.set(block.$id, bodyMatch.match);
             if (result) {
                 results.push({ match: result, block });
+            } else if (bodyResult) {
+                results.push({ match: { score: BODY_SCORE_WEIGHT * bodyResult.score - BODY_ONLY_PENALTY, matches: [] }, block });
+            }
+
+            // the labeled lines of a multi-line equation can be referred to by [[@label]]
+            if (EquationBlock.isEquationBlock(block)) {
+                for (const subEquation of block.$subEquations) {
+                    if (!subEquation.$label) continue;
+                    const result = callback(`${subEquation.$printName} ${block.$file} ${subEquation.$label} ${block.$mathText}`);
+                    if (result) results.push({ match: result, block: makeSubEquationItem(block, subEquation) });
+                }
             }
         }
 
         return results;
     }
 
+    /** Search the content of the given theorem, and then the contents of its proofs. */
+    searchBody(theorem: TheoremCalloutBlock, callback: (text: string) => SearchResult | null): { result: SearchResult, match: BodyMatch } | null {
+        const candidates = [
+            { body: theorem.$body, inProof: false },
+            ...this.index.getProofs(theorem).map((proof) => ({ body: proof.$body, inProof: true })),
+        ];
+        for (const { body, inProof } of candidates) {
+            const result = body ? callback(body) : null;
+            if (body && result) return { result, match: { body, matches: result.matches, inProof } };
+        }
+        return null;
+    }
+
     renderSuggestion(block: MathBlock, el: HTMLElement): void {
         const baseEl = el.createDiv({ cls: "math-booster-search-item" });
         if (block.$printName) {
@@ -150,9 +206,11 @@ export abstract class MathSearchCore {
         }
         const smallEl = baseEl.createEl(
             "small", {
-            text: `${getFileTitle(block.$file)}, line ${block.$position.start + 1}`,
+            text: `${getFileTitle(block.$file)}, line ${block.$position.start + 1}` + (isSubEquationItem(block) ? `, ${block.$subEquation.$label}` : ""),
             cls: "math-booster-search-item-description"
         });
+        const bodyMatch = this.bodyMatches.get(block.$id);
+        if (bodyMatch) baseEl.insertBefore(this.renderSnippet(bodyMatch), smallEl);
         if (block.$type === "equation") {
             if (this.plugin.extraSettings.renderMathInSuggestion) {
                 const mjxContainerEl = renderMath((block as EquationBlock).$mathText, true);
@@ -164,6 +222,21 @@ export abstract class MathSearchCore {
         }
     }
 
+    /** A part of the theorem content (or its proof) around the first match, with the matches highlighted. */
+    renderSnippet({ body, matches, inProof }: BodyMatch): HTMLElement {
+        const from = Math.max(0, matches[0][0] - SNIPPET_CONTEXT_LENGTH);
+        const to = Math.min(body.length, from + SNIPPET_LENGTH);
+        const prefix = from > 0 ? "…" : "";
+        const offset = prefix.length - from;
+        const snippetMatches = matches
+            .filter(([start, end]) => from <= start && end <= to)
+            .map(([start, end]): [number, number] => [start + offset, end + offset]);
+        const snippetEl = createDiv({ cls: "math-booster-search-item-snippet" });
+        if (inProof) snippetEl.createSpan({ text: "Proof: ", cls: "math-booster-search-item-snippet-label" });
+        renderMatches(snippetEl.createSpan(), prefix + body.slice(from, to) + (to < body.length ? "…" : ""), snippetMatches);
+        return snippetEl;
+    }
+
     selectSuggestion(item: MathBlock, evt: MouseEvent | KeyboardEvent): void {
         this.selectSuggestionImpl(item, false);
         // I don't know when to call finishRenderMath...
@@ -181,6 +254,11 @@ export abstract class MathSearchCore {
         const settings = resolveSettings(undefined, this.plugin, file);
         let success = false;
 
+        if (isSubEquationItem(block) && !insertNoteLink) {
+            editor.replaceRange(`[[${LABEL_LINK_PREFIX}${block.$subEquation.$label}]]` + (settings.insertSpace ? " " : ""), start, end);
+            return;
+        }
+
         const result = await insertBlockIdIfNotExist(this.plugin, fileContainingBlock, cache, block);
         if (result) {
             const { id, lineAdded } = result;
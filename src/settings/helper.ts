@@ -1,11 +1,12 @@
 import { ButtonComponent, Setting, SliderComponent, TAbstractFile, TFile, TFolder, TextComponent, ToggleComponent, MarkdownRenderer, Component } from 'obsidian';
 
 import LatexReferencer from 'main';
-import { THEOREM_LIKE_ENV_IDs, THEOREM_LIKE_ENVs, TheoremLikeEnvID } from 'env';
-import { DEFAULT_SETTINGS, ExtraSettings, LEAF_OPTIONS, THEOREM_REF_FORMATS, THEOREM_CALLOUT_STYLES, TheoremCalloutSettings, MathContextSettings, NUMBER_STYLES, FoldOption, DEFAULT_EXTRA_SETTINGS } from 'settings/settings';
-import { formatTheoremCalloutType } from 'utils/format';
+import { findTheoremLikeEnv } from 'env';
+import { DEFAULT_SETTINGS, ExtraSettings, LEAF_OPTIONS, THEOREM_CALLOUT_STYLES, TheoremCalloutSettings, MathContextSettings, NUMBER_STYLES, FoldOption, DEFAULT_EXTRA_SETTINGS } from 'settings/settings';
+import { formatTemplate, formatTheoremCalloutType } from 'utils/format';
 import { NumberKeys, BooleanKeys } from 'utils/general';
 import { DEFAULT_PROFILES, ManageProfileModal } from './profile';
+import { ManageTheoremLikeEnvModal } from './theorem-like-envs';
 
 
 export class TheoremCalloutSettingsHelper {
@@ -22,7 +23,7 @@ export class TheoremCalloutSettingsHelper {
         new Setting(contentEl)
             .setName("Type")
             .addDropdown((dropdown) => {
-                for (const id of THEOREM_LIKE_ENV_IDs) {
+                for (const { id } of this.plugin.extraSettings.theoremLikeEnvs) {
                     const envName = formatTheoremCalloutType(this.plugin, { type: id, profile: this.defaultSettings.profile })
                     dropdown.addOption(id, envName);
                     if (this.defaultSettings.type) {
@@ -64,7 +65,7 @@ export class TheoremCalloutSettingsHelper {
 
                 const labelPane = this.plugin.extraSettings.setLabelInModal ? new Setting(contentEl).setName("Pandoc label") : undefined;
                 const labelPrefixEl = labelPane?.controlEl.createDiv({
-                    text: THEOREM_LIKE_ENVs[this.settings.type as TheoremLikeEnvID].prefix + ":" + (this.defaultSettings.labelPrefix ?? "")
+                    text: this.getLabelPrefix(this.settings.type) + ":" + (this.defaultSettings.labelPrefix ?? "")
                 });
 
                 titlePane.addText((text) => {
@@ -101,7 +102,7 @@ export class TheoremCalloutSettingsHelper {
                 dropdown.onChange((value) => {
                     this.settings.type = value;
                     if (labelPrefixEl) {
-                        labelPrefixEl.textContent = THEOREM_LIKE_ENVs[this.settings.type as TheoremLikeEnvID].prefix + ":";
+                        labelPrefixEl.textContent = this.getLabelPrefix(this.settings.type) + ":";
                         if (this.defaultSettings.labelPrefix) {
                             labelPrefixEl.textContent += this.defaultSettings.labelPrefix;
                         }
@@ -111,6 +112,10 @@ export class TheoremCalloutSettingsHelper {
 
         addFoldOptionSetting(contentEl, 'Collapse', (fold) => { this.settings.fold = fold }, this.defaultSettings.fold ?? this.plugin.extraSettings.foldDefault);
     }
+
+    getLabelPrefix(type: string): string {
+        return findTheoremLikeEnv(this.plugin.extraSettings.theoremLikeEnvs, type)?.prefix ?? type;
+    }
 }
 
 
@@ -295,16 +300,33 @@ export class MathContextSettingsHelper extends SettingsHelper<MathContextSetting
         this.addTextSetting("numberSuffix", "Suffix");
         this.addTextSetting("numberInit", "Initial count");
         this.addDropdownSetting("numberStyle", NUMBER_STYLES, "Style");
+        this.addSliderSetting("numberWithin", { min: 0, max: 6, step: 1 }, "Number within headings", 'Like \\numberwithin{theorem}{section} in LaTeX. If set to N > 0, theorems are numbered within each level-N heading and the counter is reset at each of them. Ex) N = 2 > The third theorem under the second H2 will be "Theorem 2.3". Set to 0 to disable.');
         this.addTextSetting("numberDefault", "Default value for the \"Number\" field of \"Insert theorem callout\" modal");
+        this.addToggleSetting("continuousNumbering", "Continue numbering from the previous note", 'Useful for a book split into one note per chapter. If turned on, the theorem and equation numbers in this note continue from those in the previous note in the same folder that has this option turned on as well. Ex) If the last theorem in "Chapter 1" is "Theorem 12", the first theorem in "Chapter 2" will be "Theorem 13". Set this option for the folder to apply it to all the notes in it.');
+        this.addTextSetting("noteOrderProperty", "Property for ordering notes", 'Used when "Continue numbering from the previous note" is turned on. If set, the notes in a folder are ordered by the value of this property (e.g. "order"). Notes without this property follow them, ordered by their names. If not set, the notes are simply ordered by their names.');
+        this.addTextSetting(
+            "theoremCounters",
+            "Counters",
+            'By default, all the theorem-like environments share a single counter. Here you can assign a named counter to each environment, just like \\newtheorem{lemma}[theorem]{Lemma} in LaTeX. Separate groups by semicolons. Ex) "theorem, lemma, proposition, corollary: theorem; definition: definition; exercise, example: exercise" > Lemmas, propositions and corollaries are numbered together with theorems, while definitions and exercises/examples have their own counters. Environments not listed here share the default counter. Prefixes (e.g. "thm") can be used in place of environment IDs.'
+        );
 
         this.addHeading('Theorem callouts - referencing');
 
-        this.addDropdownSetting("refFormat", THEOREM_REF_FORMATS, "Format");
-        this.addDropdownSetting(
+        const theoremSamples = [
+            { type: "Theorem", number: "1.2", title: "Cauchy-Schwarz", note: "Inner product spaces", section: "Inequalities" },
+            { type: "Theorem", number: "1.2", title: "", note: "Inner product spaces", section: "Inequalities" },
+        ];
+        this.addTemplateSetting(
+            "refFormat",
+            "Format",
+            'Available placeholders: {type}, {number}, {title}, {note} (the note title) and {section} (the heading containing the theorem). "{title? ({title})}" is replaced with " ({title})" only if the title exists, and "{title!...}" only if it doesn\'t.',
+            theoremSamples
+        );
+        this.addTemplateSetting(
             "noteMathLinkFormat",
-            THEOREM_REF_FORMATS,
             'Format for a note that has its "main" theorem callout',
-            `When a theorem callout is set as main by a markdown comment "%% main %%", this format will be used for links to the note containing that theorem callout.`
+            `When a theorem callout is set as main by a markdown comment "%% main %%", this format will be used for links to the note containing that theorem callout.`,
+            theoremSamples
         );
         this.addToggleSetting('ignoreMainTheoremCalloutWithoutTitle', 'Ignore a "main" theorem callout without its own title');
 
@@ -322,17 +344,24 @@ export class MathContextSettingsHelper extends SettingsHelper<MathContextSetting
         this.addTextSetting("eqNumberSuffix", "Suffix");
         this.addTextSetting("eqNumberInit", "Initial count");
         this.addDropdownSetting("eqNumberStyle", NUMBER_STYLES, "Style");
-        this.addToggleSetting("lineByLine", "Number line by line in align");
+        this.addSliderSetting("eqNumberWithin", { min: 0, max: 6, step: 1 }, "Number within headings", 'Like \\numberwithin{equation}{section} in LaTeX. If set to N > 0, equations are numbered within each level-N heading and the counter is reset at each of them. Ex) N = 2 > The third equation under the second H2 will be "(2.3)". Set to 0 to disable.');
+        this.addToggleSetting("lineByLine", "Number line by line in align", "Applies to align, gather, alignat, flalign and eqnarray (not their starred variants). Lines with \\nonumber or \\notag are skipped. Ex) \"(3-1)\", \"(3-2)\".");
 
         this.addHeading('Equations - referencing');
 
-        this.addTextSetting("eqRefPrefix", "Prefix");
-        this.addTextSetting("eqRefSuffix", "Suffix");
+        this.addTemplateSetting(
+            "eqRefFormat",
+            "Format",
+            'Available placeholders: {number} (e.g. "(3)"), {type} (e.g. "Equation"), {note} and {section}. Ex) "Eq. {number}" > Eq. (3)',
+            [{ type: "Equation", number: "(3)", note: "Inner product spaces", section: "Inequalities" }]
+        );
 
         this.addHeading('Proofs (experimental)', ['proof-heading']);
 
         this.addTextSetting("beginProof", "Beginning of a proof");
         this.addTextSetting("endProof", "End of a proof");
+        this.addToggleSetting("foldProofs", "Fold proofs by default", "If turned on, all the proofs are folded when a note is opened, e.g. for reviewing before an exam. In any case, you can fold or unfold a proof by clicking its beginning (e.g. \"Proof.\").");
+        this.addToggleSetting("insertProofAsCallout", "Insert proofs as callouts", "If turned on, the \"Insert proof\" command inserts a \"> [!proof]\" callout instead of a pair of the beginning & ending markers.");
 
         this.addHeading('Search & link auto-completion - general')
             .then(async (setting) => {
@@ -342,6 +371,22 @@ export class MathContextSettingsHelper extends SettingsHelper<MathContextSetting
         this.addToggleSetting("insertSpace", "Append whitespace after inserted link");
     }
 
+    /** A text setting for a reference template, followed by a preview of the results for the given sample values. */
+    addTemplateSetting(name: "refFormat" | "noteMathLinkFormat" | "eqRefFormat", prettyName: string, description: string, samples: Record<string, string>[]): Setting {
+        const setting = this.addTextSetting(name, prettyName, description);
+        const previewEl = setting.descEl.createDiv({ cls: "math-booster-template-preview" });
+        const text = setting.components.find((component): component is TextComponent => component instanceof TextComponent);
+        const updatePreview = () => {
+            const template = text?.getValue() || this.defaultSettings[name];
+            previewEl.setText("Preview: " + samples.map((values) => formatTemplate(template, values)).join(" / "));
+        };
+        updatePreview();
+        text?.inputEl.addEventListener("input", updatePreview);
+        // the "Clear" button resets the value without firing an input event
+        setting.controlEl.addEventListener("click", () => setTimeout(updatePreview));
+        return setting;
+    }
+
     addProfileSetting(defaultValue?: string): Setting {
         const profileSetting = this.addDropdownSetting("profile", Object.keys(this.plugin.extraSettings.profiles), "Profile", "A profile defines the displayed name of each environment.", defaultValue);
         new ButtonComponent(profileSetting.controlEl)
@@ -365,9 +410,19 @@ export class ExtraSettingsHelper extends SettingsHelper<ExtraSettings> {
         this.addToggleSetting("noteTitleInEquationLink", "Show the note title at the head of a link to an equation", "If turned on, a link to \"Eq.(1)\" will look like \"Note title > Eq.(1)\".");
         this.addToggleSetting("excludeExampleCallout", 'Don\'t treat "> [!example]" as a theorem callout', 'If turned on, a callout of the form "> [!example]" will be treated as Obsidian\'s built-in "Example" callout, and you will need to type "> [!exm]" instead to insert a theorem callout of "Example" type.');
         this.addToggleSetting("showTheoremCalloutEditButton", "Show an edit button on a theorem callout");
+        this.settingRefs["theoremLikeEnvs"] = new Setting(this.contentEl)
+            .setName("Theorem-like environments")
+            .setDesc("Add your own environments (e.g. \"Notation\", \"Problem\") or modify the built-in ones. The displayed name of each environment can be set in each profile.")
+            .addButton((button) => {
+                button.setButtonText("Manage environments")
+                    .onClick(() => {
+                        new ManageTheoremLikeEnvModal(this.plugin).open();
+                    });
+            });
         this.addToggleSetting("setOnlyTheoremAsMain", "If a note has only one theorem callout, automatically set it as main", 'Regardless of this setting, putting "%% main %%" or "%% main: true %%" in a theorem callout will set it as main one of the note, which means any link to that note will be displayed with the theorem\'s title. Enabling this option implicitly sets a theorem callout as main when it\'s the only one in the note.');
         this.addToggleSetting("setLabelInModal", "Show LaTeX/Pandoc label input form in theorem callout insert/edit modal");
         this.addToggleSetting("enableProof", "Enable proof environment", `For example, you can replace a pair of inline codes \`${DEFAULT_SETTINGS.beginProof}\` & \`${DEFAULT_SETTINGS.endProof}\` with \"${DEFAULT_PROFILES[DEFAULT_SETTINGS.profile].body.proof.begin}\" & \"${DEFAULT_PROFILES[DEFAULT_SETTINGS.profile].body.proof.end}\". You can style it with CSS snippets. See the documentation for the details.`, () => this.plugin.updateEditorExtensions());
+        this.addToggleSetting("showDiagnosticsInEditor", "Show reference diagnostics in the editor", "Underline broken links to theorems & equations, links to unnumbered equations, duplicate labels and manual tags clashing with automatic numbers. The full list is available in the reference diagnostics view.", () => this.plugin.updateEditorExtensions());
 
         // Suggest
 
@@ -375,6 +430,7 @@ export class ExtraSettingsHelper extends SettingsHelper<ExtraSettings> {
         this.addToggleSetting("renderMathInSuggestion", "Render math in equation suggestions", "Turn this off if you have a performance issue and reducing the number of suggestions doesn't fix it.");
         this.addDropdownSetting("searchMethod", ["Fuzzy", "Simple"], "Search method", "Fuzzy search is more flexible, but simple search is lighter-weight.");
         this.addToggleSetting("searchLabel", "Include theorem callout label for search target");
+        this.addSliderSetting("theoremBodyIndexLength", { min: 0, max: 2000, step: 100 }, "Length of theorem content to search", "Theorems are also searched by the first N characters of their content (math included). Set it to 0 to search only the titles. Larger values require more memory. Changing this option re-indexes the vault.");
         this.addSliderSetting("upWeightRecent", { min: 0, max: 0.5, step: 0.01 }, "Up-weight recently opened notes by", "It takes effect only if \"Search only recently opened notes\" is turned off.");
         this.addDropdownSetting("modifierToJump", ['Mod', 'Ctrl', 'Meta', 'Shift', 'Alt'], "Modifier key for jumping to suggestion", "Press Enter and this modifier key to jump to the currently selected suggestion. Changing this option requires to reloading " + this.plugin.manifest.name + " to take effect.");
         this.addDropdownSetting("modifierToNoteLink", ['Mod', 'Ctrl', 'Meta', 'Shift', 'Alt'], "Modifier key for insert link to note", "Press Enter and this modifier key to insert a link to the note containing the currently selected item. Changing this option requires to reloading " + this.plugin.manifest.name + " to take effect.");
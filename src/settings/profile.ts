@@ -1,13 +1,13 @@
 import { ButtonComponent, DropdownComponent, Modal, Notice, Setting, TextComponent } from 'obsidian';
 
 import LatexReferencer, { VAULT_ROOT } from '../main';
-import { THEOREM_LIKE_ENV_IDs, TheoremLikeEnvID } from '../env';
 import { MathContextSettingsHelper } from '../settings/helper';
 import { DEFAULT_SETTINGS } from './settings';
 
 
 export type ProfileMeta = { tags: string[] };
-export type TheoremLinkEnvDisplay = { [k in TheoremLikeEnvID]: string };
+/** Maps the ID of each theorem-like environment to its displayed name. */
+export type TheoremLinkEnvDisplay = Record<string, string>;
 export const PROOF_SETTING_KEYS = [
     "begin",
     "end",
@@ -16,8 +16,28 @@ export const PROOF_SETTING_KEYS = [
 ] as const;
 export type ProofSettingKey = typeof PROOF_SETTING_KEYS[number];
 export type ProofDisplay = { [k in ProofSettingKey]: string };
+/** The words used to render grouped references, e.g. "Theorems 2.1 and 2.3" or "Equations (3)–(5)". */
+export const CLEVEREF_SETTING_KEYS = [
+    "equation",
+    "equationPlural",
+    "equationLowercase",
+    "equationAbbreviation",
+    "pairConjunction",
+    "middleConjunction",
+    "lastConjunction",
+    "rangeConjunction",
+] as const;
+export type CleverefSettingKey = typeof CLEVEREF_SETTING_KEYS[number];
+export type CleverefDisplay = { [k in CleverefSettingKey]: string };
 export type ProfileBody = {
     theorem: TheoremLinkEnvDisplay; 
+    /** The plural forms of the names in `theorem`, used in grouped references. */
+    theoremPlural: TheoremLinkEnvDisplay;
+    /** Used in references with `\cref`, e.g. "theorem 3". */
+    theoremLowercase: TheoremLinkEnvDisplay;
+    /** Used in references with `\crefabbr`, e.g. "Thm. 3". */
+    theoremAbbreviation: TheoremLinkEnvDisplay;
+    cleveref: CleverefDisplay;
     proof: ProofDisplay;
 };
 export type Profile = {
@@ -48,6 +68,61 @@ export const DEFAULT_PROFILES: Record<string, Profile> = {
                 "hypothesis": "Hypothesis",
                 "remark": "Remark",
             },
+            theoremPlural: {
+                "axiom": "Axioms",
+                "definition": "Definitions",
+                "lemma": "Lemmas",
+                "proposition": "Propositions",
+                "theorem": "Theorems",
+                "corollary": "Corollaries",
+                "claim": "Claims",
+                "assumption": "Assumptions",
+                "example": "Examples",
+                "exercise": "Exercises",
+                "conjecture": "Conjectures",
+                "hypothesis": "Hypotheses",
+                "remark": "Remarks",
+            },
+            theoremLowercase: {
+                "axiom": "axiom",
+                "definition": "definition",
+                "lemma": "lemma",
+                "proposition": "proposition",
+                "theorem": "theorem",
+                "corollary": "corollary",
+                "claim": "claim",
+                "assumption": "assumption",
+                "example": "example",
+                "exercise": "exercise",
+                "conjecture": "conjecture",
+                "hypothesis": "hypothesis",
+                "remark": "remark",
+            },
+            theoremAbbreviation: {
+                "axiom": "Ax.",
+                "definition": "Def.",
+                "lemma": "Lem.",
+                "proposition": "Prop.",
+                "theorem": "Thm.",
+                "corollary": "Cor.",
+                "claim": "Claim",
+                "assumption": "Assum.",
+                "example": "Ex.",
+                "exercise": "Exer.",
+                "conjecture": "Conj.",
+                "hypothesis": "Hyp.",
+                "remark": "Rem.",
+            },
+            cleveref: {
+                equation: "Equation",
+                equationPlural: "Equations",
+                equationLowercase: "equation",
+                equationAbbreviation: "Eq.",
+                pairConjunction: " and ",
+                middleConjunction: ", ",
+                lastConjunction: ", and ",
+                rangeConjunction: "–",
+            },
             proof: {
                 begin: "Proof.",
                 end: "□",
@@ -77,6 +152,61 @@ export const DEFAULT_PROFILES: Record<string, Profile> = {
                 "hypothesis": "仮説",
                 "remark": "注",
             },
+            theoremPlural: {
+                "axiom": "公理",
+                "definition": "定義",
+                "lemma": "補題",
+                "proposition": "命題",
+                "theorem": "定理",
+                "corollary": "系",
+                "claim": "主張",
+                "assumption": "仮定",
+                "example": "例",
+                "exercise": "演習問題",
+                "conjecture": "予想",
+                "hypothesis": "仮説",
+                "remark": "注",
+            },
+            theoremLowercase: {
+                "axiom": "公理",
+                "definition": "定義",
+                "lemma": "補題",
+                "proposition": "命題",
+                "theorem": "定理",
+                "corollary": "系",
+                "claim": "主張",
+                "assumption": "仮定",
+                "example": "例",
+                "exercise": "演習問題",
+                "conjecture": "予想",
+                "hypothesis": "仮説",
+                "remark": "注",
+            },
+            theoremAbbreviation: {
+                "axiom": "公理",
+                "definition": "定義",
+                "lemma": "補題",
+                "proposition": "命題",
+                "theorem": "定理",
+                "corollary": "系",
+                "claim": "主張",
+                "assumption": "仮定",
+                "example": "例",
+                "exercise": "演習問題",
+                "conjecture": "予想",
+                "hypothesis": "仮説",
+                "remark": "注",
+            },
+            cleveref: {
+                equation: "式",
+                equationPlural: "式",
+                equationLowercase: "式",
+                equationAbbreviation: "式",
+                pairConjunction: "と",
+                middleConjunction: "、",
+                lastConjunction: "、",
+                rangeConjunction: "〜",
+            },
             proof: {
                 begin: "証明.",
                 end: "□",
@@ -88,6 +218,17 @@ export const DEFAULT_PROFILES: Record<string, Profile> = {
 };
 
 
+/** Fill in the fields added in later versions, which are missing in the profiles saved by older versions. */
+export function completeProfileBody(body: ProfileBody, id?: string) {
+    const defaultBody = id ? DEFAULT_PROFILES[id]?.body : undefined;
+    // a missing plural/lowercase/abbreviated form falls back to the (capitalized) singular one
+    body.theoremPlural ??= Object.assign({}, defaultBody?.theoremPlural);
+    body.theoremLowercase ??= Object.assign({}, defaultBody?.theoremLowercase);
+    body.theoremAbbreviation ??= Object.assign({}, defaultBody?.theoremAbbreviation);
+    body.cleveref = Object.assign({}, (defaultBody ?? DEFAULT_PROFILES[DEFAULT_SETTINGS.profile].body).cleveref, body.cleveref);
+}
+
+
 export class ManageProfileModal extends Modal {
     constructor(public plugin: LatexReferencer, public helper: MathContextSettingsHelper, public profileSetting: Setting) {
         super(plugin.app);
@@ -157,10 +298,10 @@ export class ManageProfileModal extends Modal {
 
 
 class EditProfileModal extends Modal {
-    settingRefs: Record<TheoremLikeEnvID | ProofSettingKey, Setting>;
+    settingRefs: Record<string, Setting>;
     constructor(public profile: Profile, public parent: ManageProfileModal) {
         super(parent.app);
-        this.settingRefs = {} as Record<TheoremLikeEnvID | ProofSettingKey, Setting>;
+        this.settingRefs = {} as Record<string, Setting>;
     }
 
     onOpen() {
@@ -194,15 +335,53 @@ class EditProfileModal extends Modal {
             });
 
         // contentEl.createEl("h5", { text: "Theorem-like environments" });
-        new Setting(contentEl).setName("Theorem-like environments").setHeading();
+        new Setting(contentEl)
+            .setName("Theorem-like environments")
+            .setDesc("The name, the plural form, the lowercase form (used by `\\cref`) and the abbreviation (used by `\\crefabbr`) of each environment.")
+            .setHeading();
 
-        for (const envID of THEOREM_LIKE_ENV_IDs) {
+        for (const { id: envID } of this.parent.plugin.extraSettings.theoremLikeEnvs) {
             this.settingRefs[envID] = new Setting(contentEl).setName(envID).addText((text) => {
                 text.setValue(this.profile.body.theorem[envID] ?? "")
                     .onChange((value) => {
                         this.profile.body.theorem[envID] = value;
                     })
             });
+            for (const [key, placeholder] of [["theoremPlural", "Plural"], ["theoremLowercase", "Lowercase"], ["theoremAbbreviation", "Abbreviation"]] as const) {
+                this.settingRefs[envID].addText((text) => {
+                    text.setPlaceholder(placeholder)
+                        .setValue(this.profile.body[key][envID] ?? "")
+                        .onChange((value) => {
+                            this.profile.body[key][envID] = value;
+                        })
+                });
+            }
+        }
+
+        new Setting(contentEl)
+            .setName("Clever references")
+            .setDesc("For example, `\\Cref`@[[link 1]], [[link 2]], [[link 3]] is rendered as \"Theorems 1.1, 1.3, and 2.1\", and consecutive numbers are compressed into a range like \"Theorems 1.1–1.3\". Use `\\cref` for lowercase names and `\\crefabbr` for abbreviations.")
+            .setHeading();
+
+        const cleverefPrettyNames = [
+            "Equation",
+            "Equations (plural)",
+            "equation (lowercase)",
+            "Eq. (abbreviation)",
+            "Conjunction between two",
+            "Conjunction between three or more",
+            "Last conjunction between three or more",
+            "Range",
+        ];
+        for (let i = 0; i < CLEVEREF_SETTING_KEYS.length; i++) {
+            const key = CLEVEREF_SETTING_KEYS[i];
+            const name = cleverefPrettyNames[i];
+            this.settingRefs[key] = new Setting(contentEl).setName(name).addText((text) => {
+                text.setValue(this.profile.body.cleveref[key] ?? "")
+                    .onChange((value) => {
+                        this.profile.body.cleveref[key] = value;
+                    })
+            });
         }
 
         // contentEl.createEl("h5", { text: "Proofs" });
@@ -325,10 +504,14 @@ class AddProfileModal extends Modal {
             .setButtonText("Add")
             .setCta()
             .onClick(() => {
-                const newBody = {theorem: {}} as ProfileBody;
-                for (const envID of THEOREM_LIKE_ENV_IDs) {
+                const newBody = {theorem: {}, theoremPlural: {}, theoremLowercase: {}, theoremAbbreviation: {}} as ProfileBody;
+                for (const { id: envID } of this.parent.plugin.extraSettings.theoremLikeEnvs) {
                     newBody.theorem[envID] = "";
+                    newBody.theoremPlural[envID] = "";
+                    newBody.theoremLowercase[envID] = "";
+                    newBody.theoremAbbreviation[envID] = "";
                 }
+                completeProfileBody(newBody);
                 this.parent.plugin.extraSettings.profiles[id] = {
                     id,
                     meta: { tags: [] },
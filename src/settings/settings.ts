@@ -3,6 +3,7 @@ import { Modifier } from "obsidian";
 import { DEFAULT_PROFILES, Profile } from "./profile";
 import { LeafArgs } from "../typings/type";
 import { QueryType, SearchRange } from "search/core";
+import { DEFAULT_THEOREM_LIKE_ENVs, TheoremLikeEnv } from "env";
 
 // Types
 
@@ -24,13 +25,13 @@ export const THEOREM_CALLOUT_STYLES = [
 ] as const;
 export type TheoremCalloutStyle = typeof THEOREM_CALLOUT_STYLES[number];
 
-export const THEOREM_REF_FORMATS = [
-    "[type] [number] ([title])", 
-    "[type] [number]", 
-    "[title] ([type] [number]) if title exists, [type] [number] otherwise",
-    "[title] if title exists, [type] [number] otherwise",
-] as const;
-export type TheoremRefFormat = typeof THEOREM_REF_FORMATS[number];
+/** The fixed reference formats used before templates were introduced, mapped to the equivalent templates. */
+export const LEGACY_REF_FORMATS: Record<string, string> = {
+    "[type] [number] ([title])": "{type} {number}{title? ({title})}",
+    "[type] [number]": "{type} {number}",
+    "[title] ([type] [number]) if title exists, [type] [number] otherwise": "{title?{title} ({type} {number})}{title!{type} {number}}",
+    "[title] if title exists, [type] [number] otherwise": "{title}{title!{type} {number}}",
+};
 
 export const LEAF_OPTIONS = [
     "Current tab",
@@ -67,9 +68,13 @@ export interface MathContextSettings {
     numberSuffix: string;
     numberInit: number;
     numberStyle: NumberStyle;
+    numberWithin: number;
+    continuousNumbering: boolean;
+    noteOrderProperty: string;
     numberDefault: string;
-    refFormat: TheoremRefFormat;
-    noteMathLinkFormat: TheoremRefFormat;
+    theoremCounters: string;
+    refFormat: string;
+    noteMathLinkFormat: string;
     ignoreMainTheoremCalloutWithoutTitle: boolean;
     numberOnlyReferencedEquations: boolean;
     inferEqNumberPrefix: boolean;
@@ -79,21 +84,23 @@ export interface MathContextSettings {
     eqNumberSuffix: string;
     eqNumberInit: number;
     eqNumberStyle: NumberStyle;
-    eqRefPrefix: string;
-    eqRefSuffix: string;
+    eqNumberWithin: number;
+    eqRefFormat: string;
     labelPrefix: string;
     lineByLine: boolean;
     theoremCalloutStyle: TheoremCalloutStyle;
     theoremCalloutFontInherit: boolean;
     beginProof: string;
     endProof: string;
+    /** Fold all the proofs when a note is opened. */
+    foldProofs: boolean;
+    /** Make the "Insert proof" command insert a > [!proof] callout instead of the beginning/ending markers. */
+    insertProofAsCallout: boolean;
     insertSpace: boolean;
 }
 
 export const UNION_TYPE_MATH_CONTEXT_SETTING_KEYS: {[k in keyof Partial<MathContextSettings>]: readonly string[]} = {
     "numberStyle": NUMBER_STYLES,
-    "refFormat": THEOREM_REF_FORMATS,
-    "noteMathLinkFormat": THEOREM_REF_FORMATS,
     "eqNumberStyle": NUMBER_STYLES,
     "theoremCalloutStyle": THEOREM_CALLOUT_STYLES,
 };
@@ -119,6 +126,8 @@ export type TheoremCalloutSettings = MinimalTheoremCalloutSettings & {
 // TODO: refactor
 export interface TheoremCalloutPrivateFields {
     _index?: number;
+    /** The number of the heading this theorem is numbered within (see the "numberWithin" setting) */
+    _section?: number;
 }
 
 export interface ImporterSettings {
@@ -131,6 +140,7 @@ export type ExtraSettings = ImporterSettings & {
     noteTitleInTheoremLink: boolean;
     noteTitleInEquationLink: boolean;
     profiles: Record<string, Profile>;
+    theoremLikeEnvs: TheoremLikeEnv[];
     showTheoremTitleinBuiltin: boolean;
     showTheoremContentinBuiltin: boolean;
     triggerSuggest: string;
@@ -162,6 +172,8 @@ export type ExtraSettings = ImporterSettings & {
     searchMethod: SearchMethod;
     upWeightRecent: number;
     searchLabel: boolean;
+    /** The number of characters of each theorem callout's content to index for search. 0 to search only the titles. */
+    theoremBodyIndexLength: number;
     modifierToJump: Modifier;
     modifierToNoteLink: Modifier;
     showModifierInstruction: boolean;
@@ -173,6 +185,7 @@ export type ExtraSettings = ImporterSettings & {
     setLabelInModal: boolean;
     excludeExampleCallout: boolean;
     enableProof: boolean;
+    showDiagnosticsInEditor: boolean;
     autocompleteDvQuery: string;
     // searchModal*: not congigurable from the setting tab, just remenbers the last state
     searchModalQueryType: QueryType;
@@ -198,9 +211,13 @@ export const DEFAULT_SETTINGS: Required<MathContextSettings> = {
     numberSuffix: "",
     numberInit: 1,
     numberStyle: "arabic",
+    numberWithin: 0,
+    continuousNumbering: false,
+    noteOrderProperty: "",
     numberDefault: "auto", 
-    refFormat: "[type] [number] ([title])",
-    noteMathLinkFormat: "[title] if title exists, [type] [number] otherwise",
+    theoremCounters: "",
+    refFormat: "{type} {number}{title? ({title})}",
+    noteMathLinkFormat: "{title}{title!{type} {number}}",
     ignoreMainTheoremCalloutWithoutTitle: false,
     numberOnlyReferencedEquations: true,
     inferEqNumberPrefix: true,
@@ -210,14 +227,16 @@ export const DEFAULT_SETTINGS: Required<MathContextSettings> = {
     eqNumberSuffix: "",
     eqNumberInit: 1,
     eqNumberStyle: "arabic",
-    eqRefPrefix: "", 
-    eqRefSuffix: "",
+    eqNumberWithin: 0,
+    eqRefFormat: "{number}",
     labelPrefix: "",
     lineByLine: true,
     theoremCalloutStyle: "Framed",
     theoremCalloutFontInherit: false,
     beginProof: "\\begin{proof}",
     endProof: "\\end{proof}",
+    foldProofs: false,
+    insertProofAsCallout: false,
     insertSpace: true,
 }
 
@@ -226,6 +245,7 @@ export const DEFAULT_EXTRA_SETTINGS: Required<ExtraSettings> = {
     noteTitleInTheoremLink: true,
     noteTitleInEquationLink: true,
     profiles: DEFAULT_PROFILES,
+    theoremLikeEnvs: DEFAULT_THEOREM_LIKE_ENVs,
     showTheoremTitleinBuiltin: true,
     showTheoremContentinBuiltin: false,
     triggerSuggest: "\\ref",
@@ -257,6 +277,7 @@ export const DEFAULT_EXTRA_SETTINGS: Required<ExtraSettings> = {
     searchMethod: "Fuzzy",
     upWeightRecent: 0.1, 
     searchLabel: false,
+    theoremBodyIndexLength: 300,
     modifierToJump: "Mod",
     modifierToNoteLink: "Shift",
     showModifierInstruction: true,
@@ -270,8 +291,26 @@ export const DEFAULT_EXTRA_SETTINGS: Required<ExtraSettings> = {
     setLabelInModal: false,
     excludeExampleCallout: false,
     enableProof: true,
+    showDiagnosticsInEditor: true,
     autocompleteDvQuery: '',
     searchModalQueryType: 'both',
     searchModalRange: 'recent',
     searchModalDvQuery: '',
 };
+
+
+/** The local settings as saved by older versions, which may still contain the removed prefix/suffix of equation references. */
+type LegacyMathContextSettings = Partial<MathContextSettings> & { eqRefPrefix?: string, eqRefSuffix?: string };
+
+/** Convert the local settings saved by older versions: the fixed reference formats and the prefix/suffix of equation references are replaced by templates. */
+export function migrateReferenceFormats(settings: LegacyMathContextSettings) {
+    for (const key of ["refFormat", "noteMathLinkFormat"] as const) {
+        const format = settings[key];
+        if (format !== undefined && format in LEGACY_REF_FORMATS) settings[key] = LEGACY_REF_FORMATS[format];
+    }
+    if ((settings.eqRefPrefix !== undefined || settings.eqRefSuffix !== undefined) && settings.eqRefFormat === undefined) {
+        settings.eqRefFormat = (settings.eqRefPrefix ?? "") + "{number}" + (settings.eqRefSuffix ?? "");
+    }
+    delete settings.eqRefPrefix;
+    delete settings.eqRefSuffix;
+}
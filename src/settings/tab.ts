@@ -68,6 +68,10 @@ export class MathSettingTab extends PluginSettingTab {
             extraHelper.settingRefs.showTheoremCalloutEditButton.settingEl, 
             globalHelper.settingRefs.profile.settingEl
         );
+        this.containerEl.insertAfter(
+            extraHelper.settingRefs.theoremLikeEnvs.settingEl, 
+            globalHelper.settingRefs.profile.settingEl
+        );
         this.containerEl.insertAfter(
             extraHelper.settingRefs.excludeExampleCallout.settingEl, 
             globalHelper.settingRefs.profile.settingEl
@@ -90,7 +94,7 @@ export class MathSettingTab extends PluginSettingTab {
         );
         this.containerEl.insertAfter(
             extraHelper.settingRefs.noteTitleInEquationLink.settingEl, 
-            globalHelper.settingRefs.eqRefSuffix.settingEl
+            globalHelper.settingRefs.eqRefFormat.settingEl
         );
 
         this.containerEl.insertBefore(
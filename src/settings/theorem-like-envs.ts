@@ -0,0 +1,179 @@
+import { ButtonComponent, Modal, Notice, Setting } from 'obsidian';
+
+import LatexReferencer from 'main';
+import { DEFAULT_THEOREM_LIKE_ENVs, TheoremLikeEnv, validateTheoremLikeEnv } from 'env';
+import { capitalize } from 'utils/general';
+
+
+export class ManageTheoremLikeEnvModal extends Modal {
+    constructor(public plugin: LatexReferencer) {
+        super(plugin.app);
+    }
+
+    get envs() {
+        return this.plugin.extraSettings.theoremLikeEnvs;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.titleEl.setText("Manage theorem-like environments");
+
+        contentEl.createDiv({
+            text: 'Each environment can be used as a callout type via its ID or prefix, e.g. "> [!theorem]" or "> [!thm]". The prefix is also used for LaTeX/Pandoc labels. CSS classes will be added to the theorem callouts of the environment in addition to ".theorem-callout-<ID>".',
+            cls: ["setting-item-description", "math-booster-setting-item-description"],
+        });
+
+        new Setting(contentEl)
+            .setName("Add environment")
+            .addButton((button) => {
+                button.setIcon("plus").onClick(() => {
+                    new EditTheoremLikeEnvModal(this, null).open();
+                });
+            });
+
+        for (const env of this.envs) {
+            new Setting(contentEl)
+                .setName(env.id)
+                .setDesc(`Prefix: ${env.prefix}` + (env.cssClass ? `, CSS class: ${env.cssClass}` : ''))
+                .addButton((editButton) => {
+                    editButton.setIcon("pencil")
+                        .setTooltip("Edit")
+                        .setCta()
+                        .onClick(() => {
+                            new EditTheoremLikeEnvModal(this, env).open();
+                        });
+                }).addButton((deleteButton) => {
+                    deleteButton.setIcon("trash-2")
+                        .setTooltip("Delete")
+                        .onClick(() => {
+                            this.envs.remove(env);
+                            this.onOpen();
+                        });
+                });
+        }
+
+        new Setting(contentEl)
+            .setName("Restore built-in environments")
+            .setDesc("Add back the built-in environments that have been deleted or modified. User-defined environments are kept unless they conflict with the built-in ones.")
+            .addButton((button) => {
+                button.setButtonText("Restore")
+                    .onClick(() => {
+                        const userDefined = this.envs.filter((env) => DEFAULT_THEOREM_LIKE_ENVs.every((builtin) => validateTheoremLikeEnv([builtin], env) === null));
+                        this.envs.splice(0, this.envs.length, ...structuredClone(DEFAULT_THEOREM_LIKE_ENVs), ...userDefined);
+                        this.onOpen();
+                    });
+            });
+    }
+
+    async onClose() {
+        this.contentEl.empty();
+
+        await this.plugin.saveSettings();
+        this.plugin.indexManager.trigger('global-settings-updated');
+    }
+}
+
+
+class EditTheoremLikeEnvModal extends Modal {
+    /** The environment being edited. Changes are applied to the original one only after validation. */
+    env: TheoremLikeEnv;
+
+    constructor(public parent: ManageTheoremLikeEnvModal, public original: TheoremLikeEnv | null) {
+        super(parent.app);
+        this.env = original ? { ...original } : { id: '', prefix: '', cssClass: '' };
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.titleEl.setText(this.original ? `Edit environment "${this.original.id}"` : "Add environment");
+
+        new Setting(contentEl)
+            .setName("ID")
+            .setDesc('e.g. "notation". Theorem callouts of this environment can be inserted as "> [!notation]".')
+            .addText((text) => {
+                text.setValue(this.env.id)
+                    .onChange((value) => {
+                        this.env.id = value.trim();
+                    });
+            });
+
+        new Setting(contentEl)
+            .setName("Prefix")
+            .setDesc('e.g. "ntn". This can be used as a shorthand: "> [!ntn]".')
+            .addText((text) => {
+                text.setValue(this.env.prefix)
+                    .onChange((value) => {
+                        this.env.prefix = value.trim();
+                    });
+            });
+
+        new Setting(contentEl)
+            .setName("CSS class")
+            .setDesc("Optional. Separate multiple classes with spaces.")
+            .addText((text) => {
+                text.setValue(this.env.cssClass ?? "")
+                    .onChange((value) => {
+                        this.env.cssClass = value.trim();
+                    });
+            });
+
+        const buttonContainerEl = contentEl.createDiv({ cls: "math-booster-button-container" });
+        new ButtonComponent(buttonContainerEl)
+            .setButtonText(this.original ? "Save" : "Add")
+            .setCta()
+            .onClick(() => {
+                if (this.save()) this.close();
+            });
+        new ButtonComponent(buttonContainerEl)
+            .setButtonText("Cancel")
+            .onClick(() => {
+                this.close();
+            });
+    }
+
+    /** Validate and apply the changes. Returns false if the environment is invalid. */
+    save(): boolean {
+        const { plugin, envs } = this.parent;
+        const others = envs.filter((env) => env !== this.original);
+
+        const error = validateTheoremLikeEnv(others, this.env);
+        if (error) {
+            new Notice(`${plugin.manifest.name}: ${error}`, 5000);
+            return false;
+        }
+
+        if (!this.env.cssClass) delete this.env.cssClass;
+
+        if (this.original) {
+            const oldID = this.original.id;
+            Object.assign(this.original, this.env);
+            if (oldID !== this.env.id) {
+                // carry over the displayed names in each profile
+                for (const profile of Object.values(plugin.extraSettings.profiles)) {
+                    profile.body.theorem[this.env.id] = profile.body.theorem[oldID] ?? capitalize(this.env.id);
+                    delete profile.body.theorem[oldID];
+                    for (const forms of [profile.body.theoremPlural, profile.body.theoremLowercase, profile.body.theoremAbbreviation]) {
+                        if (oldID in forms) {
+                            forms[this.env.id] = forms[oldID];
+                            delete forms[oldID];
+                        }
+                    }
+                }
+            }
+        } else {
+            envs.push(this.env);
+            for (const profile of Object.values(plugin.extraSettings.profiles)) {
+                profile.body.theorem[this.env.id] ??= capitalize(this.env.id);
+            }
+        }
+
+        return true;
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        this.parent.onOpen();
+    }
+}
@@ -10,8 +10,8 @@ import { formatTitleWithoutSubtitle } from "utils/format";
 import { renderTextWithMath } from "utils/render";
 import { MarkdownPage, TheoremCalloutBlock } from "index/typings/markdown";
 import { MathIndex } from 'index/math-index';
-import { parseTheoremCalloutMetadata, readTheoremCalloutSettings } from 'utils/parse';
-import { THEOREM_LIKE_ENV_ID_PREFIX_MAP, THEOREM_LIKE_ENV_PREFIX_ID_MAP, TheoremLikeEnvID, TheoremLikeEnvPrefix } from 'env';
+import { parseTheoremCalloutMetadata, parseTheoremCounters, readTheoremCalloutSettings } from 'utils/parse';
+import { findTheoremLikeEnv, toTheoremLikeEnvID } from 'env';
 import { getIO } from 'file-io';
 import { MutationObservingChild, getSectionCacheFromMouseEvent, getSectionCacheOfDOM, isPdfExport, resolveLinktext } from 'utils/obsidian';
 
@@ -21,15 +21,32 @@ export const createTheoremCalloutPostProcessor = (plugin: LatexReferencer) => as
     if (!(file instanceof TFile)) return null;
 
     const pdf = isPdfExport(element);
-    let index = 0; // for numbering theorems in PDf export
+    // for numbering theorems in PDf export
+    const { theoremCounters, numberWithin } = resolveSettings(undefined, plugin, file);
+    const counters = pdf ? parseTheoremCounters(theoremCounters, plugin.extraSettings.theoremLikeEnvs) : {};
+    let indices: Record<string, number> = pdf ? plugin.indexManager.index.getCarriedOverCounts(file).theorems : {};
+    let section = 0;
+
+    const selector = pdf && numberWithin > 0 ? `.callout, h${numberWithin}` : '.callout';
+    for (const calloutEl of element.querySelectorAll<HTMLElement>(selector)) {
+        if (!calloutEl.matches('.callout')) { // a heading
+            section++;
+            indices = {};
+            continue;
+        }
 
-    for (const calloutEl of element.querySelectorAll<HTMLElement>(`.callout`)) {
         const type = calloutEl.getAttribute('data-callout')!.toLowerCase();
 
         if (isTheoremCallout(plugin, type)) {
             if (pdf) { // preprocess for theorem numbering in PDF export
-                const settings = readSettingsFromEl(calloutEl);
-                if (settings?.number === 'auto') calloutEl.setAttribute('data-theorem-index', String(index++));
+                const settings = readSettingsFromEl(plugin, calloutEl);
+                if (settings?.number === 'auto') {
+                    const counter = counters[settings.type] ?? '';
+                    const index = indices[counter] ?? 0;
+                    calloutEl.setAttribute('data-theorem-index', String(index));
+                    indices[counter] = index + 1;
+                }
+                if (numberWithin > 0) calloutEl.setAttribute('data-theorem-section', String(section));
             }
 
             const theoremCallout = new TheoremCalloutRenderer(calloutEl, context, file, plugin);
@@ -90,12 +107,12 @@ class TheoremCalloutRenderer extends MarkdownRenderChild {
         // update: for Live Preview & PDF export
         this.addChild(this.observer = new MutationObservingChild(this.containerEl, (mutations) => {
             for (const mutation of mutations) {
-                if (mutation.oldValue !== this.containerEl.getAttribute('data-theorem-index')) {
+                if (mutation.attributeName && mutation.oldValue !== this.containerEl.getAttribute(mutation.attributeName)) {
                     this.update();
                 }
             }
         }, {
-            attributeFilter: ['data-theorem-index'],
+            attributeFilter: ['data-theorem-index', 'data-theorem-section'],
             attributeOldValue: true,
         }))
 
@@ -141,11 +158,10 @@ class TheoremCalloutRenderer extends MarkdownRenderChild {
 
             // Here, settings.title might be incorrect (e.g. "Theorem 1.2 (Cauchy-Schwarz)" instead of "Cauchy-Schwarz"), 
             // but it is not a problem because we are only updating the main title part.
-            const settings: (TheoremCalloutSettings & TheoremCalloutPrivateFields) | null = readSettingsFromEl(this.containerEl);
+            const settings: (TheoremCalloutSettings & TheoremCalloutPrivateFields) | null = readSettingsFromEl(this.plugin, this.containerEl);
             if (!settings) return null;
 
-            const livePreviewIndex = this.containerEl.getAttribute('data-theorem-index');
-            if (livePreviewIndex !== null) settings._index = +livePreviewIndex;
+            this.readNumberingFromEl(settings);
 
             const resolvedSettings = resolveSettings(settings, this.plugin, this.file);
             const newMainTitle = formatTitleWithoutSubtitle(this.plugin, this.file, resolvedSettings);
@@ -304,17 +320,17 @@ class TheoremCalloutRenderer extends MarkdownRenderChild {
 
     // this method is expected to be called for live preview only
     getTheoremCalloutInfoFromEl(): TheoremCalloutInfo | null {
-        const settings: (TheoremCalloutSettings & TheoremCalloutPrivateFields) | null = readSettingsFromEl(this.containerEl);
+        const settings: (TheoremCalloutSettings & TheoremCalloutPrivateFields) | null = readSettingsFromEl(this.plugin, this.containerEl);
         if (!settings) return null;
-        const livePreviewIndex = this.containerEl.getAttribute('data-theorem-index');
-        if (livePreviewIndex !== null) settings._index = +livePreviewIndex;
+        this.readNumberingFromEl(settings);
         const resolvedSettings = resolveSettings(settings, this.plugin, this.file);
 
         let theoremSubtitleEl = this.containerEl.querySelector<HTMLElement>('.theorem-callout-subtitle');
         if (theoremSubtitleEl === null) {
             const titleInnerEl = this.containerEl.querySelector<HTMLElement>('.callout-title-inner');
             if (titleInnerEl?.childNodes.length) {
-                if (titleInnerEl.textContent !== capitalize(settings.type) && titleInnerEl.textContent !== capitalize(THEOREM_LIKE_ENV_ID_PREFIX_MAP[settings.type as TheoremLikeEnvID])) {
+                const prefix = findTheoremLikeEnv(this.plugin.extraSettings.theoremLikeEnvs, settings.type)?.prefix ?? settings.type;
+                if (titleInnerEl.textContent !== capitalize(settings.type) && titleInnerEl.textContent !== capitalize(prefix)) {
                     theoremSubtitleEl = createSpan({ cls: "theorem-callout-subtitle" });
                     theoremSubtitleEl.replaceChildren('(', ...titleInnerEl.childNodes, ')');
                 }
@@ -329,6 +345,14 @@ class TheoremCalloutRenderer extends MarkdownRenderChild {
         };
     }
 
+    /** Read the theorem number set by the view plugin (live preview) or the post processor (PDF export). */
+    readNumberingFromEl(settings: TheoremCalloutSettings & TheoremCalloutPrivateFields) {
+        const livePreviewIndex = this.containerEl.getAttribute('data-theorem-index');
+        if (livePreviewIndex !== null) settings._index = +livePreviewIndex;
+        const livePreviewSection = this.containerEl.getAttribute('data-theorem-section');
+        if (livePreviewSection !== null) settings._section = +livePreviewSection;
+    }
+
     renderTitle(info: TheoremCalloutInfo, existingMainTitleEl?: HTMLElement | null) {
         const titleInner = this.containerEl.querySelector<HTMLElement>('.callout-title-inner');
         if (!titleInner) throw Error(`${this.plugin.manifest.name}: Failed to find the title element of a theorem callout.`);
@@ -357,18 +381,7 @@ class TheoremCalloutRenderer extends MarkdownRenderChild {
     }
 
     addCssClasses(info: TheoremCalloutInfo) {
-        this.containerEl.classList.forEach((cls, _, list) => {
-            if (cls.startsWith('theorem-callout')) list.remove(cls);
-        });
-        this.containerEl.classList.add("theorem-callout");
-        const resolvedSettings = resolveSettings(undefined, this.plugin, this.file);
-        const profile = this.plugin.extraSettings.profiles[resolvedSettings.profile];
-        for (const tag of profile.meta.tags) {
-            this.containerEl.classList.add("theorem-callout-" + tag);
-        }
-        this.containerEl.classList.add("theorem-callout-" + info.theoremType);
-        this.containerEl.toggleClass(`theorem-callout-${resolvedSettings.theoremCalloutStyle.toLowerCase()}`, resolvedSettings.theoremCalloutStyle != "Custom");
-        this.containerEl.toggleClass("theorem-callout-font-family-inherit", resolvedSettings.theoremCalloutStyle != "Custom" && resolvedSettings.theoremCalloutFontInherit);
+        addTheoremCalloutClasses(this.plugin, this.file, this.containerEl, info.theoremType);
     }
 
     removeEditButton() {
@@ -410,7 +423,7 @@ class TheoremCalloutRenderer extends MarkdownRenderChild {
             },
                 "Confirm",
                 "Edit theorem callout settings",
-                readTheoremCalloutSettings(line, this.plugin.extraSettings.excludeExampleCallout)
+                readTheoremCalloutSettings(line, this.plugin.extraSettings.theoremLikeEnvs, this.plugin.extraSettings.excludeExampleCallout)
             ).open();
         });
     }
@@ -449,8 +462,29 @@ class TheoremCalloutRenderer extends MarkdownRenderChild {
 }
 
 
+/** Add the CSS classes for the theorem callout style, the profile and the given environment (e.g. "theorem" or "proof"). */
+export function addTheoremCalloutClasses(plugin: LatexReferencer, file: TFile, calloutEl: HTMLElement, type: string) {
+    calloutEl.classList.forEach((cls, _, list) => {
+        if (cls.startsWith('theorem-callout')) list.remove(cls);
+    });
+    calloutEl.classList.add("theorem-callout");
+    const resolvedSettings = resolveSettings(undefined, plugin, file);
+    const profile = plugin.extraSettings.profiles[resolvedSettings.profile];
+    for (const tag of profile.meta.tags) {
+        calloutEl.classList.add("theorem-callout-" + tag);
+    }
+    calloutEl.classList.add("theorem-callout-" + type);
+    const env = findTheoremLikeEnv(plugin.extraSettings.theoremLikeEnvs, type);
+    if (env?.cssClass) {
+        calloutEl.classList.add(...env.cssClass.split(/\s+/).filter((cls) => cls));
+    }
+    calloutEl.toggleClass(`theorem-callout-${resolvedSettings.theoremCalloutStyle.toLowerCase()}`, resolvedSettings.theoremCalloutStyle != "Custom");
+    calloutEl.toggleClass("theorem-callout-font-family-inherit", resolvedSettings.theoremCalloutStyle != "Custom" && resolvedSettings.theoremCalloutFontInherit);
+}
+
+
 /** Read TheoremCalloutSettings from the element's attribute. */
-function readSettingsFromEl(calloutEl: HTMLElement): TheoremCalloutSettings | null {
+function readSettingsFromEl(plugin: LatexReferencer, calloutEl: HTMLElement): TheoremCalloutSettings | null {
     let type = calloutEl.getAttribute('data-callout')?.trim().toLowerCase();
     if (type === undefined) return null;
 
@@ -466,10 +500,9 @@ function readSettingsFromEl(calloutEl: HTMLElement): TheoremCalloutSettings | nu
     }
 
     // new format
-    if (type.length <= 4) { // use length to avoid iterating over all the prefixes
-        // convert a prefix to an ID (e.g. "thm" -> "theorem")
-        type = THEOREM_LIKE_ENV_PREFIX_ID_MAP[type as TheoremLikeEnvPrefix];
-    }
+    // convert a prefix to an ID (e.g. "thm" -> "theorem")
+    type = toTheoremLikeEnvID(plugin.extraSettings.theoremLikeEnvs, type);
+    if (type === undefined) return null;
 
     const number = parseTheoremCalloutMetadata(metadata);
 
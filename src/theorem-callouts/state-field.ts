@@ -2,13 +2,20 @@ import { StateField, EditorState, Transaction, RangeSet, RangeValue, Range, Text
 import { ensureSyntaxTree, syntaxTree } from '@codemirror/language';
 
 import LatexReferencer from 'main';
-import { readTheoremCalloutSettings } from 'utils/parse';
+import { parseTheoremCounters, readTheoremCalloutSettings } from 'utils/parse';
+import { resolveSettings } from 'utils/plugin';
 import { editorInfoField } from 'obsidian';
 
 export const CALLOUT = /HyperMD-callout_HyperMD-quote_HyperMD-quote-([1-9][0-9]*)/;
+export const HEADING = /HyperMD-header_HyperMD-header-([1-6])/;
 
 export class TheoremCalloutInfo extends RangeValue {
-    constructor(public index: number | null) {
+    /**
+     * @param index The index of this theorem callout among the auto-numbered ones sharing the same counter.
+     * @param counter The name of the counter ("" for the default one). See the "Counters" local setting.
+     * @param section The number of the heading this theorem callout is numbered within, or null if not numbered within headings.
+     */
+    constructor(public index: number | null, public counter: string, public section: number | null) {
         super();
     }
 }
@@ -20,7 +27,7 @@ export const createTheoremCalloutsField = (plugin: LatexReferencer) => StateFiel
         // do not number theorems in canvas to make live preview consistent with reading view
         if (!state.field(editorInfoField).file) return RangeSet.empty;
 
-        const ranges = getTheoremCalloutInfos(plugin, state, state.doc, 0, 0);
+        const ranges = getTheoremCalloutInfos(plugin, state, state.doc, 0, getCarriedOverCounts(plugin, state));
         return RangeSet.of(ranges);
     },
     update(value: RangeSet<TheoremCalloutInfo>, tr: Transaction) {
@@ -32,6 +39,12 @@ export const createTheoremCalloutsField = (plugin: LatexReferencer) => StateFiel
         // we don't need to update it when the document is not changed
         if (!tr.docChanged) return value;
 
+        // When numbering within headings, inserting or deleting a heading affects all the following theorems 
+        // in a way that can't be easily tracked, so just recompute everything
+        if (resolveSettings(undefined, plugin, tr.state.field(editorInfoField).file!).numberWithin > 0) {
+            return RangeSet.of(getTheoremCalloutInfos(plugin, tr.state, tr.newDoc, 0, getCarriedOverCounts(plugin, tr.state)));
+        }
+
         // In order to make the updates efficient, we only update the theorem callout infos that are affected by the changes, 
         // that is, theorem callouts after the insertion point.
 
@@ -47,9 +60,9 @@ export const createTheoremCalloutsField = (plugin: LatexReferencer) => StateFiel
 
         value = value.map(changeDesc);
 
-        let init = 0;
+        const init = getCarriedOverCounts(plugin, tr.state);
         value.between(0, minChangedPosition, (from, to, info) => {
-            if (to < minChangedPosition && info.index !== null) init = info.index + 1;
+            if (to < minChangedPosition && info.index !== null) init[info.counter] = info.index + 1;
         });
 
         const updatedRanges = getTheoremCalloutInfos(plugin, tr.state, tr.newDoc, minChangedPosition, init);
@@ -62,12 +75,22 @@ export const createTheoremCalloutsField = (plugin: LatexReferencer) => StateFiel
 });
 
 
-function getTheoremCalloutInfos(plugin: LatexReferencer, state: EditorState, doc: Text, from: number, init: number): Range<TheoremCalloutInfo>[] {
+/** The theorem numbers carried over from the previous note, if this note continues numbering from it. */
+function getCarriedOverCounts(plugin: LatexReferencer, state: EditorState): Record<string, number> {
+    return plugin.indexManager.index.getCarriedOverCounts(state.field(editorInfoField).file!).theorems;
+}
+
+
+function getTheoremCalloutInfos(plugin: LatexReferencer, state: EditorState, doc: Text, from: number, init: Record<string, number>): Range<TheoremCalloutInfo>[] {
     const ranges: Range<TheoremCalloutInfo>[] = [];
     // syntaxTree returns a potentially imcomplete tree (limited by viewport), so we need to ensure it's complete
     const tree = ensureSyntaxTree(state, doc.length) ?? syntaxTree(state);
 
-    let theoremIndex = init; // incremented when a auto-numbered theorem is found
+    const file = state.field(editorInfoField).file!;
+    const { theoremCounters, numberWithin } = resolveSettings(undefined, plugin, file);
+    const counters = parseTheoremCounters(theoremCounters, plugin.extraSettings.theoremLikeEnvs);
+    let theoremIndices = { ...init }; // incremented when a auto-numbered theorem is found
+    let section = 0; // incremented when a heading of level `numberWithin` is found (only used when numberWithin > 0)
 
     tree.iterate({
         from, to: doc.length,
@@ -76,15 +99,32 @@ function getTheoremCalloutInfos(plugin: LatexReferencer, state: EditorState, doc
 
             if (node.node.parent?.name !== 'Document') return false; // skip sub-nodes of a line
 
+            if (numberWithin > 0) {
+                const headingMatch = node.name.match(HEADING);
+                if (headingMatch) {
+                    if (+headingMatch[1] === numberWithin) {
+                        section++;
+                        theoremIndices = {};
+                    }
+                    return false;
+                }
+            }
+
             const text = doc.sliceString(node.from, node.to);
 
             const match = node.name.match(CALLOUT);
             if (!match) return false;
 
-            const settings = readTheoremCalloutSettings(text, plugin.extraSettings.excludeExampleCallout);
+            const settings = readTheoremCalloutSettings(text, plugin.extraSettings.theoremLikeEnvs, plugin.extraSettings.excludeExampleCallout);
             if (!settings) return false;
 
-            const value = new TheoremCalloutInfo(settings.number === 'auto' ? theoremIndex++ : null);
+            const counter = counters[settings.type] ?? '';
+            let index: number | null = null;
+            if (settings.number === 'auto') {
+                index = theoremIndices[counter] ?? 0;
+                theoremIndices[counter] = index + 1;
+            }
+            const value = new TheoremCalloutInfo(index, counter, numberWithin > 0 ? section : null);
             const range = value.range(node.from, node.to);
             ranges.push(range);
 
@@ -28,6 +28,10 @@ export const createTheoremCalloutNumberingViewPlugin = (plugin: LatexReferencer)
                 const index = iter.value?.index;
                 if (typeof index === 'number') calloutEl.setAttribute('data-theorem-index', String(index));
                 else calloutEl.removeAttribute('data-theorem-index');
+
+                const section = iter.value?.section;
+                if (typeof section === 'number') calloutEl.setAttribute('data-theorem-section', String(section));
+                else calloutEl.removeAttribute('data-theorem-section');
             }
         }
     }
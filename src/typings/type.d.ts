@@ -3,6 +3,8 @@ import { EditorView } from "@codemirror/view";
 
 declare module "obsidian" {
     interface App {
+        /** A unique ID for each vault. */
+        appId: string;
         plugins: {
             enabledPlugins: Set<string>;
             plugins: {
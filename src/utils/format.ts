@@ -3,7 +3,8 @@ import { App, TFile } from "obsidian";
 import LatexReferencer from "main";
 import { getPropertyOrLinkTextInProperty } from "utils/obsidian";
 import { DEFAULT_SETTINGS, MathContextSettings, NumberStyle, ResolvedMathSettings } from "settings/settings";
-import { THEOREM_LIKE_ENVs, TheoremLikeEnvID } from "env";
+import { findTheoremLikeEnv } from "env";
+import { capitalize } from "utils/general";
 
 
 const ROMAN = ["", "C", "CC", "CCC", "CD", "D", "DC", "DCC", "DCCC", "CM",
@@ -46,24 +47,29 @@ export const CONVERTER = {
 
 export function formatTheoremCalloutType(plugin: LatexReferencer, settings: { type: string, profile: string }): string {
     const profile = plugin.extraSettings.profiles[settings.profile];
-    return profile.body.theorem[settings.type as TheoremLikeEnvID];
+    // fall back to the capitalized ID for a user-defined environment that is not named in this profile yet
+    return profile.body.theorem[settings.type] || capitalize(settings.type);
 }
 
-export function formatTitleWithoutSubtitle(plugin: LatexReferencer, file: TFile, settings: ResolvedMathSettings): string {
-    let title = formatTheoremCalloutType(plugin, settings);
-
-    if (settings.number) {
-        if (settings.number == 'auto') {
-            if (settings._index !== undefined) {
-                settings.numberInit = settings.numberInit ?? 1;
-                const num = +settings._index + +settings.numberInit;
-                const style = settings.numberStyle ?? DEFAULT_SETTINGS.numberStyle as NumberStyle;
-                title += ` ${getNumberPrefix(plugin.app, file, settings)}${CONVERTER[style](num)}${settings.numberSuffix}`;
-            }
-        } else {
-            title += ` ${settings.number}`;
+/** e.g. "1.2" for "Theorem 1.2". Empty if the theorem is not numbered. */
+export function formatTheoremNumber(plugin: LatexReferencer, file: TFile, settings: ResolvedMathSettings): string {
+    if (settings.number == 'auto') {
+        if (settings._index !== undefined) {
+            settings.numberInit = settings.numberInit ?? 1;
+            const num = +settings._index + +settings.numberInit;
+            const style = settings.numberStyle ?? DEFAULT_SETTINGS.numberStyle as NumberStyle;
+            const section = settings._section !== undefined ? `${settings._section}.` : '';
+            return `${getNumberPrefix(plugin.app, file, settings)}${section}${CONVERTER[style](num)}${settings.numberSuffix}`;
         }
+        return '';
     }
+    return settings.number ?? '';
+}
+
+export function formatTitleWithoutSubtitle(plugin: LatexReferencer, file: TFile, settings: ResolvedMathSettings): string {
+    let title = formatTheoremCalloutType(plugin, settings);
+    const number = formatTheoremNumber(plugin, file, settings);
+    if (number) title += ` ${number}`;
     return title;
 }
 
@@ -83,6 +89,52 @@ export function addSubTitle(mainTitle: string, settings: ResolvedMathSettings, n
     return title;
 }
 
+/**
+ * Fill in a reference template such as "{type} {number}{title? ({title})}".
+ * - "{key}" is replaced with the value of `key`.
+ * - "{key?text}" is replaced with `text` if the value of `key` is non-empty, and "{key!text}" if it is empty.
+ *   `text` can contain other placeholders.
+ * Unknown placeholders are left as they are. Consecutive spaces are collapsed and the result is trimmed,
+ * so that e.g. "{type} {number}" gives "Theorem" rather than "Theorem " for an unnumbered theorem.
+ */
+export function formatTemplate(template: string, values: Record<string, string | undefined>): string {
+    return fillTemplate(template, values).replace(/ {2,}/g, ' ').trim();
+}
+
+function fillTemplate(template: string, values: Record<string, string | undefined>): string {
+    let result = '';
+    let i = 0;
+    while (i < template.length) {
+        const open = template.indexOf('{', i);
+        if (open < 0) break;
+        // find the matching closing brace
+        let depth = 0;
+        let close = -1;
+        for (let j = open; j < template.length; j++) {
+            if (template[j] === '{') depth++;
+            else if (template[j] === '}' && --depth === 0) {
+                close = j;
+                break;
+            }
+        }
+        if (close < 0) break;
+
+        result += template.slice(i, open);
+        const inner = template.slice(open + 1, close);
+        const match = inner.match(/^([a-zA-Z]+)(?:([?!])([\s\S]*))?$/);
+        if (match && match[1] in values) {
+            const [, key, operator, text] = match;
+            const value = values[key] ?? '';
+            if (!operator) result += value;
+            else if ((operator === '?') === !!value) result += fillTemplate(text, values);
+        } else {
+            result += '{' + inner + '}';
+        }
+        i = close + 1;
+    }
+    return result + template.slice(i);
+}
+
 export function inferNumberPrefix(source: string, regExp: string): string | undefined {
     const pattern = new RegExp(regExp);
     const match = source.match(pattern);
@@ -164,8 +216,9 @@ export function getEqNumberPrefix(app: App, file: TFile, settings: Required<Math
     return "";
 }
 
-export function formatLabel(settings: ResolvedMathSettings): string | undefined {
+export function formatLabel(plugin: LatexReferencer, settings: ResolvedMathSettings): string | undefined {
     if (settings.label) {
-        return settings.labelPrefix + THEOREM_LIKE_ENVs[settings.type as TheoremLikeEnvID].prefix + ":" + settings.label;
+        const prefix = findTheoremLikeEnv(plugin.extraSettings.theoremLikeEnvs, settings.type)?.prefix ?? settings.type;
+        return settings.labelPrefix + prefix + ":" + settings.label;
     }
 }
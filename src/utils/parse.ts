@@ -1,13 +1,33 @@
-import { THEOREM_LIKE_ENV_IDs, THEOREM_LIKE_ENV_PREFIXES, THEOREM_LIKE_ENV_PREFIX_ID_MAP, TheoremLikeEnvID, TheoremLikeEnvPrefix } from "env";
+import { ProofLikeEnvID, TheoremLikeEnv, isProofLikeEnvID, toTheoremLikeEnvID } from "env";
 import { FoldOption, MinimalTheoremCalloutSettings } from "settings/settings";
 
-export const THEOREM_CALLOUT_PATTERN = new RegExp(
-    `> *\\[\\! *(?<type>${THEOREM_LIKE_ENV_IDs.join('|')}|${THEOREM_LIKE_ENV_PREFIXES.join('|')}|math) *(\\|(?<number>.*?))?\\](?<fold>[+-])?(?<title> .*)?`,
-    'i'
-);
+/**
+ * Cache of the patterns built by getTheoremCalloutPattern(), so that we don't have to rebuild them for every line.
+ * Keyed by the IDs and prefixes rather than the array itself, since the settings tab modifies the array in place.
+ */
+const THEOREM_CALLOUT_PATTERNS = new Map<string, RegExp>();
+
+/** Build a regular expression matching the first line of a theorem callout of any of the given environments. */
+export function getTheoremCalloutPattern(envs: TheoremLikeEnv[]): RegExp {
+    const types = envs.flatMap((env) => [env.id, env.prefix]);
+    const key = JSON.stringify(types);
+    let pattern = THEOREM_CALLOUT_PATTERNS.get(key);
+    if (!pattern) {
+        pattern = new RegExp(
+            `> *\\[\\! *(?<type>${[...types.map(escapeRegExp), 'math'].join('|')}) *(\\|(?<number>.*?))?\\](?<fold>[+-])?(?<title> .*)?`,
+            'i'
+        );
+        THEOREM_CALLOUT_PATTERNS.set(key, pattern);
+    }
+    return pattern;
+}
+
+export function matchTheoremCallout(line: string, envs: TheoremLikeEnv[]): RegExpExecArray | null {
+    return getTheoremCalloutPattern(envs).exec(line)
+}
 
-export function matchTheoremCallout(line: string): RegExpExecArray | null {
-    return THEOREM_CALLOUT_PATTERN.exec(line)
+export function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
 /** > [!type|HERE IS METADATA] 
@@ -23,11 +43,12 @@ export function parseTheoremCalloutMetadata(metadata: string) {
 /**
  * 
  * @param line 
+ * @param envs the theorem-like environments to be recognized (typically `plugin.extraSettings.theoremLikeEnvs`)
  * @param excludeExample if true, then ""> [!example]" will not be treated as a theorem callout but as the built-in example callout.
  * @returns 
  */
-export function readTheoremCalloutSettings(line: string, excludeExample: boolean = false): MinimalTheoremCalloutSettings & { legacy: boolean } | undefined {
-    const rawSettings = line.match(THEOREM_CALLOUT_PATTERN)?.groups as { type: string, number?: string, title?: string, fold?: string } | undefined;
+export function readTheoremCalloutSettings(line: string, envs: TheoremLikeEnv[], excludeExample: boolean = false): MinimalTheoremCalloutSettings & { legacy: boolean } | undefined {
+    const rawSettings = line.match(getTheoremCalloutPattern(envs))?.groups as { type: string, number?: string, title?: string, fold?: string } | undefined;
     if (!rawSettings) return;
 
     let type = rawSettings.type.trim().toLowerCase();
@@ -44,10 +65,11 @@ export function readTheoremCalloutSettings(line: string, excludeExample: boolean
     // new format
     if (excludeExample && type === 'example') return undefined;
 
-    if (type.length <= 4) { // use length to avoid iterating over all the prefixes
-        // convert a prefix to an ID (e.g. "thm" -> "theorem")
-        type = THEOREM_LIKE_ENV_PREFIX_ID_MAP[type as TheoremLikeEnvPrefix];
-    }
+    // convert a prefix to an ID (e.g. "thm" -> "theorem")
+    const id = toTheoremLikeEnvID(envs, type);
+    if (id === undefined) return undefined;
+    type = id;
+
     const number = parseTheoremCalloutMetadata(rawSettings.number ?? '');
 
     let title: string | undefined = rawSettings.title?.trim();
@@ -58,7 +80,7 @@ export function readTheoremCalloutSettings(line: string, excludeExample: boolean
     return { type, number, title, fold, legacy: false };
 }
 
-export function _readTheoremCalloutSettings(callout: {type: string, metadata: string}, excludeExample: boolean = false): { type: string, number: string, legacy: boolean } | undefined {
+export function _readTheoremCalloutSettings(callout: {type: string, metadata: string}, envs: TheoremLikeEnv[], excludeExample: boolean = false): { type: string, number: string, legacy: boolean } | undefined {
     let type = callout.type;
 
     if (callout.type === 'math' && callout.metadata) {
@@ -71,10 +93,11 @@ export function _readTheoremCalloutSettings(callout: {type: string, metadata: st
     // new format
     if (excludeExample && callout.type === 'example') return undefined;
 
-    if (callout.type.length <= 4) { // use length to avoid iterating over all the prefixes
-        // convert a prefix to an ID (e.g. "thm" -> "theorem")
-        type = THEOREM_LIKE_ENV_PREFIX_ID_MAP[callout.type as TheoremLikeEnvPrefix];
-    }
+    // convert a prefix to an ID (e.g. "thm" -> "theorem")
+    const id = toTheoremLikeEnvID(envs, callout.type);
+    if (id === undefined) return undefined;
+    type = id;
+
     const number = parseTheoremCalloutMetadata(callout.metadata);
 
     return { type, number, legacy: false };
@@ -107,9 +130,260 @@ export function parseMarkdownComment(markdown: string): string[] {
     return comments;
 }
 
+/**
+ * The content of a callout (or a proof) as plain text for full-text search, truncated to the given length.
+ * Quote markers, Markdown comments (e.g. "%% label: ... %%") and block IDs are removed, while math is kept as is.
+ */
+export function getCalloutBodyText(lines: string[], maxLength: number): string {
+    if (maxLength <= 0) return "";
+    const text = lines.map((line) => line.replace(/^(>\s?)+/, "")).join("\n")
+        .replace(/%%[\s\S]*?%%/g, "")
+        .replace(/(^|\s)\^[A-Za-z0-9-]+\s*$/gm, "$1")
+        .replace(/\s+/g, " ")
+        .trim();
+    return text.slice(0, maxLength);
+}
+
 /** Parse an one-line YAML-like string into a key-value pair. */
 export function parseYamlLike(line: string): Record<string, string | undefined> | null {
     const result = line.match(/^(?<key>.*?):(?<value>.*)$/)?.groups;
     if (!result) return null;
     return { [result.key.trim()]: result.value.trim() };
 }
+
+/** 
+ * Parse the "Counters" local setting (e.g. "theorem, lemma: theorem; definition: definition") 
+ * into a map from environment IDs to counter names. 
+ * Environments not listed here are not included; they share the default counter.
+ */
+export function parseTheoremCounters(text: string, envs: TheoremLikeEnv[]): Record<string, string> {
+    const counters: Record<string, string> = {};
+    for (const group of text.split(';')) {
+        const colon = group.lastIndexOf(':');
+        if (colon < 0) continue;
+        const counter = group.substring(colon + 1).trim();
+        if (!counter) continue;
+        for (const type of group.substring(0, colon).split(',')) {
+            const id = toTheoremLikeEnvID(envs, type.trim());
+            if (id !== undefined) counters[id] = counter;
+        }
+    }
+    return counters;
+}
+
+/** The prefix of a label-based link, e.g. [[@thm:cauchy-schwarz]]. */
+export const LABEL_LINK_PREFIX = "@";
+
+/** The label of a label-based link like "@thm:cauchy-schwarz", or null if the linktext is not of this form. */
+export function parseLabelLinktext(linktext: string): string | null {
+    const match = linktext.match(/^@([^#|^[\]]+)$/);
+    return match ? match[1].trim() : null;
+}
+
+/** `\ref{label}` written in a text, outside inline code & math. */
+export const LABEL_REFERENCE_PATTERN = /\\ref\{([^{}]+)\}/g;
+
+/** The labels referred to in the given line by `\ref{label}`, skipping inline code & math. */
+export function parseLabelReferences(line: string): string[] {
+    return findLabelReferences(line).map((reference) => reference.label);
+}
+
+/** Same as `parseLabelReferences`, but also returns the columns where each `\ref{label}` starts & ends. */
+export function findLabelReferences(line: string): { label: string, from: number, to: number }[] {
+    // blank out inline code & math, keeping the columns unchanged
+    const blank = (match: string) => " ".repeat(match.length);
+    const text = line.replace(/(`+).*?\1/g, blank).replace(/\$(?:\\.|[^$\\])*\$/g, blank);
+    return [...text.matchAll(LABEL_REFERENCE_PATTERN)].map((match) => ({ label: match[1].trim(), from: match.index!, to: match.index! + match[0].length }));
+}
+
+/** AMS environments that can be numbered by themselves. A `\tag` must be placed inside them, not after `\end{...}`. */
+export const NUMBERED_ENVS = ["equation", "align", "gather", "alignat", "flalign", "eqnarray", "multline"];
+/** Among `NUMBERED_ENVS`, the ones whose lines are numbered one by one if `lineByLine` is on. Others (e.g. multline) get a single number. */
+const LINE_BY_LINE_ENVS = ["align", "gather", "alignat", "flalign", "eqnarray"];
+
+/** An environment spanning the entire math text, e.g. `\begin{alignat}{2} ... \end{alignat}`. */
+export interface MathEnvironment {
+    /** The name without the star, e.g. "alignat". */
+    name: string;
+    starred: boolean;
+    /** The beginning including the arguments, e.g. `\begin{alignat}{2}`. */
+    begin: string;
+    body: string;
+    end: string;
+}
+
+/** A line of a multi-line environment, i.e. a text delimited by `\\`. */
+export interface MathRow {
+    /** The text without comments. */
+    text: string;
+    /** False for lines inside nested environments (e.g. cases), empty lines and lines with `\nonumber`, `\notag` or `\tag`. */
+    numbered: boolean;
+    /** Set by `\label{...}` or `% label: ...` on the line. */
+    label?: string;
+}
+
+export function parseMathEnvironment(text: string): MathEnvironment | null {
+    const result = text.match(/^\s*(?<begin>\\begin\{(?<name>[a-zA-Z]+)(?<star>\*?)\}(?:\{[^{}]*\})?)(?<body>[\s\S]*)(?<end>\\end\{\k<name>\k<star>\})\s*$/);
+    if (!result) return null;
+    const { begin, name, star, body, end } = result.groups!;
+    return { name, starred: !!star, begin, body, end };
+}
+
+export function isLineByLineEnvironment(env: MathEnvironment): boolean {
+    return !env.starred && LINE_BY_LINE_ENVS.includes(env.name);
+}
+
+/** Split the body of a multi-line environment into lines, with comments removed. */
+export function splitIntoMathRows(body: string): MathRow[] {
+    const texts = [""];
+    const commentLabels: (string | undefined)[] = [];
+    body.split('\n').forEach((line, index) => {
+        const { nonComment, comment } = parseLatexComment(line);
+        const [first, ...rest] = nonComment.split("\\\\");
+        texts[texts.length - 1] += (index ? '\n' : '') + first;
+        texts.push(...rest);
+        // a comment on a line without any content is about the entire equation, not this line
+        const label = comment && nonComment.trim() ? parseYamlLike(comment)?.label : undefined;
+        // "a &= b \\ % label: ..." labels the line ended by "\\"
+        if (label) commentLabels[nonComment.trimEnd().endsWith("\\\\") ? texts.length - 2 : texts.length - 1] = label;
+    });
+
+    const envStack: string[] = [];
+    return texts.map((text, index) => {
+        const pattern = /\\(?<which>begin|end)\{(?<env>.*?)\}/g;
+        let result;
+        while ((result = pattern.exec(text)) !== null) {
+            const { which, env } = result.groups!;
+            if (which === 'begin') envStack.push(env);
+            else if (envStack[envStack.length - 1] === env) envStack.pop();
+        }
+        const numbered = !envStack.length && !!text.trim() && !/\\(nonumber|notag|tag)(?![a-zA-Z])/.test(text);
+        const label = commentLabels[index] ?? text.match(/\\label\{([^{}]*)\}/)?.[1].trim();
+        return label ? { text, numbered, label } : { text, numbered };
+    });
+}
+
+/** The lines of a multi-line equation (e.g. align) that get their own numbers if `lineByLine` is on, or null if there are less than two of them. */
+export function getLineByLineRows(mathText: string): MathRow[] | null {
+    const env = parseMathEnvironment(mathText);
+    if (!env || !isLineByLineEnvironment(env)) return null;
+    const rows = splitIntoMathRows(env.body).filter((row) => row.numbered);
+    return rows.length > 1 ? rows : null;
+}
+
+/** A beginning or ending marker of a proof found in a Markdown text, e.g. `\begin{proof}` or `\end{proof}`. */
+export interface ProofMarker {
+    which: "begin" | "end";
+    /** The offset of the opening backtick. */
+    from: number;
+    /** The offset right after the closing backtick (or the trailing @[[...]] for a beginning marker). */
+    to: number;
+    /** The number of proofs enclosing this marker's proof, i.e. 0 for a top-level proof. */
+    depth: number;
+    /** False if there is no matching marker, i.e. a `\begin{proof}` without `\end{proof}` or vice versa. */
+    matched: boolean;
+    /** The matching ending marker of a beginning marker, if any. */
+    pair?: ProofMarker;
+    /** The linktext following a beginning marker, e.g. "note#^block" for `\begin{proof}`@[[note#^block]] */
+    linktext?: string;
+    /** The optional title given to a beginning marker, e.g. "Sketch" for `\begin{proof}[Sketch]` */
+    title?: string;
+}
+
+/**
+ * Find all the proof markers in the given text, pairing each ending marker with the innermost unclosed beginning marker.
+ * @param isExcluded Whether a marker at the given offset should be ignored, e.g. in a code block.
+ */
+export function findProofMarkers(text: string, beginProof: string, endProof: string, isExcluded?: (offset: number) => boolean): ProofMarker[] {
+    const pattern = new RegExp(`\`${escapeRegExp(beginProof)}(?:\\[(?<title>[^\`]*)\\])?\`(?:@\\[\\[(?<linktext>[^\\]]+)\\]\\])?|\`(?<end>${escapeRegExp(endProof)})\``, 'g');
+    const markers: ProofMarker[] = [];
+    const stack: ProofMarker[] = [];
+    for (const match of text.matchAll(pattern)) {
+        const from = match.index!;
+        if (isExcluded?.(from)) continue;
+        const to = from + match[0].length;
+        if (match.groups!.end) {
+            const begin = stack.pop();
+            const marker: ProofMarker = { which: "end", from, to, depth: begin?.depth ?? 0, matched: !!begin };
+            if (begin) {
+                begin.matched = true;
+                begin.pair = marker;
+            }
+            markers.push(marker);
+        } else {
+            const marker: ProofMarker = { which: "begin", from, to, depth: stack.length, matched: false };
+            const linktext = match.groups!.linktext?.split('|')[0];
+            if (linktext) marker.linktext = linktext;
+            if (match.groups!.title) marker.title = match.groups!.title;
+            markers.push(marker);
+            stack.push(marker);
+        }
+    }
+    return markers;
+}
+
+/** A proof found in a Markdown text, delimited by the begin/end markers, e.g. `\begin{proof}` ... `\end{proof}`. */
+export interface ProofRange {
+    /** The offset of the beginning marker. */
+    start: number;
+    /** The offset right after the ending marker (or the end of the text if the proof is not closed). */
+    end: number;
+    /** The offsets of the content between the markers. */
+    contentStart: number;
+    contentEnd: number;
+    /** The number of proofs enclosing this one, i.e. 0 for a top-level proof. */
+    depth: number;
+    /** False if the ending marker is missing. */
+    closed: boolean;
+    /** The linktext following the beginning marker, e.g. "note#^block" for `\begin{proof}`@[[note#^block]] */
+    linktext?: string;
+    /** The optional title given to the beginning marker, e.g. "Sketch" for `\begin{proof}[Sketch]` */
+    title?: string;
+}
+
+/** Find all the proofs in the given text. Nested proofs are listed after the enclosing ones. */
+export function findProofRanges(text: string, beginProof: string, endProof: string, isExcluded?: (offset: number) => boolean): ProofRange[] {
+    const ranges: ProofRange[] = [];
+    const stack: ProofRange[] = [];
+    for (const marker of findProofMarkers(text, beginProof, endProof, isExcluded)) {
+        if (marker.which === "end") {
+            const range = stack.pop();
+            if (range) {
+                range.end = marker.to;
+                range.contentEnd = marker.from;
+                range.closed = true;
+            }
+        } else {
+            const range: ProofRange = { start: marker.from, end: text.length, contentStart: marker.to, contentEnd: text.length, depth: marker.depth, closed: false };
+            if (marker.linktext) range.linktext = marker.linktext;
+            if (marker.title) range.title = marker.title;
+            ranges.push(range);
+            stack.push(range);
+        }
+    }
+    return ranges;
+}
+
+/** The first line of a proof callout, e.g. "> [!proof] of [[note#^block]]" or "> [!solution]- Sketch". */
+export interface ProofCalloutHeader {
+    type: ProofLikeEnvID;
+    /** The linktext of "of [[...]]", e.g. "note#^block" for "> [!proof] of [[note#^block]]" */
+    linktext?: string;
+    /** The title other than "of [[...]]", e.g. "Sketch" for "> [!proof] Sketch" */
+    title?: string;
+}
+
+/** Parse the first line of a callout if it's a proof callout, i.e. > [!proof] or > [!solution] */
+export function parseProofCalloutHeader(line: string): ProofCalloutHeader | null {
+    const match = line.match(/^>\s*\[!(?<type>[^\]|]+)(?:\|[^\]]*)?\][+-]?\s*(?<title>.*?)\s*$/);
+    if (!match) return null;
+    const type = match.groups!.type.trim().toLowerCase();
+    if (!isProofLikeEnvID(type)) return null;
+
+    const header: ProofCalloutHeader = { type };
+    const title = match.groups!.title;
+    const linktext = title.match(/^of\s+\[\[(?<linktext>[^\]]+)\]\]$/i)?.groups!.linktext.split('|')[0];
+    if (linktext) header.linktext = linktext;
+    else if (title) header.title = title;
+    return header;
+}
@@ -1,11 +1,12 @@
 import LatexReferencer from "main";
-import { CachedMetadata, Editor, MarkdownFileInfo, MarkdownView, Notice, TAbstractFile, TFile } from "obsidian";
+import { CachedMetadata, Editor, MarkdownFileInfo, MarkdownView, Notice, TAbstractFile, TFile, TFolder } from "obsidian";
 import { DEFAULT_SETTINGS, MathContextSettings, MinimalTheoremCalloutSettings, ResolvedMathSettings, TheoremCalloutSettings } from "settings/settings";
 import { generateBlockID, getAncestors, getFile } from "./obsidian";
 import { EquationBlock, MarkdownBlock, MarkdownPage, TheoremCalloutBlock } from "index/typings/markdown";
 import { getIO } from "file-io";
 import { splitIntoLines } from "./general";
-import { THEOREM_LIKE_ENV_IDs, THEOREM_LIKE_ENV_PREFIXES } from "env";
+import { findTheoremLikeEnv } from "env";
+import { parseLabelLinktext } from "./parse";
 
 
 export function resolveSettings(settings: MinimalTheoremCalloutSettings, plugin: LatexReferencer, currentFile: TAbstractFile): ResolvedMathSettings;
@@ -25,6 +26,35 @@ export function resolveSettings(settings: MinimalTheoremCalloutSettings | undefi
     return resolvedSettings;
 }
 
+/**
+ * Get the notes in the given folder whose theorem/equation numbers continue from one to the next 
+ * (i.e. the "continuousNumbering" local setting is turned on), sorted by the property specified by 
+ * the "noteOrderProperty" local setting or by the file name.
+ */
+export function getNoteSequence(plugin: LatexReferencer, folder: TFolder): TFile[] {
+    const notes = folder.children.filter((child): child is TFile => {
+        return child instanceof TFile && child.extension === "md" && resolveSettings(undefined, plugin, child).continuousNumbering;
+    });
+    if (!notes.length) return notes;
+
+    const { noteOrderProperty } = resolveSettings(undefined, plugin, folder);
+    const getOrder = (note: TFile): string | undefined => {
+        if (!noteOrderProperty) return;
+        const value = plugin.app.metadataCache.getFileCache(note)?.frontmatter?.[noteOrderProperty];
+        if (value !== undefined && value !== null) return String(value);
+    }
+
+    // notes with the property come first, and the rest are sorted by the file name
+    return notes.sort((a, b) => {
+        const orderA = getOrder(a);
+        const orderB = getOrder(b);
+        if (orderA !== undefined && orderB !== undefined) return orderA.localeCompare(orderB, undefined, { numeric: true });
+        if (orderA !== undefined) return -1;
+        if (orderB !== undefined) return 1;
+        return a.basename.localeCompare(b.basename, undefined, { numeric: true });
+    });
+}
+
 export function getProfile(plugin: LatexReferencer, file: TFile) {
     const settings = resolveSettings(undefined, plugin, file);
     const profile = plugin.extraSettings.profiles[settings.profile];
@@ -36,6 +66,26 @@ export function getProfileByID(plugin: LatexReferencer, profileID: string) {
     return profile;
 }
 
+/**
+ * Convert a label-based link (e.g. "@thm:cauchy-schwarz") into an ordinary linktext to the labeled block (e.g. "path/to/note.md#^block-id"),
+ * or to the note containing it if the block has no block ID. Returns null if the linktext is not label-based or the label is not found.
+ */
+export function resolveLabelLinktext(plugin: LatexReferencer, linktext: string): string | null {
+    const label = parseLabelLinktext(linktext);
+    const block = label !== null ? plugin.indexManager.index.getBlockByLabel(label) : null;
+    if (!block) return null;
+    return block.$blockId ? `${block.$file}#^${block.$blockId}` : block.$file;
+}
+
+/** The text displayed for a label-based link: the display text or the refName of the labeled block, or of the labeled line of a multi-line equation. */
+export function getLabelRefName(plugin: LatexReferencer, label: string): string | null {
+    const { index } = plugin.indexManager;
+    const subEquation = index.getSubEquationByLabel(label)?.subEquation;
+    if (subEquation) return subEquation.$refName;
+    const block = index.getBlockByLabel(label);
+    return block ? block.$display || block.$refName : null;
+}
+
 export function staticifyEqNumber(plugin: LatexReferencer, file: TFile) {
     const page = plugin.indexManager.index.load(file.path);
     if (!MarkdownPage.isMarkdownPage(page)) {
@@ -157,12 +207,32 @@ export function insertTheoremCallout(editor: Editor, config: TheoremCalloutSetti
 
 export function isTheoremCallout(plugin: LatexReferencer, type: string) {
     if (plugin.extraSettings.excludeExampleCallout && type === 'example') return false;
-    return (THEOREM_LIKE_ENV_IDs as unknown as string[]).includes(type) || (THEOREM_LIKE_ENV_PREFIXES as unknown as string[]).includes(type) || type === 'math'
+    return findTheoremLikeEnv(plugin.extraSettings.theoremLikeEnvs, type) !== undefined || type === 'math'
 }
 
 export function insertProof(plugin: LatexReferencer, editor: Editor, context: MarkdownView | MarkdownFileInfo) {
     const settings = resolveSettings(undefined, plugin, context.file ?? getFile(plugin.app));
+    if (settings.insertProofAsCallout) {
+        insertProofCallout(editor);
+        return;
+    }
     const cursor = editor.getCursor();
     editor.replaceRange(`\`${settings.beginProof}\`\n\n\`${settings.endProof}\``, cursor);
     editor.setCursor({ line: cursor.line + 1, ch: 0 });
 }
+
+/** Insert a > [!proof] callout, or turn the selection into one. */
+function insertProofCallout(editor: Editor) {
+    const selection = editor.getSelection();
+    const cursorPos = editor.getCursor("from");
+    if (selection) {
+        editor.replaceSelection('> [!proof]\n' + increaseQuoteLevel(selection));
+        cursorPos.line += splitIntoLines(selection).length;
+        cursorPos.ch = editor.getLine(cursorPos.line).length;
+    } else {
+        editor.replaceRange('> [!proof]\n> ', cursorPos);
+        cursorPos.line += 1;
+        cursorPos.ch = 2;
+    }
+    editor.setCursor(cursorPos);
+}